@@ -0,0 +1,113 @@
+import { SourceAdapter, FetchResult, NormalizedEvent, EventType } from './SourceAdapter';
+import { SourceHttpClient } from '../services/SourceHttpClient';
+
+export class EONETAdapter implements SourceAdapter {
+  readonly id = 'nasa-eonet';
+  readonly aliases = ['eonet'];
+  readonly name = 'NASA EONET (Earth Observatory Natural Event Tracker)';
+  readonly idScheme = 'nasa-eonet-{event.id}';
+  readonly defaultConfidence = 0.90;
+  readonly alertType = undefined;
+  readonly defaultIntervalMinutes = 30;
+  readonly trackedProperties = ['title', 'closed', 'magnitudeValue', 'magnitudeUnit'];
+  readonly includeInBatch = true;
+
+  private static readonly EONET_URL = 'https://eonet.gsfc.nasa.gov/api/v3/events';
+
+  async fetchRaw(): Promise<FetchResult<any>> {
+    const data = await SourceHttpClient.getJson(this.id, `${EONETAdapter.EONET_URL}?status=open&limit=100`, {
+      fixture: 'events.json'
+    });
+
+    return { records: data.events || [] };
+  }
+
+  normalize(event: any): NormalizedEvent | null {
+    // Skip events without recent geometry
+    if (!event.geometry || event.geometry.length === 0) return null;
+
+    const latestGeometry = event.geometry[event.geometry.length - 1];
+    const eventType = this.mapEONETCategory(event.categories[0].id);
+    const severity = this.calculateEONETSeverity(event.categories[0].id, event.title);
+
+    return {
+      _id: `nasa-eonet-${event.id}`,
+      source: this.id,
+      type: eventType,
+      severity: severity,
+      confidence: this.defaultConfidence,
+      geometry: {
+        type: latestGeometry.type as 'Point' | 'Polygon',
+        coordinates: latestGeometry.coordinates
+      },
+      area_bbox: this.calculateBoundingBoxFromGeometry(latestGeometry),
+      starts_at: new Date(latestGeometry.date),
+      properties: {
+        title: event.title,
+        description: event.description || '',
+        category: event.categories[0].title,
+        category_id: event.categories[0].id,
+        link: event.link,
+        closed: event.closed || null,
+        magnitudeValue: event.magnitudeValue || null,
+        magnitudeUnit: event.magnitudeUnit || null
+      }
+    };
+  }
+
+  private mapEONETCategory(categoryId: number): EventType {
+    switch (categoryId) {
+      case 6: return 'earthquake'; // Earthquakes
+      case 8: return 'fire'; // Wildfires
+      case 9: return 'flood'; // Floods
+      case 10: return 'storm'; // Severe Storms
+      case 12: return 'storm'; // Volcanoes -> storm (ash/debris)
+      case 13: return 'aqi'; // Dust and Haze
+      case 14: return 'aqi'; // Smoke
+      case 15: return 'storm'; // Water Color
+      case 16: return 'storm'; // Manmade
+      case 17: return 'storm'; // Sea and Lake Ice
+      case 18: return 'storm'; // Snow
+      case 19: return 'storm'; // Temperature Extremes
+      default: return 'storm';
+    }
+  }
+
+  private calculateEONETSeverity(categoryId: number, title: string): number {
+    let baseSeverity = 5.0;
+
+    // Category-based severity
+    switch (categoryId) {
+      case 6: baseSeverity = 7.0; break; // Earthquakes
+      case 8: baseSeverity = 6.5; break; // Wildfires
+      case 9: baseSeverity = 7.5; break; // Floods
+      case 10: baseSeverity = 6.0; break; // Severe Storms
+      case 12: baseSeverity = 8.0; break; // Volcanoes
+    }
+
+    // Title-based modifiers
+    const titleLower = title.toLowerCase();
+    if (titleLower.includes('major') || titleLower.includes('severe')) baseSeverity += 1.0;
+    if (titleLower.includes('extreme') || titleLower.includes('catastrophic')) baseSeverity += 2.0;
+    if (titleLower.includes('minor') || titleLower.includes('small')) baseSeverity -= 1.0;
+
+    return Math.max(1.0, Math.min(10.0, baseSeverity));
+  }
+
+  private calculateBoundingBoxFromGeometry(geometry: any): [number, number, number, number] {
+    if (geometry.type === 'Point') {
+      const [lng, lat] = geometry.coordinates;
+      const radius = 0.1; // ~11km
+      return [lng - radius, lat - radius, lng + radius, lat + radius];
+    }
+
+    if (geometry.type === 'Polygon') {
+      const coords = geometry.coordinates[0];
+      const lngs = coords.map((c: number[]) => c[0]);
+      const lats = coords.map((c: number[]) => c[1]);
+      return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+    }
+
+    return [0, 0, 0, 0];
+  }
+}
@@ -0,0 +1,171 @@
+import { SourceAdapter, FetchResult, NormalizedEvent, BackfillRange, BackfillFilter, parseCountryCodes } from './SourceAdapter';
+import { SourceHttpClient } from '../services/SourceHttpClient';
+
+interface FIRMSRecord {
+  countryCode: string;
+  row: Record<string, string>;
+}
+
+export class FIRMSAdapter implements SourceAdapter<FIRMSRecord> {
+  readonly id = 'nasa-firms';
+  readonly aliases = ['firms'];
+  readonly name = 'NASA FIRMS (Fire Information for Resource Management System)';
+  readonly idScheme = 'nasa-firms-{country}-{acq_date}-{lat.4}-{lng.4}';
+  readonly defaultConfidence = 0.5;
+  readonly alertType = 'fire' as const;
+  readonly defaultIntervalMinutes = 180;
+  readonly trackedProperties = ['brightness', 'frp'];
+  readonly includeInBatch = false;
+  readonly maxBackfillWindowDays = 5; // FIRMS caps DAY_RANGE per request
+  readonly backfillFilters: BackfillFilter[] = ['countries'];
+  readonly optionKeys = ['countries'];
+
+  private static readonly FIRMS_URL = 'https://firms.modaps.eosdis.nasa.gov/api/country/csv';
+  private static readonly API_KEY = process.env.NASA_API_KEY || 'DEMO_KEY';
+  private static readonly DEFAULT_COUNTRIES = ['MYS', 'SGP', 'IDN', 'THA'];
+  // Near-real-time data is replaced by the standard (science-quality) product after about two months
+  private static readonly NRT_RETENTION_DAYS = 60;
+
+  async fetchRaw(options: { countries?: string[] }): Promise<FetchResult<FIRMSRecord>> {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    return this.fetchCountries(options.countries || FIRMSAdapter.DEFAULT_COUNTRIES, 'VIIRS_SNPP_NRT', yesterday, 1, '');
+  }
+
+  parseOptions(input: Record<string, any>): { countries?: string[] } {
+    return input.countries === undefined ? {} : { countries: parseCountryCodes(input.countries, 3) };
+  }
+
+  // Day-range query per country; only countries are supported because event ids are keyed by country
+  async fetchRange(range: BackfillRange): Promise<FetchResult<FIRMSRecord>> {
+    const dayRange = Math.max(1, Math.ceil((range.end.getTime() - range.start.getTime()) / (24 * 60 * 60 * 1000)));
+    const ageDays = (Date.now() - range.start.getTime()) / (24 * 60 * 60 * 1000);
+    const product = ageDays > FIRMSAdapter.NRT_RETENTION_DAYS ? 'VIIRS_SNPP_SP' : 'VIIRS_SNPP_NRT';
+    const dateStr = range.start.toISOString().split('T')[0];
+
+    return this.fetchCountries(range.countries || FIRMSAdapter.DEFAULT_COUNTRIES, product, range.start, dayRange, `-${dateStr}`);
+  }
+
+  private async fetchCountries(
+    countryCodes: string[],
+    product: string,
+    date: Date,
+    dayRange: number,
+    fixtureSuffix: string
+  ): Promise<FetchResult<FIRMSRecord>> {
+    const records: FIRMSRecord[] = [];
+    const errors: string[] = [];
+    const dateStr = date.toISOString().split('T')[0];
+
+    for (const countryCode of countryCodes) {
+      try {
+        const url = `${FIRMSAdapter.FIRMS_URL}/${FIRMSAdapter.API_KEY}/${product}/${encodeURIComponent(countryCode)}/${dayRange}/${dateStr}`;
+        const csvText = await SourceHttpClient.getText(this.id, url, {
+          fixture: `country-${countryCode}${fixtureSuffix}.csv`,
+          fixtureFallback: 'country.csv'
+        });
+
+        if (!csvText.includes('No data')) {
+          records.push(...this.parseCSV(csvText).map(row => ({ countryCode, row })));
+        }
+
+        // Rate limiting between countries
+        await new Promise(resolve => setTimeout(resolve, 1000));
+
+      } catch (error) {
+        console.error(`NASA FIRMS fetch failed for ${countryCode}:`, error);
+        errors.push(`${countryCode}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return { records, errors, meta: { countries: countryCodes, product } };
+  }
+
+  normalize({ countryCode, row: fireData }: FIRMSRecord): NormalizedEvent | null {
+    if (!fireData.latitude || !fireData.longitude) return null;
+
+    const lat = parseFloat(fireData.latitude);
+    const lng = parseFloat(fireData.longitude);
+    const confidence = parseFloat(fireData.confidence || '50');
+    const brightness = parseFloat(fireData.brightness || '300');
+
+    // Only process high-confidence fires
+    if (confidence < 30) return null;
+
+    return {
+      _id: `nasa-firms-${countryCode}-${fireData.acq_date}-${lat.toFixed(4)}-${lng.toFixed(4)}`,
+      source: this.id,
+      type: 'fire',
+      severity: this.calculateFireSeverity(brightness, confidence),
+      confidence: confidence / 100,
+      geometry: {
+        type: 'Point',
+        coordinates: [lng, lat]
+      },
+      area_bbox: this.calculateFireBoundingBox(lng, lat, brightness),
+      starts_at: new Date(`${fireData.acq_date}T${fireData.acq_time || '12:00:00'}Z`),
+      properties: {
+        brightness: brightness,
+        scan: parseFloat(fireData.scan || '1'),
+        track: parseFloat(fireData.track || '1'),
+        satellite: fireData.satellite || 'VIIRS',
+        instrument: fireData.instrument || 'VIIRS',
+        version: fireData.version || '2.0NRT',
+        bright_t31: parseFloat(fireData.bright_t31 || '0'),
+        frp: parseFloat(fireData.frp || '0'), // Fire Radiative Power
+        daynight: fireData.daynight || 'D',
+        country_code: countryCode
+      }
+    };
+  }
+
+  private parseCSV(csvText: string): Record<string, string>[] {
+    const lines = csvText.split('\n');
+    const headers = lines[0].split(',');
+    const rows: Record<string, string>[] = [];
+
+    for (let i = 1; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+
+      const values = lines[i].split(',');
+      const row: Record<string, string> = {};
+
+      headers.forEach((header, index) => {
+        row[header.trim()] = values[index]?.trim();
+      });
+
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private calculateFireSeverity(brightness: number, confidence: number): number {
+    let severity = 3.0;
+
+    // Brightness-based severity (typical range: 300-400K)
+    if (brightness > 380) severity += 3.0;
+    else if (brightness > 350) severity += 2.0;
+    else if (brightness > 320) severity += 1.0;
+
+    // Confidence-based modifier
+    if (confidence > 80) severity += 1.0;
+    else if (confidence < 50) severity -= 1.0;
+
+    return Math.max(1.0, Math.min(10.0, severity));
+  }
+
+  private calculateFireBoundingBox(lng: number, lat: number, brightness: number): [number, number, number, number] {
+    // Larger fires have bigger impact radius
+    const radiusKm = Math.max(2, (brightness - 300) / 20);
+    const radiusDegrees = radiusKm / 111;
+
+    return [
+      lng - radiusDegrees,
+      lat - radiusDegrees,
+      lng + radiusDegrees,
+      lat + radiusDegrees
+    ];
+  }
+}
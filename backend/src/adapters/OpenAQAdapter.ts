@@ -1,90 +1,66 @@
-import fetch from 'node-fetch';
-import { Event } from '../models/Event';
+import { SourceAdapter, FetchResult, NormalizedEvent, parseCountryCodes } from './SourceAdapter';
+import { SourceHttpClient } from '../services/SourceHttpClient';
+
+interface OpenAQRecord {
+  country: string;
+  locationKey: string;
+  measurements: any[];
+}
+
+export class OpenAQAdapter implements SourceAdapter<OpenAQRecord> {
+  readonly id = 'openaq';
+  readonly name = 'OpenAQ Air Quality API';
+  readonly idScheme = 'openaq-{country}-{lat.4}-{lng.4}-{yyyy-mm-dd}';
+  readonly defaultConfidence = 0.85;
+  readonly alertType = 'aqi' as const;
+  readonly defaultIntervalMinutes = 60;
+  readonly trackedProperties = ['aqi', 'aqi_category', 'primary_pollutant'];
+  readonly includeInBatch = true;
+  readonly optionKeys = ['countries'];
 
-export class OpenAQService {
   private static readonly BASE_URL = 'https://api.openaq.org/v2';
   private static readonly API_KEY = process.env.OPENAQ_API_KEY; // Optional, higher rate limits with key
+  private static readonly DEFAULT_COUNTRIES = ['MY', 'SG', 'ID', 'TH'];
 
-  static async ingestAirQualityData(countries: string[] = ['MY', 'SG', 'ID', 'TH']): Promise<{ inserted: number; updated: number }> {
-    let totalInserted = 0;
-    let totalUpdated = 0;
+  parseOptions(input: Record<string, any>): { countries?: string[] } {
+    return input.countries === undefined ? {} : { countries: parseCountryCodes(input.countries, 2) };
+  }
+
+  async fetchRaw(options: { countries?: string[] }): Promise<FetchResult<OpenAQRecord>> {
+    const countries = options.countries || OpenAQAdapter.DEFAULT_COUNTRIES;
+    const records: OpenAQRecord[] = [];
+    const errors: string[] = [];
 
     for (const country of countries) {
       try {
         // Get latest measurements for the country
         const headers: any = { 'Content-Type': 'application/json' };
-        if (this.API_KEY) headers['X-API-Key'] = this.API_KEY;
-
-        const url = `${this.BASE_URL}/latest?limit=1000&country=${country}&parameter=pm25,pm10,o3,no2,so2,co`;
-        const response = await fetch(url, { headers });
-        const data = await response.json() as any;
-
-        if (!data.results) continue;
-
-        // Group measurements by location
-        const locationGroups = new Map<string, any[]>();
-        
-        for (const measurement of data.results) {
-          if (!measurement.coordinates || !measurement.value) continue;
-          
-          const locationKey = `${measurement.coordinates.latitude.toFixed(4)}-${measurement.coordinates.longitude.toFixed(4)}`;
-          
-          if (!locationGroups.has(locationKey)) {
-            locationGroups.set(locationKey, []);
+        if (OpenAQAdapter.API_KEY) headers['X-API-Key'] = OpenAQAdapter.API_KEY;
+
+        const url = `${OpenAQAdapter.BASE_URL}/latest?limit=1000&country=${encodeURIComponent(country)}&parameter=pm25,pm10,o3,no2,so2,co`;
+        const data = await SourceHttpClient.getJson(this.id, url, {
+          fixture: `latest-${country}.json`,
+          fixtureFallback: 'latest.json',
+          init: { headers }
+        });
+
+        if (data.results) {
+          // Group measurements by location
+          const locationGroups = new Map<string, any[]>();
+
+          for (const measurement of data.results) {
+            if (!measurement.coordinates || !measurement.value) continue;
+
+            const locationKey = `${measurement.coordinates.latitude.toFixed(4)}-${measurement.coordinates.longitude.toFixed(4)}`;
+
+            if (!locationGroups.has(locationKey)) {
+              locationGroups.set(locationKey, []);
+            }
+            locationGroups.get(locationKey)!.push(measurement);
           }
-          locationGroups.get(locationKey)!.push(measurement);
-        }
 
-        // Process each location
-        for (const [locationKey, measurements] of locationGroups) {
-          const primaryMeasurement = measurements[0];
-          const lat = primaryMeasurement.coordinates.latitude;
-          const lng = primaryMeasurement.coordinates.longitude;
-
-          // Calculate AQI and overall air quality
-          const aqiData = this.calculateAQI(measurements);
-          
-          // Only create events for unhealthy air quality (AQI > 100)
-          if (aqiData.aqi <= 100) continue;
-
-          const eventId = `openaq-${country}-${locationKey}-${new Date().toISOString().split('T')[0]}`;
-          
-          const eventData = {
-            _id: eventId,
-            source: 'openaq',
-            type: 'aqi' as const,
-            severity: this.aqiToSeverity(aqiData.aqi),
-            confidence: 0.85,
-            geometry: {
-              type: 'Point' as const,
-              coordinates: [lng, lat]
-            },
-            area_bbox: this.calculateAQIBoundingBox(lng, lat, aqiData.aqi),
-            starts_at: new Date(primaryMeasurement.date.utc),
-            properties: {
-              aqi: aqiData.aqi,
-              aqi_category: aqiData.category,
-              primary_pollutant: aqiData.primaryPollutant,
-              location_name: primaryMeasurement.location,
-              city: primaryMeasurement.city,
-              country: primaryMeasurement.country,
-              measurements: this.processMeasurements(measurements),
-              source_name: primaryMeasurement.sourceName,
-              mobile: primaryMeasurement.mobile || false
-            },
-            ingested_at: new Date()
-          };
-
-          const result = await Event.findOneAndUpdate(
-            { _id: eventId },
-            eventData,
-            { upsert: true, new: true }
-          );
-
-          if (result.ingested_at.getTime() === eventData.ingested_at.getTime()) {
-            totalInserted++;
-          } else {
-            totalUpdated++;
+          for (const [locationKey, measurements] of locationGroups) {
+            records.push({ country, locationKey, measurements });
           }
         }
 
@@ -92,15 +68,52 @@ export class OpenAQService {
         await new Promise(resolve => setTimeout(resolve, 1000));
 
       } catch (error) {
-        console.error(`OpenAQ ingestion failed for ${country}:`, error);
+        console.error(`OpenAQ fetch failed for ${country}:`, error);
+        errors.push(`${country}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
-    console.log(`OpenAQ: Processed ${totalInserted} new AQI events, updated ${totalUpdated}`);
-    return { inserted: totalInserted, updated: totalUpdated };
+    return { records, errors, meta: { countries } };
+  }
+
+  normalize({ country, locationKey, measurements }: OpenAQRecord): NormalizedEvent | null {
+    const primaryMeasurement = measurements[0];
+    const lat = primaryMeasurement.coordinates.latitude;
+    const lng = primaryMeasurement.coordinates.longitude;
+
+    // Calculate AQI and overall air quality
+    const aqiData = this.calculateAQI(measurements);
+
+    // Only create events for unhealthy air quality (AQI > 100)
+    if (aqiData.aqi <= 100) return null;
+
+    return {
+      _id: `openaq-${country}-${locationKey}-${new Date().toISOString().split('T')[0]}`,
+      source: this.id,
+      type: 'aqi',
+      severity: this.aqiToSeverity(aqiData.aqi),
+      confidence: this.defaultConfidence,
+      geometry: {
+        type: 'Point',
+        coordinates: [lng, lat]
+      },
+      area_bbox: this.calculateAQIBoundingBox(lng, lat, aqiData.aqi),
+      starts_at: new Date(primaryMeasurement.date.utc),
+      properties: {
+        aqi: aqiData.aqi,
+        aqi_category: aqiData.category,
+        primary_pollutant: aqiData.primaryPollutant,
+        location_name: primaryMeasurement.location,
+        city: primaryMeasurement.city,
+        country: primaryMeasurement.country,
+        measurements: this.processMeasurements(measurements),
+        source_name: primaryMeasurement.sourceName,
+        mobile: primaryMeasurement.mobile || false
+      }
+    };
   }
 
-  private static calculateAQI(measurements: any[]): { aqi: number; category: string; primaryPollutant: string } {
+  private calculateAQI(measurements: any[]): { aqi: number; category: string; primaryPollutant: string } {
     let maxAQI = 0;
     let primaryPollutant = 'pm25';
 
@@ -149,7 +162,7 @@ export class OpenAQService {
     };
   }
 
-  private static pm25ToAQI(concentration: number, unit: string): number {
+  private pm25ToAQI(concentration: number, unit: string): number {
     // Convert to µg/m³ if needed
     let c = concentration;
     if (unit === 'ppm') c = c * 1000; // Rough conversion
@@ -164,7 +177,7 @@ export class OpenAQService {
     return Math.min(500, this.linearInterpolation(c, 350.5, 500.4, 401, 500));
   }
 
-  private static pm10ToAQI(concentration: number, unit: string): number {
+  private pm10ToAQI(concentration: number, unit: string): number {
     let c = concentration;
     if (unit === 'ppm') c = c * 1000;
 
@@ -177,7 +190,7 @@ export class OpenAQService {
     return Math.min(500, this.linearInterpolation(c, 505, 604, 401, 500));
   }
 
-  private static o3ToAQI(concentration: number, unit: string): number {
+  private o3ToAQI(concentration: number, unit: string): number {
     // Convert to ppm if needed
     let c = concentration;
     if (unit === 'µg/m³') c = c / 1960; // Rough conversion at 25°C
@@ -191,7 +204,7 @@ export class OpenAQService {
     return Math.min(500, 301);
   }
 
-  private static no2ToAQI(concentration: number, unit: string): number {
+  private no2ToAQI(concentration: number, unit: string): number {
     let c = concentration;
     if (unit === 'ppm') c = c * 1880; // Convert ppm to µg/m³
 
@@ -204,7 +217,7 @@ export class OpenAQService {
     return Math.min(500, 301);
   }
 
-  private static so2ToAQI(concentration: number, unit: string): number {
+  private so2ToAQI(concentration: number, unit: string): number {
     let c = concentration;
     if (unit === 'ppm') c = c * 2620; // Convert ppm to µg/m³
 
@@ -216,7 +229,7 @@ export class OpenAQService {
     return Math.min(500, 301);
   }
 
-  private static coToAQI(concentration: number, unit: string): number {
+  private coToAQI(concentration: number, unit: string): number {
     let c = concentration;
     if (unit === 'µg/m³') c = c / 1150; // Convert µg/m³ to ppm
 
@@ -228,11 +241,11 @@ export class OpenAQService {
     return Math.min(500, 301);
   }
 
-  private static linearInterpolation(x: number, x1: number, x2: number, y1: number, y2: number): number {
+  private linearInterpolation(x: number, x1: number, x2: number, y1: number, y2: number): number {
     return ((y2 - y1) / (x2 - x1)) * (x - x1) + y1;
   }
 
-  private static aqiToCategory(aqi: number): string {
+  private aqiToCategory(aqi: number): string {
     if (aqi <= 50) return 'Good';
     if (aqi <= 100) return 'Moderate';
     if (aqi <= 150) return 'Unhealthy for Sensitive Groups';
@@ -241,7 +254,7 @@ export class OpenAQService {
     return 'Hazardous';
   }
 
-  private static aqiToSeverity(aqi: number): number {
+  private aqiToSeverity(aqi: number): number {
     if (aqi <= 50) return 2.0;
     if (aqi <= 100) return 4.0;
     if (aqi <= 150) return 6.0;
@@ -250,7 +263,7 @@ export class OpenAQService {
     return 10.0;
   }
 
-  private static processMeasurements(measurements: any[]): { [key: string]: any } {
+  private processMeasurements(measurements: any[]): { [key: string]: any } {
     const processed: { [key: string]: any } = {};
     
     for (const measurement of measurements) {
@@ -264,7 +277,7 @@ export class OpenAQService {
     return processed;
   }
 
-  private static calculateAQIBoundingBox(lng: number, lat: number, aqi: number): [number, number, number, number] {
+  private calculateAQIBoundingBox(lng: number, lat: number, aqi: number): [number, number, number, number] {
     // Higher AQI = larger affected area
     const radiusKm = Math.max(5, Math.min(50, aqi / 4));
     const radiusDegrees = radiusKm / 111;
@@ -276,4 +289,4 @@ export class OpenAQService {
       lat + radiusDegrees
     ];
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,226 @@
+import { SourceAdapter, FetchResult, NormalizedEvent, SourceOptionsError } from './SourceAdapter';
+import { SourceHttpClient } from '../services/SourceHttpClient';
+import { FixtureStore } from '../services/FixtureStore';
+import { MonitoringLocationService } from '../services/MonitoringLocationService';
+
+export interface WeatherLocation {
+  lat: number;
+  lng: number;
+  name: string;
+}
+
+type OpenWeatherRecord =
+  | { kind: 'alert'; location: WeatherLocation; alert: any }
+  | { kind: 'current'; location: WeatherLocation; current: any; observedAt: number };
+
+export class OpenWeatherAdapter implements SourceAdapter<OpenWeatherRecord> {
+  readonly id = 'openweather';
+  readonly name = 'OpenWeather API';
+  readonly idScheme = 'openweather-{location}-{alert.start}-{alert.event} | openweather-severe-{location}-{timestamp}';
+  readonly defaultConfidence = 0.85;
+  readonly alertType = 'storm' as const;
+  readonly defaultIntervalMinutes = 30;
+  readonly trackedProperties = ['event_name', 'description', 'wind_speed'];
+  readonly includeInBatch = true;
+  readonly optionKeys = ['locations'];
+
+  private static readonly ONECALL_URL = 'https://api.openweathermap.org/data/3.0/onecall';
+  private static readonly API_KEY = process.env.OPENWEATHER_API_KEY;
+  private static readonly MAX_OPTION_LOCATIONS = 20;
+
+  // Names are slugged because they also key fixture files
+  parseOptions(input: Record<string, any>): { locations?: WeatherLocation[] } {
+    if (input.locations === undefined) return {};
+
+    const { locations } = input;
+    if (!Array.isArray(locations) || locations.length === 0 || locations.length > OpenWeatherAdapter.MAX_OPTION_LOCATIONS) {
+      throw new SourceOptionsError(`locations must be an array of 1 to ${OpenWeatherAdapter.MAX_OPTION_LOCATIONS} { lat, lng, name } objects`);
+    }
+
+    return {
+      locations: locations.map(location => {
+        const { lat, lng, name } = location || {};
+        if (typeof lat !== 'number' || typeof lng !== 'number' || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+          throw new SourceOptionsError('locations[].lat and lng must be valid coordinates');
+        }
+
+        const slug = typeof name === 'string' ? MonitoringLocationService.slugify(name) : '';
+        if (!slug) throw new SourceOptionsError('locations[].name must contain letters or digits');
+
+        return { lat, lng, name: slug };
+      })
+    };
+  }
+
+  // Polls the stored monitoring locations unless the caller passes an explicit list
+  async fetchRaw(options: { locations?: WeatherLocation[] }): Promise<FetchResult<OpenWeatherRecord>> {
+    // Replayed fixtures need no credentials
+    if (!OpenWeatherAdapter.API_KEY && FixtureStore.mode !== 'replay') {
+      throw new Error('OpenWeather API key not configured');
+    }
+
+    const locations = options.locations || await MonitoringLocationService.getPollLocations();
+    const records: OpenWeatherRecord[] = [];
+    const errors: string[] = [];
+    const polled: string[] = [];
+    const failed: { name: string; error: string }[] = [];
+
+    for (const location of locations) {
+      try {
+        const url = `${OpenWeatherAdapter.ONECALL_URL}?lat=${location.lat}&lon=${location.lng}&appid=${OpenWeatherAdapter.API_KEY}&exclude=minutely,daily`;
+        const data = await SourceHttpClient.getJson(this.id, url, {
+          fixture: `onecall-${location.name}.json`,
+          fixtureFallback: 'onecall.json'
+        });
+
+        for (const alert of data.alerts || []) {
+          records.push({ kind: 'alert', location, alert });
+        }
+
+        // Severe weather conditions from current weather
+        if (data.current && this.isSevereWeather(data.current)) {
+          records.push({ kind: 'current', location, current: data.current, observedAt: Date.now() });
+        }
+
+        polled.push(location.name);
+
+        // Rate limiting - wait 100ms between requests
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`OpenWeather fetch failed for ${location.name}:`, error);
+        errors.push(`${location.name}: ${message}`);
+        failed.push({ name: location.name, error: message });
+      }
+    }
+
+    if (!options.locations) {
+      await MonitoringLocationService.recordPollResults(polled, failed);
+    }
+
+    return {
+      records,
+      errors,
+      meta: {
+        locations_monitored: locations.length,
+        locations_polled: polled,
+        locations_failed: failed
+      }
+    };
+  }
+
+  normalize(record: OpenWeatherRecord): NormalizedEvent | null {
+    const { location } = record;
+
+    if (record.kind === 'alert') {
+      const { alert } = record;
+      const severity = this.calculateSeverity(alert.event, alert.description);
+
+      return {
+        _id: `openweather-${location.name}-${alert.start}-${alert.event.replace(/\s+/g, '-')}`,
+        source: this.id,
+        type: this.mapAlertType(alert.event),
+        severity: severity,
+        confidence: this.defaultConfidence,
+        geometry: {
+          type: 'Point',
+          coordinates: [location.lng, location.lat]
+        },
+        area_bbox: this.calculateAlertBoundingBox(location.lng, location.lat, severity),
+        starts_at: new Date(alert.start * 1000),
+        ends_at: new Date(alert.end * 1000),
+        properties: {
+          event_name: alert.event,
+          description: alert.description,
+          sender_name: alert.sender_name,
+          tags: alert.tags || [],
+          location_name: location.name
+        }
+      };
+    }
+
+    const { current: currentWeather } = record;
+    const severity = this.calculateWeatherSeverity(currentWeather);
+
+    return {
+      _id: `openweather-severe-${location.name}-${record.observedAt}`,
+      source: this.id,
+      type: 'storm',
+      severity: severity,
+      confidence: 0.80,
+      geometry: {
+        type: 'Point',
+        coordinates: [location.lng, location.lat]
+      },
+      area_bbox: this.calculateAlertBoundingBox(location.lng, location.lat, severity),
+      starts_at: new Date(record.observedAt),
+      properties: {
+        temperature: currentWeather.temp - 273.15, // Convert K to C
+        feels_like: currentWeather.feels_like - 273.15,
+        humidity: currentWeather.humidity,
+        pressure: currentWeather.pressure,
+        wind_speed: currentWeather.wind_speed,
+        wind_deg: currentWeather.wind_deg,
+        weather_main: currentWeather.weather[0].main,
+        weather_description: currentWeather.weather[0].description,
+        location_name: location.name
+      }
+    };
+  }
+
+  private mapAlertType(eventName: string): 'flood' | 'storm' | 'fire' | 'aqi' {
+    const event = eventName.toLowerCase();
+    if (event.includes('flood') || event.includes('rain')) return 'flood';
+    if (event.includes('fire') || event.includes('smoke')) return 'fire';
+    if (event.includes('air') || event.includes('pollution')) return 'aqi';
+    return 'storm';
+  }
+
+  private calculateSeverity(event: string, description: string): number {
+    const text = (event + ' ' + description).toLowerCase();
+
+    if (text.includes('extreme') || text.includes('severe') || text.includes('major')) return 8.0;
+    if (text.includes('moderate') || text.includes('warning')) return 6.0;
+    if (text.includes('minor') || text.includes('watch')) return 4.0;
+    return 5.0;
+  }
+
+  private isSevereWeather(weather: any): boolean {
+    const windSpeed = weather.wind_speed || 0;
+    const temp = weather.temp - 273.15; // Convert to Celsius
+    const humidity = weather.humidity || 0;
+
+    // Severe conditions thresholds
+    return windSpeed > 15 || // > 54 km/h
+           temp > 40 || temp < -10 || // Extreme temperatures
+           humidity > 90; // Very high humidity
+  }
+
+  private calculateWeatherSeverity(weather: any): number {
+    const windSpeed = weather.wind_speed || 0;
+    const temp = weather.temp - 273.15;
+
+    let severity = 3.0;
+
+    if (windSpeed > 25) severity += 2.0; // Hurricane force
+    else if (windSpeed > 15) severity += 1.0; // Strong wind
+
+    if (temp > 45 || temp < -20) severity += 2.0; // Extreme temp
+    else if (temp > 40 || temp < -10) severity += 1.0; // Very hot/cold
+
+    return Math.min(severity, 10.0);
+  }
+
+  private calculateAlertBoundingBox(lng: number, lat: number, severity: number): [number, number, number, number] {
+    const radiusKm = Math.max(5, severity * 10);
+    const radiusDegrees = radiusKm / 111;
+
+    return [
+      lng - radiusDegrees,
+      lat - radiusDegrees,
+      lng + radiusDegrees,
+      lat + radiusDegrees
+    ];
+  }
+}
@@ -0,0 +1,81 @@
+import { IEvent } from '../models/Event';
+
+export type EventType = IEvent['type'];
+
+// Event document as produced by an adapter, before ingestion timestamps are applied
+export interface NormalizedEvent {
+  _id: string;
+  source: string;
+  type: EventType;
+  severity: number;
+  confidence: number;
+  geometry: IEvent['geometry'];
+  area_bbox: [number, number, number, number];
+  starts_at: Date;
+  ends_at?: Date;
+  properties: Record<string, any>;
+}
+
+// Thrown by parseOptions for option values an adapter cannot use
+export class SourceOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceOptionsError';
+  }
+}
+
+export interface FetchResult<TRaw> {
+  records: TRaw[];
+  errors?: string[]; // partial failures, e.g. one country out of four
+  meta?: Record<string, any>; // extra fields echoed in the ingest response
+}
+
+export type BackfillFilter = 'bbox' | 'countries';
+
+// Historical window requested by a backfill job
+export interface BackfillRange {
+  start: Date;
+  end: Date; // exclusive
+  bbox?: [number, number, number, number]; // [minLng, minLat, maxLng, maxLat]
+  countries?: string[]; // ISO 3166-1 alpha-3, for sources that query by country
+}
+
+export interface SourceAdapter<TRaw = any> {
+  id: string; // route segment and Event.source value, e.g. 'usgs'
+  aliases?: string[]; // older route segments kept working, e.g. 'eonet'
+  name: string;
+  idScheme: string; // documents how Event._id is built, e.g. 'usgs-{feature.id}'
+  defaultConfidence: number;
+  alertType?: EventType; // narrows alert processing; undefined means any type
+  defaultIntervalMinutes: number;
+  includeInBatch: boolean;
+  trackedProperties: string[]; // properties whose changes are recorded as event revisions
+
+  fetchRaw(options: Record<string, any>): Promise<FetchResult<TRaw>>;
+
+  // Option keys a manual ingest may pass; anything else is rejected before fetchRaw
+  optionKeys?: string[];
+  parseOptions?(input: Record<string, any>): Record<string, any>;
+
+  // Sources with a historical archive implement this so they can be backfilled
+  fetchRange?(range: BackfillRange): Promise<FetchResult<TRaw>>;
+  maxBackfillWindowDays?: number;
+  backfillFilters?: BackfillFilter[]; // region filters fetchRange applies; others are refused
+
+  // Returns null for records the source deliberately skips (below threshold etc.)
+  normalize(raw: TRaw): NormalizedEvent | null;
+}
+
+// ISO country codes as upper case, e.g. alpha-2 'MY' or alpha-3 'MYS'
+export function parseCountryCodes(value: any, length: 2 | 3, max: number = 20): string[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > max) {
+    throw new SourceOptionsError(`countries must be an array of 1 to ${max} country codes`);
+  }
+
+  return value.map(code => {
+    if (typeof code !== 'string' || !new RegExp(`^[A-Za-z]{${length}}$`).test(code)) {
+      throw new SourceOptionsError(`countries must be ISO 3166-1 alpha-${length} codes, got: ${String(code)}`);
+    }
+    return code.toUpperCase();
+  });
+}
@@ -0,0 +1,36 @@
+import { SourceAdapter } from './SourceAdapter';
+import { USGSAdapter } from './USGSAdapter';
+import { EONETAdapter } from './EONETAdapter';
+import { FIRMSAdapter } from './FIRMSAdapter';
+import { OpenWeatherAdapter } from './OpenWeatherAdapter';
+import { OpenAQAdapter } from './OpenAQAdapter';
+
+// Single list of ingestion sources read by the ingest router, scheduler, metrics and docs
+export class SourceRegistry {
+  private static readonly adapters = new Map<string, SourceAdapter>();
+
+  static register(adapter: SourceAdapter): void {
+    if (this.adapters.has(adapter.id)) {
+      throw new Error(`Source adapter already registered: ${adapter.id}`);
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  static get(id: string): SourceAdapter | undefined {
+    return this.adapters.get(id) || this.all().find(adapter => adapter.aliases?.includes(id));
+  }
+
+  static all(): SourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  static ids(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+SourceRegistry.register(new USGSAdapter());
+SourceRegistry.register(new EONETAdapter());
+SourceRegistry.register(new FIRMSAdapter());
+SourceRegistry.register(new OpenWeatherAdapter());
+SourceRegistry.register(new OpenAQAdapter());
@@ -0,0 +1,122 @@
+import { SourceAdapter, FetchResult, NormalizedEvent, BackfillRange, BackfillFilter } from './SourceAdapter';
+import { SourceHttpClient } from '../services/SourceHttpClient';
+
+export class USGSAdapter implements SourceAdapter {
+  readonly id = 'usgs';
+  readonly name = 'USGS Earthquake Hazards Program';
+  readonly idScheme = 'usgs-{feature.id}';
+  readonly defaultConfidence = 0.95;
+  readonly alertType = 'earthquake' as const;
+  readonly defaultIntervalMinutes = 5;
+  readonly trackedProperties = ['place', 'depth_km', 'mag_type', 'alert', 'tsunami'];
+  readonly includeInBatch = true;
+  readonly maxBackfillWindowDays = 7;
+  readonly backfillFilters: BackfillFilter[] = ['bbox'];
+
+  private static readonly USGS_EARTHQUAKE_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_hour.geojson';
+  private static readonly FDSN_QUERY_URL = 'https://earthquake.usgs.gov/fdsnws/event/1/query';
+  private static readonly FDSN_PAGE_SIZE = 1000;
+  private static readonly MIN_MAGNITUDE = 2.5;
+
+  async fetchRaw(): Promise<FetchResult<any>> {
+    const data = await SourceHttpClient.getJson(this.id, USGSAdapter.USGS_EARTHQUAKE_URL, {
+      fixture: 'all_hour.geojson'
+    });
+
+    return { records: data.features || [] };
+  }
+
+  // Pages through the FDSN event query for one window, oldest first
+  async fetchRange(range: BackfillRange): Promise<FetchResult<any>> {
+    const records: any[] = [];
+    const windowKey = range.start.toISOString().split('T')[0];
+    let offset = 1; // FDSN offsets are 1-based
+    let pages = 0;
+
+    while (true) {
+      const params = new URLSearchParams({
+        format: 'geojson',
+        starttime: range.start.toISOString(),
+        endtime: range.end.toISOString(),
+        minmagnitude: String(USGSAdapter.MIN_MAGNITUDE),
+        orderby: 'time-asc',
+        limit: String(USGSAdapter.FDSN_PAGE_SIZE),
+        offset: String(offset)
+      });
+
+      if (range.bbox) {
+        const [minLng, minLat, maxLng, maxLat] = range.bbox;
+        params.set('minlongitude', String(minLng));
+        params.set('minlatitude', String(minLat));
+        params.set('maxlongitude', String(maxLng));
+        params.set('maxlatitude', String(maxLat));
+      }
+
+      const data = await SourceHttpClient.getJson(this.id, `${USGSAdapter.FDSN_QUERY_URL}?${params}`, {
+        fixture: `fdsn-${windowKey}-${offset}.geojson`,
+        fixtureFallback: 'all_hour.geojson'
+      });
+
+      const features = data.features || [];
+      records.push(...features);
+      pages++;
+
+      if (features.length < USGSAdapter.FDSN_PAGE_SIZE) break;
+      offset += features.length;
+
+      // Rate limiting between pages
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    return { records, meta: { pages } };
+  }
+
+  normalize(feature: any): NormalizedEvent | null {
+    const magnitude = feature.properties.mag;
+
+    // Only process significant earthquakes (magnitude >= 2.5); a null magnitude is left to validation
+    if (magnitude !== null && magnitude !== undefined && magnitude < USGSAdapter.MIN_MAGNITUDE) return null;
+
+    return {
+      _id: `usgs-${feature.id}`,
+      source: this.id,
+      type: 'earthquake',
+      severity: magnitude,
+      confidence: this.defaultConfidence,
+      geometry: {
+        type: 'Point',
+        coordinates: feature.geometry.coordinates.slice(0, 2) // [lng, lat]
+      },
+      area_bbox: this.calculateBoundingBox(
+        feature.geometry.coordinates[0],
+        feature.geometry.coordinates[1],
+        magnitude
+      ),
+      starts_at: new Date(feature.properties.time),
+      properties: {
+        place: feature.properties.place,
+        depth_km: feature.geometry.coordinates[2],
+        mag_type: feature.properties.magType,
+        alert: feature.properties.alert,
+        tsunami: feature.properties.tsunami,
+        url: feature.properties.url,
+        felt_reports: feature.properties.felt,
+        significance: feature.properties.sig
+      }
+    };
+  }
+
+  private calculateBoundingBox(lng: number, lat: number, magnitude: number): [number, number, number, number] {
+    // Calculate affected area based on earthquake magnitude
+    // Rough approximation: each magnitude unit = ~50km radius impact
+    const radiusKm = Math.max(10, magnitude * 50);
+    const radiusDegrees = radiusKm / 111; // Approximate km to degrees conversion
+
+    return [
+      lng - radiusDegrees, // minLng
+      lat - radiusDegrees, // minLat
+      lng + radiusDegrees, // maxLng
+      lat + radiusDegrees  // maxLat
+    ];
+  }
+}
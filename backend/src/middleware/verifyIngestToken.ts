@@ -0,0 +1,10 @@
+import express from 'express';
+
+// Admin endpoints (ingestion, alert logs) share the INGEST_TOKEN bearer token
+export const verifyIngestToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token || token !== process.env.INGEST_TOKEN) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  return next();
+};
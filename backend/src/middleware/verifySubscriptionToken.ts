@@ -0,0 +1,43 @@
+import express from 'express';
+import { Subscription } from '../models/Subscription';
+import { SubscriptionTokenService } from '../services/SubscriptionTokenService';
+
+// Subscription management endpoints need the subscription's own management token
+export const verifySubscriptionToken = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  try {
+    const token = SubscriptionTokenService.fromRequest(req);
+    if (!token) {
+      return res.status(401).json({
+        success: false,
+        error: 'Management token required (Authorization: Bearer <token>)'
+      });
+    }
+
+    const subscription = await Subscription.findById(req.params.subscriptionId).select('+management_token_hash').lean();
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subscription not found'
+      });
+    }
+
+    // Created before management tokens existed; claimed through a verified contact
+    if (!subscription.management_token_hash) {
+      return res.status(403).json({
+        success: false,
+        error: 'Subscription has no management token yet; request one with POST /v1/subscriptions/recover'
+      });
+    }
+
+    if (!SubscriptionTokenService.matches(token, subscription.management_token_hash)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Invalid management token'
+      });
+    }
+
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
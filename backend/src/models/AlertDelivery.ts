@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AlertChannel = 'webpush' | 'email' | 'sms';
+
+// expired: the recipient endpoint no longer exists, e.g. a revoked push subscription
+export type AlertDeliveryStatus = 'queued' | 'sent' | 'failed' | 'expired';
+
+export interface IAlertDelivery extends Document {
+  _id: string;
+  alert_id: string; // shared by every channel of one alert to one subscription
+  kind: 'alert' | 'summary'; // summaries bundle alerts that were held back
+  event_id: string; // for summaries, the most severe event included
+  event_ids?: string[]; // every event in a summary
+  subscription_id: string;
+  channel: AlertChannel;
+  recipient?: string; // email address or phone number; push endpoints are not stored here
+  event_type: string;
+  event_severity: number;
+  distance_km?: number; // subscriber to event, as matched
+  area_name?: string; // the subscription area that matched
+  title: string;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  last_attempt_at?: Date;
+  provider_message_id?: string;
+  provider_status?: string; // latest status reported by the provider, e.g. 'delivered'
+  provider_response?: any;
+  error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const AlertDeliverySchema = new Schema<IAlertDelivery>({
+  _id: { type: String, required: true },
+  alert_id: { type: String, required: true },
+  kind: { type: String, enum: ['alert', 'summary'], default: 'alert' },
+  event_id: { type: String, required: true },
+  event_ids: { type: [String], default: undefined },
+  subscription_id: { type: String, required: true },
+  channel: { type: String, enum: ['webpush', 'email', 'sms'], required: true },
+  recipient: { type: String },
+  event_type: { type: String, required: true },
+  event_severity: { type: Number, required: true },
+  distance_km: { type: Number },
+  area_name: { type: String },
+  title: { type: String, required: true },
+  status: { type: String, enum: ['queued', 'sent', 'failed', 'expired'], default: 'queued' },
+  attempts: { type: Number, default: 0 },
+  last_attempt_at: { type: Date },
+  provider_message_id: { type: String },
+  provider_status: { type: String },
+  provider_response: { type: Schema.Types.Mixed },
+  error: { type: String },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+AlertDeliverySchema.index({ subscription_id: 1, created_at: -1 });
+AlertDeliverySchema.index({ event_id: 1, subscription_id: 1 });
+AlertDeliverySchema.index({ provider_message_id: 1 }, { sparse: true });
+AlertDeliverySchema.index({ status: 1, created_at: -1 });
+
+export const AlertDelivery = mongoose.model<IAlertDelivery>('AlertDelivery', AlertDeliverySchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AlertChannel } from './AlertDelivery';
+
+// dead: retries exhausted, kept for inspection and replay
+export type AlertJobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+// One channel send for one alert. The AlertDelivery with the same delivery_id is the
+// subscriber-facing record; this document only drives scheduling and retries.
+export interface IAlertJob extends Document {
+  _id: string;
+  delivery_id: string;
+  alert_id: string;
+  kind: 'alert' | 'summary';
+  event_id: string;
+  summary_id?: string; // HeldAlert batch rendered into this summary
+  subscription_id: string;
+  channel: AlertChannel;
+  content: {
+    title: string;
+    body: string;
+    action: string;
+  };
+  status: AlertJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date; // not picked up before this time; pushed back after each failure
+  locked_by?: string;
+  locked_until?: Date;
+  last_error?: string;
+  replay_count: number;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+  dead_at?: Date;
+}
+
+const AlertJobSchema = new Schema<IAlertJob>({
+  _id: { type: String, required: true },
+  delivery_id: { type: String, required: true },
+  alert_id: { type: String, required: true },
+  kind: { type: String, enum: ['alert', 'summary'], default: 'alert' },
+  event_id: { type: String, required: true },
+  summary_id: { type: String },
+  subscription_id: { type: String, required: true },
+  channel: { type: String, enum: ['webpush', 'email', 'sms'], required: true },
+  content: {
+    title: { type: String, required: true },
+    body: { type: String, required: true },
+    action: { type: String, required: true }
+  },
+  status: { type: String, enum: ['pending', 'running', 'completed', 'dead'], default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  max_attempts: { type: Number, required: true },
+  run_at: { type: Date, required: true },
+  locked_by: { type: String },
+  locked_until: { type: Date },
+  last_error: { type: String },
+  replay_count: { type: Number, default: 0 },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now },
+  completed_at: { type: Date },
+  dead_at: { type: Date }
+});
+
+AlertJobSchema.index({ channel: 1, status: 1, run_at: 1 });
+AlertJobSchema.index({ status: 1, locked_until: 1 });
+AlertJobSchema.index({ alert_id: 1, channel: 1 }, { unique: true });
+AlertJobSchema.index({ status: 1, dead_at: -1 });
+
+// Finished jobs are only needed while the delivery log is being investigated
+AlertJobSchema.index({ completed_at: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const AlertJob = mongoose.model<IAlertJob>('AlertJob', AlertJobSchema);
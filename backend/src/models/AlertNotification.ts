@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAlertSuppression {
+  reason: string; // e.g. 'already_notified', 'escalation_below_threshold'
+  severity: number;
+  at: Date;
+}
+
+// One document per event and subscription; its _id is the idempotency key for alerting
+export interface IAlertNotification extends Document {
+  _id: string; // `${event_id}:${subscription_id}`
+  event_id: string;
+  subscription_id: string;
+  notified_severity?: number;
+  notified_area_km2?: number;
+  notified_at?: Date;
+  notification_count: number;
+  last_alert_id?: string;
+  // State before the latest claim, restored if that alert is released without being sent
+  previous_notification?: {
+    severity: number;
+    area_km2: number;
+    notified_at: Date;
+    alert_id: string;
+  };
+  suppressed_count: number;
+  last_suppression_reason?: string;
+  suppressions: IAlertSuppression[]; // most recent skips, capped
+  created_at: Date;
+  updated_at: Date;
+}
+
+const AlertNotificationSchema = new Schema<IAlertNotification>({
+  _id: { type: String, required: true },
+  event_id: { type: String, required: true },
+  subscription_id: { type: String, required: true },
+  notified_severity: { type: Number },
+  notified_area_km2: { type: Number },
+  notified_at: { type: Date },
+  notification_count: { type: Number, default: 0 },
+  last_alert_id: { type: String },
+  previous_notification: {
+    _id: false,
+    type: {
+      severity: { type: Number },
+      area_km2: { type: Number },
+      notified_at: { type: Date },
+      alert_id: { type: String }
+    }
+  },
+  suppressed_count: { type: Number, default: 0 },
+  last_suppression_reason: { type: String },
+  suppressions: [{
+    _id: false,
+    reason: { type: String, required: true },
+    severity: { type: Number },
+    at: { type: Date, required: true }
+  }],
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+AlertNotificationSchema.index({ subscription_id: 1, updated_at: -1 });
+AlertNotificationSchema.index({ event_id: 1 });
+
+export const AlertNotification = mongoose.model<IAlertNotification>('AlertNotification', AlertNotificationSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type BackfillStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IBackfillJob extends Document {
+  _id: string;
+  source: string;
+  region: {
+    bbox?: [number, number, number, number]; // [minLng, minLat, maxLng, maxLat]
+    countries?: string[];
+  };
+  start_date: Date;
+  end_date: Date;
+  window_days: number;
+  throttle_ms: number; // pause between windows
+  cursor: Date; // start of the next window to fetch; progress survives restarts
+  status: BackfillStatus;
+  windows_total: number;
+  windows_done: number;
+  inserted: number;
+  changed: number;
+  unchanged: number;
+  quarantined: number;
+  error_messages: string[];
+  locked_by?: string;
+  locked_until?: Date;
+  created_at: Date;
+  started_at?: Date;
+  finished_at?: Date;
+}
+
+const BackfillJobSchema = new Schema<IBackfillJob>({
+  _id: { type: String, required: true },
+  source: { type: String, required: true },
+  region: {
+    bbox: { type: [Number], default: undefined },
+    countries: { type: [String], default: undefined }
+  },
+  start_date: { type: Date, required: true },
+  end_date: { type: Date, required: true },
+  window_days: { type: Number, required: true },
+  throttle_ms: { type: Number, required: true },
+  cursor: { type: Date, required: true },
+  status: { type: String, enum: ['queued', 'running', 'completed', 'failed', 'cancelled'], default: 'queued' },
+  windows_total: { type: Number, required: true },
+  windows_done: { type: Number, default: 0 },
+  inserted: { type: Number, default: 0 },
+  changed: { type: Number, default: 0 },
+  unchanged: { type: Number, default: 0 },
+  quarantined: { type: Number, default: 0 },
+  error_messages: { type: [String], default: [] },
+  locked_by: { type: String },
+  locked_until: { type: Date },
+  created_at: { type: Date, default: Date.now },
+  started_at: { type: Date },
+  finished_at: { type: Date }
+});
+
+BackfillJobSchema.index({ status: 1, created_at: 1 });
+
+export const BackfillJob = mongoose.model<IBackfillJob>('BackfillJob', BackfillJobSchema);
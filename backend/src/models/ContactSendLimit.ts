@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Codes and links sent to one email address or phone number, across all subscriptions.
+// Keyed by a hash of the contact, so the limiter does not keep contact details itself.
+export interface IContactSendLimit extends Document {
+  _id: string; // SHA-256 of the normalized contact
+  sent_at: Date;
+  send_count: number; // sends since window_started_at
+  window_started_at: Date;
+}
+
+const ContactSendLimitSchema = new Schema<IContactSendLimit>({
+  _id: { type: String, required: true },
+  sent_at: { type: Date, required: true },
+  send_count: { type: Number, default: 0 },
+  window_started_at: { type: Date, required: true }
+});
+
+// A window lasts a day; afterwards the counter starts over
+ContactSendLimitSchema.index({ window_started_at: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const ContactSendLimit = mongoose.model<IContactSendLimit>('ContactSendLimit', ContactSendLimitSchema);
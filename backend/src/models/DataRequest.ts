@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DataRequestType = 'export' | 'erasure';
+export type DataSubjectType = 'subscription' | 'email' | 'phone';
+
+// Audit record of a data-subject request. The subject is stored as a SHA-256 hash,
+// so the log does not keep the contact details an erasure removed.
+export interface IDataRequest extends Document {
+  _id: string;
+  type: DataRequestType;
+  requested_by: 'subscriber' | 'admin';
+  subject_type: DataSubjectType;
+  subject_hash: string;
+  status: 'completed' | 'failed';
+  counts: Record<string, number>; // records exported or erased per collection
+  error?: string;
+  created_at: Date;
+}
+
+const DataRequestSchema = new Schema<IDataRequest>({
+  _id: { type: String, required: true },
+  type: { type: String, enum: ['export', 'erasure'], required: true },
+  requested_by: { type: String, enum: ['subscriber', 'admin'], required: true },
+  subject_type: { type: String, enum: ['subscription', 'email', 'phone'], required: true },
+  subject_hash: { type: String, required: true },
+  status: { type: String, enum: ['completed', 'failed'], required: true },
+  counts: { type: Schema.Types.Mixed, default: {} },
+  error: { type: String },
+  created_at: { type: Date, default: Date.now }
+});
+
+DataRequestSchema.index({ created_at: -1 });
+DataRequestSchema.index({ subject_hash: 1, created_at: -1 });
+
+export const DataRequest = mongoose.model<IDataRequest>('DataRequest', DataRequestSchema);
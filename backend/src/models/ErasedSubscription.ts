@@ -0,0 +1,23 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// What remains of an erased subscription: only the fields the subscription statistics
+// group by, with no contact details, location or link back to the original id
+export interface IErasedSubscription extends Document {
+  _id: string;
+  channels: string[];
+  language: string;
+  radius_km?: number;
+  created_at: Date; // when the original subscription was created
+  erased_at: Date;
+}
+
+const ErasedSubscriptionSchema = new Schema<IErasedSubscription>({
+  _id: { type: String, required: true },
+  channels: { type: [String], default: [] },
+  language: { type: String, default: 'en' },
+  radius_km: { type: Number },
+  created_at: { type: Date, required: true },
+  erased_at: { type: Date, default: Date.now }
+});
+
+export const ErasedSubscription = mongoose.model<IErasedSubscription>('ErasedSubscription', ErasedSubscriptionSchema);
@@ -14,7 +14,12 @@ export interface IEvent extends Document {
   starts_at: Date;
   ends_at?: Date;
   properties: Record<string, any>;
-  ingested_at: Date;
+  ingested_at: Date; // first time the event was seen; never overwritten by later upserts
+  updated_at?: Date; // last time the upstream content actually changed
+  last_seen_at?: Date; // last ingestion run that returned the event
+  content_hash?: string;
+  revision: number; // count of recorded EventRevision entries
+  backfill_job_id?: string; // set when the event was first loaded by a historical backfill
 }
 
 const EventSchema = new Schema<IEvent>({
@@ -31,7 +36,12 @@ const EventSchema = new Schema<IEvent>({
   starts_at: { type: Date, required: true },
   ends_at: { type: Date },
   properties: { type: Schema.Types.Mixed, default: {} },
-  ingested_at: { type: Date, default: Date.now }
+  ingested_at: { type: Date, default: Date.now },
+  updated_at: { type: Date },
+  last_seen_at: { type: Date },
+  content_hash: { type: String },
+  revision: { type: Number, default: 0 },
+  backfill_job_id: { type: String }
 });
 
 EventSchema.index({ geometry: '2dsphere' });
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IEventChange {
+  field: string; // e.g. 'severity', 'geometry', 'properties.mag_type'
+  previous: any;
+  current: any;
+}
+
+export interface IEventRevision extends Document {
+  _id: string;
+  event_id: string;
+  source: string;
+  type: string;
+  revision: number;
+  changes: IEventChange[];
+  recorded_at: Date;
+}
+
+const EventRevisionSchema = new Schema<IEventRevision>({
+  _id: { type: String, required: true },
+  event_id: { type: String, required: true },
+  source: { type: String, required: true },
+  type: { type: String, required: true },
+  revision: { type: Number, required: true },
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    previous: { type: Schema.Types.Mixed },
+    current: { type: Schema.Types.Mixed }
+  }],
+  recorded_at: { type: Date, default: Date.now }
+});
+
+EventRevisionSchema.index({ event_id: 1, revision: 1 }, { unique: true });
+EventRevisionSchema.index({ recorded_at: -1 });
+
+export const EventRevision = mongoose.model<IEventRevision>('EventRevision', EventRevisionSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// quiet_hours: held until the subscriber's quiet hours end
+// digest_hourly / digest_daily: collected for the subscriber's next digest
+export type HoldReason = 'quiet_hours' | 'digest_hourly' | 'digest_daily';
+
+// An alert that was due for a subscriber but deferred; released ones are sent together
+// as one summary under summary_id
+export interface IHeldAlert extends Document {
+  _id: string;
+  subscription_id: string;
+  event_id: string;
+  alert_id: string;
+  event_type: string;
+  severity: number;
+  title: string;
+  distance_km?: number; // from the subscriber's location
+  reason: HoldReason;
+  status: 'held' | 'released';
+  release_at: Date;
+  summary_id?: string;
+  held_at: Date;
+  released_at?: Date;
+}
+
+const HeldAlertSchema = new Schema<IHeldAlert>({
+  _id: { type: String, required: true },
+  subscription_id: { type: String, required: true },
+  event_id: { type: String, required: true },
+  alert_id: { type: String, required: true },
+  event_type: { type: String, required: true },
+  severity: { type: Number, required: true },
+  title: { type: String, required: true },
+  distance_km: { type: Number },
+  reason: { type: String, enum: ['quiet_hours', 'digest_hourly', 'digest_daily'], required: true },
+  status: { type: String, enum: ['held', 'released'], default: 'held' },
+  release_at: { type: Date, required: true },
+  summary_id: { type: String },
+  held_at: { type: Date, default: Date.now },
+  released_at: { type: Date }
+});
+
+HeldAlertSchema.index({ status: 1, release_at: 1 });
+HeldAlertSchema.index({ subscription_id: 1, status: 1 });
+HeldAlertSchema.index({ summary_id: 1 }, { sparse: true });
+
+export const HeldAlert = mongoose.model<IHeldAlert>('HeldAlert', HeldAlertSchema);
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIngestionRun extends Document {
+  _id: string;
+  source: string;
+  trigger: 'manual' | 'scheduled' | 'batch';
+  batch_id?: string;
+  status: 'running' | 'success' | 'partial' | 'failed';
+  started_at: Date;
+  ended_at?: Date;
+  duration_ms?: number;
+  inserted: number;
+  changed: number;
+  unchanged: number;
+  error_messages: string[];
+}
+
+const IngestionRunSchema = new Schema<IIngestionRun>({
+  _id: { type: String, required: true },
+  source: { type: String, required: true },
+  trigger: { type: String, enum: ['manual', 'scheduled', 'batch'], required: true },
+  batch_id: { type: String },
+  status: { type: String, enum: ['running', 'success', 'partial', 'failed'], required: true },
+  started_at: { type: Date, required: true },
+  ended_at: { type: Date },
+  duration_ms: { type: Number },
+  inserted: { type: Number, default: 0 },
+  changed: { type: Number, default: 0 },
+  unchanged: { type: Number, default: 0 },
+  error_messages: { type: [String], default: [] }
+});
+
+IngestionRunSchema.index({ source: 1, started_at: -1 });
+IngestionRunSchema.index({ status: 1, started_at: -1 });
+
+export const IngestionRun = mongoose.model<IIngestionRun>('IngestionRun', IngestionRunSchema);
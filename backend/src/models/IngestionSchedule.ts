@@ -0,0 +1,27 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIngestionSchedule extends Document {
+  _id: string; // source id, e.g. 'usgs'
+  interval_minutes: number;
+  locked_by?: string;
+  locked_until?: Date;
+  last_run_at?: Date;
+  last_finished_at?: Date;
+  last_status?: 'success' | 'failed';
+  last_error?: string;
+  next_run_at: Date;
+}
+
+const IngestionScheduleSchema = new Schema<IIngestionSchedule>({
+  _id: { type: String, required: true },
+  interval_minutes: { type: Number, required: true },
+  locked_by: { type: String },
+  locked_until: { type: Date },
+  last_run_at: { type: Date },
+  last_finished_at: { type: Date },
+  last_status: { type: String, enum: ['success', 'failed'] },
+  last_error: { type: String },
+  next_run_at: { type: Date, required: true, default: Date.now }
+});
+
+export const IngestionSchedule = mongoose.model<IIngestionSchedule>('IngestionSchedule', IngestionScheduleSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IMonitoringLocation extends Document {
+  _id: string; // slug used in OpenWeather event ids, e.g. 'kuala-lumpur'
+  label: string;
+  location: {
+    type: 'Point';
+    coordinates: [number, number]; // [lng, lat]
+  };
+  enabled: boolean;
+  origin: 'manual' | 'seed' | 'derived'; // derived locations follow subscription clusters
+  subscriber_count?: number;
+  last_polled_at?: Date;
+  last_status?: 'success' | 'failed';
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const MonitoringLocationSchema = new Schema<IMonitoringLocation>({
+  _id: { type: String, required: true },
+  label: { type: String, required: true },
+  location: {
+    type: { type: String, enum: ['Point'], required: true },
+    coordinates: { type: [Number], required: true }
+  },
+  enabled: { type: Boolean, default: true },
+  origin: { type: String, enum: ['manual', 'seed', 'derived'], default: 'manual' },
+  subscriber_count: { type: Number },
+  last_polled_at: { type: Date },
+  last_status: { type: String, enum: ['success', 'failed'] },
+  last_error: { type: String },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+MonitoringLocationSchema.index({ location: '2dsphere' });
+
+export const MonitoringLocation = mongoose.model<IMonitoringLocation>('MonitoringLocation', MonitoringLocationSchema);
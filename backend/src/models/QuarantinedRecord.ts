@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IQuarantinedRecord extends Document {
+  _id: string;
+  source: string;
+  upstream_key: string; // upstream event id, or a hash of the raw record when it has none
+  event_id?: string;
+  raw: any; // upstream record exactly as the adapter received it, latest occurrence
+  normalized?: Record<string, any>;
+  reasons: string[];
+  status: 'pending' | 'reprocessed' | 'discarded';
+  attempts: number;
+  count: number; // times ingestion rejected this record
+  first_seen: Date;
+  last_seen: Date;
+  resolved_at?: Date;
+}
+
+const QuarantinedRecordSchema = new Schema<IQuarantinedRecord>({
+  _id: { type: String, required: true },
+  source: { type: String, required: true },
+  upstream_key: { type: String, required: true },
+  event_id: { type: String },
+  raw: { type: Schema.Types.Mixed, required: true },
+  normalized: { type: Schema.Types.Mixed },
+  reasons: { type: [String], default: [] },
+  status: { type: String, enum: ['pending', 'reprocessed', 'discarded'], default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  count: { type: Number, default: 1 },
+  first_seen: { type: Date, default: Date.now },
+  last_seen: { type: Date, default: Date.now },
+  resolved_at: { type: Date }
+}, { minimize: false });
+
+QuarantinedRecordSchema.index({ source: 1, upstream_key: 1 }, { unique: true });
+QuarantinedRecordSchema.index({ source: 1, status: 1, last_seen: -1 });
+
+export const QuarantinedRecord = mongoose.model<IQuarantinedRecord>('QuarantinedRecord', QuarantinedRecordSchema);
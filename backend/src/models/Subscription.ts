@@ -1,5 +1,67 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export const HAZARD_TYPES = ['earthquake', 'flood', 'storm', 'fire', 'aqi'] as const;
+export type HazardType = typeof HAZARD_TYPES[number];
+
+// US EPA categories from least to most severe, as set by the OpenAQ adapter
+export const AQI_CATEGORIES = [
+  'Good',
+  'Moderate',
+  'Unhealthy for Sensitive Groups',
+  'Unhealthy',
+  'Very Unhealthy',
+  'Hazardous'
+] as const;
+export type AqiCategory = typeof AQI_CATEGORIES[number];
+
+// A named place the subscriber watches: a point with its own radius, or a drawn area
+export interface SubscriptionArea {
+  name: string;
+  kind: 'point' | 'polygon';
+  geometry: {
+    type: 'Point' | 'Polygon' | 'MultiPolygon';
+    coordinates: any; // GeoJSON coordinates, [lng, lat] order
+  };
+  radius_km?: number; // point areas only
+}
+
+// Double opt-in state of one contact. Code hashes are never returned by the API.
+export interface ContactVerification {
+  status: 'pending' | 'verified';
+  code_hash?: string; // SHA-256 of the emailed link token or the SMS code
+  expires_at?: Date;
+  attempts: number; // wrong codes since the last send
+  sent_at?: Date;
+  send_count: number; // sends since window_started_at, for the resend limit
+  window_started_at?: Date;
+  verified_at?: Date;
+}
+
+// Pending management-token recovery, proven by a code sent to a verified contact
+export interface TokenRecovery {
+  contact: 'email' | 'phone';
+  code_hash?: string; // SHA-256 of the emailed link token or the SMS code
+  expires_at: Date;
+  attempts: number;
+  sent_at: Date;
+}
+
+export const DELIVERY_MODES = ['immediate', 'hourly', 'daily'] as const;
+export type DeliveryMode = typeof DELIVERY_MODES[number];
+
+// Local times as 'HH:MM' in the subscription's timezone; the window may span midnight
+export interface QuietHours {
+  start: string;
+  end: string;
+  override_severity?: number | null; // alerts at or above this still go out immediately
+}
+
+export interface AlertPreferences {
+  hazard_types: HazardType[]; // types the subscriber wants alerts for
+  min_severity: Record<HazardType, number>;
+  aqi_min_category?: AqiCategory | null; // air quality alerts also need at least this category
+}
+
 export interface ISubscription extends Document {
   _id: string;
   email?: string;
@@ -10,17 +72,45 @@ export interface ISubscription extends Document {
       p256dh: string;
       auth: string;
     };
+    expired_at?: Date; // push service answered 404/410; the browser dropped this endpoint
   };
+  // Representative point: the first point area, or the centre of the first polygon.
+  // Subscriptions created before areas existed are matched on location and radius_km.
   location: {
     type: 'Point';
     coordinates: [number, number]; // [lng, lat]
   };
-  radius_km: number;
+  radius_km?: number;
+  areas?: SubscriptionArea[];
   channels: ('webpush' | 'email' | 'sms')[];
+  preferences?: AlertPreferences; // missing on older subscriptions, which get the defaults
+  timezone: string; // IANA name, e.g. 'Asia/Kuala_Lumpur'
+  quiet_hours?: QuietHours | null;
+  delivery_mode: DeliveryMode; // hourly and daily bundle alerts into one digest
+  digest_time: string; // local 'HH:MM' when the daily digest goes out
   language: string;
+  // Contacts without a record were added before double opt-in and count as verified
+  verification?: {
+    email?: ContactVerification;
+    phone?: ContactVerification;
+  };
+  management_token_hash?: string; // SHA-256 of the management token; older subscriptions have none
+  token_issued_at?: Date;
+  recovery?: TokenRecovery;
   created_at: Date;
 }
 
+const ContactVerificationSchema = new Schema({
+  status: { type: String, enum: ['pending', 'verified'], required: true },
+  code_hash: { type: String, select: false },
+  expires_at: { type: Date },
+  attempts: { type: Number, default: 0 },
+  sent_at: { type: Date },
+  send_count: { type: Number, default: 0 },
+  window_started_at: { type: Date },
+  verified_at: { type: Date }
+}, { _id: false });
+
 const SubscriptionSchema = new Schema<ISubscription>({
   _id: { type: String, required: true },
   email: { type: String },
@@ -30,18 +120,73 @@ const SubscriptionSchema = new Schema<ISubscription>({
     keys: {
       p256dh: String,
       auth: String
-    }
+    },
+    expired_at: Date
   },
   location: {
     type: { type: String, enum: ['Point'], required: true },
     coordinates: { type: [Number], required: true }
   },
-  radius_km: { type: Number, required: true, min: 1, max: 100 },
+  radius_km: { type: Number, min: 1, max: 100 },
+  areas: {
+    type: [new Schema({
+      name: { type: String, required: true },
+      kind: { type: String, enum: ['point', 'polygon'], required: true },
+      geometry: {
+        type: { type: String, enum: ['Point', 'Polygon', 'MultiPolygon'], required: true },
+        coordinates: { type: Schema.Types.Mixed, required: true }
+      },
+      radius_km: { type: Number, min: 1, max: 100 }
+    }, { _id: false })],
+    default: undefined
+  },
   channels: [{ type: String, enum: ['webpush', 'email', 'sms'] }],
+  preferences: {
+    hazard_types: { type: [{ type: String, enum: HAZARD_TYPES }], default: undefined },
+    min_severity: {
+      earthquake: { type: Number, min: 0, max: 10 },
+      flood: { type: Number, min: 0, max: 10 },
+      storm: { type: Number, min: 0, max: 10 },
+      fire: { type: Number, min: 0, max: 10 },
+      aqi: { type: Number, min: 0, max: 10 }
+    },
+    aqi_min_category: { type: String, enum: [...AQI_CATEGORIES, null] }
+  },
+  timezone: { type: String, default: 'UTC' },
+  quiet_hours: {
+    type: new Schema({
+      start: { type: String, required: true, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+      end: { type: String, required: true, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+      override_severity: { type: Number, min: 0, max: 10 }
+    }, { _id: false }),
+    default: undefined
+  },
+  delivery_mode: { type: String, enum: DELIVERY_MODES, default: 'immediate' },
+  digest_time: { type: String, default: '08:00', match: /^([01]\d|2[0-3]):[0-5]\d$/ },
   language: { type: String, default: 'en' },
+  verification: {
+    email: { type: ContactVerificationSchema, default: undefined },
+    phone: { type: ContactVerificationSchema, default: undefined }
+  },
+  management_token_hash: { type: String, select: false },
+  token_issued_at: { type: Date },
+  recovery: {
+    type: new Schema({
+      contact: { type: String, enum: ['email', 'phone'], required: true },
+      code_hash: { type: String, select: false },
+      expires_at: { type: Date, required: true },
+      attempts: { type: Number, default: 0 },
+      sent_at: { type: Date, required: true }
+    }, { _id: false }),
+    default: undefined
+  },
   created_at: { type: Date, default: Date.now }
 });
 
 SubscriptionSchema.index({ location: '2dsphere' });
+SubscriptionSchema.index({ 'areas.geometry': '2dsphere' });
+SubscriptionSchema.index({ management_token_hash: 1 }, { sparse: true });
+SubscriptionSchema.index({ email: 1 }, { sparse: true });
+SubscriptionSchema.index({ phone: 1 }, { sparse: true });
 
 export const Subscription = mongoose.model<ISubscription>('Subscription', SubscriptionSchema);
\ No newline at end of file
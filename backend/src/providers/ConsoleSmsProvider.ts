@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SmsProvider, SmsSendResult, SmsStatusUpdate, SmsCallbackRequest, SmsInboundMessage } from './SmsProvider';
+
+// Development provider: prints messages and, with SMS_OUTBOX_FILE set, appends them as JSON lines
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly id = 'console';
+  readonly name = 'Console / file outbox';
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const messageId = `console-${uuidv4()}`;
+    const outboxFile = process.env.SMS_OUTBOX_FILE;
+
+    console.log(`📱 SMS to ${to} (${messageId}):\n${body}`);
+
+    if (outboxFile) {
+      const filePath = path.resolve(outboxFile);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, JSON.stringify({ id: messageId, to, body, sent_at: new Date().toISOString() }) + '\n', 'utf8');
+    }
+
+    return { messageId, status: 'delivered' };
+  }
+
+  parseStatusCallback(): SmsStatusUpdate | null {
+    return null;
+  }
+
+  // Simulated replies for local testing: from and text as form fields or query parameters.
+  // Anyone could send these, so they are refused in production unless they carry
+  // SMS_CONSOLE_INBOUND_SECRET (X-Console-Secret header or secret parameter).
+  parseInboundMessage(request: SmsCallbackRequest): SmsInboundMessage | null {
+    if (!this.isInboundAllowed(request)) return null;
+
+    const from = request.body.from ?? request.query.from;
+    const text = request.body.text ?? request.query.text;
+    if (!from || typeof text !== 'string') return null;
+
+    return { from: String(from), text };
+  }
+
+  private isInboundAllowed(request: SmsCallbackRequest): boolean {
+    const secret = process.env.SMS_CONSOLE_INBOUND_SECRET;
+    if (!secret) return process.env.NODE_ENV !== 'production';
+
+    const presented = request.headers['x-console-secret'] ?? request.body.secret ?? request.query.secret;
+    if (typeof presented !== 'string') return false;
+
+    const a = Buffer.from(presented);
+    const b = Buffer.from(secret);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
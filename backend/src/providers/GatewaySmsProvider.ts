@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import { v4 as uuidv4 } from 'uuid';
+import { SmsProvider, SmsSendOptions, SmsSendResult, SmsStatusUpdate, SmsCallbackRequest, SmsInboundMessage } from './SmsProvider';
+
+// HTTP front-end of an SMPP gateway using the Kannel sendsms conventions
+// (username/password/from/to/text, dlr-mask and dlr-url with %d for the DLR code).
+// Most carrier SMPP bridges and self-hosted gateways accept this interface.
+export class GatewaySmsProvider implements SmsProvider {
+  readonly id = 'gateway';
+  readonly name = 'SMPP gateway (HTTP)';
+
+  // DLR codes: 1 delivered, 2 failed, 4 buffered, 8 submitted to SMSC, 16 rejected by SMSC
+  private static readonly DLR_MASK = '31';
+
+  async send(to: string, body: string, options: SmsSendOptions): Promise<SmsSendResult> {
+    const gatewayUrl = process.env.SMS_GATEWAY_URL;
+    if (!gatewayUrl) {
+      throw new Error('SMS gateway not configured (SMS_GATEWAY_URL)');
+    }
+
+    // The gateway does not return an id, so we send our own reference with the DLR URL
+    const messageId = `gw-${uuidv4()}`;
+
+    const params = new URLSearchParams({
+      username: process.env.SMS_GATEWAY_USERNAME || '',
+      password: process.env.SMS_GATEWAY_PASSWORD || '',
+      from: process.env.SMS_GATEWAY_SENDER || 'EcoGuard',
+      to,
+      text: body,
+      charset: 'UTF-8',
+      coding: /^[\x20-\x7E\n]*$/.test(body) ? '0' : '2' // 2 = UCS-2 for non-ASCII text
+    });
+
+    if (options.statusCallbackUrl) {
+      const secret = process.env.SMS_GATEWAY_CALLBACK_SECRET;
+      params.set('dlr-mask', GatewaySmsProvider.DLR_MASK);
+      params.set('dlr-url', `${options.statusCallbackUrl}?ref=${messageId}&dlr=%d&reply=%A${secret ? `&secret=${encodeURIComponent(secret)}` : ''}`);
+    }
+
+    const response = await fetch(`${gatewayUrl}?${params}`, { method: 'GET' });
+    const text = (await response.text()).trim();
+
+    // Kannel answers "0: Accepted for delivery" or "3: Queued for later delivery"
+    if (!response.ok || !/^[03]:/.test(text)) {
+      throw new Error(`SMS gateway rejected message (HTTP ${response.status}): ${text}`);
+    }
+
+    return { messageId, status: 'accepted', response: { reply: text } };
+  }
+
+  // Callbacks carry SMS_GATEWAY_CALLBACK_SECRET; without one configured they are all refused
+  parseStatusCallback(request: SmsCallbackRequest): SmsStatusUpdate | null {
+    if (!this.isValidSecret(request.query.secret)) return null;
+
+    const { ref, dlr, reply } = request.query;
+    if (!ref || !dlr) return null;
+
+    const code = Number(dlr);
+    let status: SmsStatusUpdate['status'] = 'sent';
+    if (code === 1) status = 'delivered';
+    else if (code === 2 || code === 16) status = 'failed';
+
+    return {
+      messageId: String(ref),
+      status,
+      providerStatus: String(dlr),
+      error: status === 'failed' ? `Gateway DLR ${dlr}${reply ? `: ${reply}` : ''}` : undefined
+    };
+  }
+
+  // Kannel sms-service get-url, e.g. <url>?from=%p&text=%a&secret=<secret>
+  parseInboundMessage(request: SmsCallbackRequest): SmsInboundMessage | null {
+    if (!this.isValidSecret(request.query.secret)) return null;
+
+    const { from, text } = request.query;
+    if (!from || typeof text !== 'string') return null;
+
+    return { from: String(from), text };
+  }
+
+  private isValidSecret(presented: any): boolean {
+    const secret = process.env.SMS_GATEWAY_CALLBACK_SECRET;
+    if (!secret || typeof presented !== 'string') return false;
+
+    const a = Buffer.from(presented);
+    const b = Buffer.from(secret);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,43 @@
+export interface SmsSendOptions {
+  statusCallbackUrl?: string; // where the provider should report delivery status, if it supports it
+}
+
+export interface SmsSendResult {
+  messageId: string; // provider id used to match later status callbacks
+  status: string; // provider status at submission, e.g. 'queued' or 'accepted'
+  response?: any;
+}
+
+// Delivery report normalized from a provider callback
+export interface SmsStatusUpdate {
+  messageId: string;
+  status: 'sent' | 'delivered' | 'failed';
+  providerStatus: string; // raw provider status, e.g. 'undelivered' or DLR code '16'
+  error?: string;
+}
+
+// Message a subscriber sent to our number, e.g. 'STOP'
+export interface SmsInboundMessage {
+  from: string;
+  text: string;
+}
+
+export interface SmsProvider {
+  id: string; // SMS_PROVIDER value and callback route segment
+  name: string;
+
+  send(to: string, body: string, options: SmsSendOptions): Promise<SmsSendResult>;
+
+  // Returns null for callbacks that fail verification or carry no status
+  parseStatusCallback(request: SmsCallbackRequest): SmsStatusUpdate | null;
+
+  // Returns null for inbound webhooks that fail verification or carry no message
+  parseInboundMessage(request: SmsCallbackRequest): SmsInboundMessage | null;
+}
+
+export interface SmsCallbackRequest {
+  url: string; // full public URL the provider called
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+  body: Record<string, any>;
+}
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import { SmsProvider, SmsSendOptions, SmsSendResult, SmsStatusUpdate, SmsCallbackRequest, SmsInboundMessage } from './SmsProvider';
+
+// Twilio Programmable Messaging over its REST API
+export class TwilioSmsProvider implements SmsProvider {
+  readonly id = 'twilio';
+  readonly name = 'Twilio';
+
+  private static readonly API_URL = 'https://api.twilio.com/2010-04-01';
+
+  async send(to: string, body: string, options: SmsSendOptions): Promise<SmsSendResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_PHONE_NUMBER;
+
+    if (!accountSid || !authToken || !from) {
+      throw new Error('Twilio not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER)');
+    }
+
+    const form = new URLSearchParams({ To: to, From: from, Body: body });
+    if (options.statusCallbackUrl) {
+      form.set('StatusCallback', options.statusCallbackUrl);
+    }
+
+    const response = await fetch(`${TwilioSmsProvider.API_URL}/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: form.toString()
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(`Twilio responded with HTTP ${response.status}: ${data.message || 'unknown error'} (code ${data.code ?? 'n/a'})`);
+    }
+
+    return {
+      messageId: data.sid,
+      status: data.status,
+      response: { sid: data.sid, status: data.status, num_segments: data.num_segments }
+    };
+  }
+
+  // Verifies X-Twilio-Signature before trusting the reported status
+  parseStatusCallback(request: SmsCallbackRequest): SmsStatusUpdate | null {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const signature = request.headers['x-twilio-signature'];
+
+    if (!authToken || typeof signature !== 'string' || !this.isValidSignature(authToken, request.url, request.body, signature)) {
+      return null;
+    }
+
+    const { MessageSid, MessageStatus, ErrorCode } = request.body;
+    if (!MessageSid || !MessageStatus) return null;
+
+    let status: SmsStatusUpdate['status'] = 'sent';
+    if (MessageStatus === 'delivered') status = 'delivered';
+    else if (MessageStatus === 'failed' || MessageStatus === 'undelivered') status = 'failed';
+
+    return {
+      messageId: MessageSid,
+      status,
+      providerStatus: MessageStatus,
+      error: ErrorCode ? `Twilio error ${ErrorCode}` : undefined
+    };
+  }
+
+  // Incoming message webhook configured on the Twilio number; signed like status callbacks
+  parseInboundMessage(request: SmsCallbackRequest): SmsInboundMessage | null {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const signature = request.headers['x-twilio-signature'];
+
+    if (!authToken || typeof signature !== 'string' || !this.isValidSignature(authToken, request.url, request.body, signature)) {
+      return null;
+    }
+
+    const { From, Body } = request.body;
+    if (!From || typeof Body !== 'string') return null;
+
+    return { from: From, text: Body };
+  }
+
+  // HMAC-SHA1 over the URL followed by each POST parameter name and value in sorted order
+  private isValidSignature(authToken: string, url: string, params: Record<string, any>, signature: string): boolean {
+    const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+    const expected = crypto.createHmac('sha1', authToken).update(Buffer.from(data, 'utf-8')).digest('base64');
+
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,303 @@
+import express from 'express';
+import { AlertDelivery } from '../models/AlertDelivery';
+import { AlertNotification } from '../models/AlertNotification';
+import { AlertJob } from '../models/AlertJob';
+import { AlertQueueService, DeadLetterFilter } from '../services/AlertQueueService';
+import { verifyIngestToken } from '../middleware/verifyIngestToken';
+
+const router = express.Router();
+
+router.use(verifyIngestToken);
+
+// Delivery log for support staff: every channel attempt with the provider's response
+router.get('/', async (req, res) => {
+  try {
+    const {
+      subscription_id,
+      event_id,
+      alert_id,
+      channel,
+      status,
+      recipient,
+      since,
+      until,
+      limit = 50,
+      offset = 0
+    } = req.query;
+
+    const query: any = {};
+
+    if (subscription_id) query.subscription_id = subscription_id;
+    if (event_id) query.event_id = event_id;
+    if (alert_id) query.alert_id = alert_id;
+    if (recipient) query.recipient = recipient;
+
+    if (channel) {
+      query.channel = { $in: (channel as string).split(',') };
+    }
+
+    if (status) {
+      query.status = { $in: (status as string).split(',') };
+    }
+
+    if (since || until) {
+      query.created_at = {};
+      if (since) query.created_at.$gte = new Date(since as string);
+      if (until) query.created_at.$lte = new Date(until as string);
+    }
+
+    const [deliveries, total, byStatus] = await Promise.all([
+      AlertDelivery.find(query)
+        .sort({ created_at: -1 })
+        .limit(Number(limit))
+        .skip(Number(offset))
+        .lean(),
+      AlertDelivery.countDocuments(query),
+      AlertDelivery.aggregate([
+        { $match: query },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    res.json({
+      success: true,
+      alerts: deliveries.map(delivery => ({
+        id: delivery._id,
+        alert_id: delivery.alert_id,
+        kind: delivery.kind || 'alert',
+        event_id: delivery.event_id,
+        event_ids: delivery.event_ids || [delivery.event_id],
+        subscription_id: delivery.subscription_id,
+        event_type: delivery.event_type,
+        severity: delivery.event_severity,
+        distance_km: delivery.distance_km ?? null,
+        area_name: delivery.area_name || null,
+        title: delivery.title,
+        channel: delivery.channel,
+        recipient: delivery.recipient || null,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        provider_message_id: delivery.provider_message_id || null,
+        provider_status: delivery.provider_status || null,
+        provider_response: delivery.provider_response ?? null,
+        error: delivery.error || null,
+        created_at: delivery.created_at,
+        last_attempt_at: delivery.last_attempt_at || null,
+        updated_at: delivery.updated_at
+      })),
+      by_status: Object.fromEntries(byStatus.map(s => [s._id, s.count])),
+      pagination: {
+        total,
+        limit: Number(limit),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Alert delivery query error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert deliveries'
+    });
+  }
+});
+
+// Per event and subscription ledger: what was notified and why repeat alerts were skipped
+router.get('/notifications', async (req, res) => {
+  try {
+    const { event_id, subscription_id, suppression_reason, limit = 50, offset = 0 } = req.query;
+
+    if (!event_id && !subscription_id) {
+      return res.status(400).json({
+        success: false,
+        error: 'event_id or subscription_id is required'
+      });
+    }
+
+    const query: any = {};
+    if (event_id) query.event_id = event_id;
+    if (subscription_id) query.subscription_id = subscription_id;
+    if (suppression_reason) query['suppressions.reason'] = suppression_reason;
+
+    const [notifications, total] = await Promise.all([
+      AlertNotification.find(query)
+        .sort({ updated_at: -1 })
+        .limit(Number(limit))
+        .skip(Number(offset))
+        .lean(),
+      AlertNotification.countDocuments(query)
+    ]);
+
+    return res.json({
+      success: true,
+      notifications: notifications.map(notification => ({
+        event_id: notification.event_id,
+        subscription_id: notification.subscription_id,
+        notification_count: notification.notification_count,
+        notified_severity: notification.notified_severity ?? null,
+        notified_area_km2: notification.notified_area_km2 ?? null,
+        notified_at: notification.notified_at || null,
+        last_alert_id: notification.last_alert_id || null,
+        suppressed_count: notification.suppressed_count,
+        last_suppression_reason: notification.last_suppression_reason || null,
+        suppressions: notification.suppressions,
+        updated_at: notification.updated_at
+      })),
+      pagination: {
+        total,
+        limit: Number(limit),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Alert notification query error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert notifications'
+    });
+  }
+});
+
+// Job counts per channel and status, plus this instance's worker usage
+router.get('/queue', async (req, res) => {
+  try {
+    const stats = await AlertQueueService.getStats();
+
+    return res.json({
+      success: true,
+      queue: stats
+    });
+
+  } catch (error) {
+    console.error('Alert queue stats error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert queue stats'
+    });
+  }
+});
+
+// Alert jobs that exhausted their retries
+router.get('/dead-letters', async (req, res) => {
+  try {
+    const { limit = 50, offset = 0 } = req.query;
+    const filter = parseDeadLetterFilter(req.query);
+
+    if (filter.since && isNaN(filter.since.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'since must be a valid date'
+      });
+    }
+
+    const query = AlertQueueService.buildDeadLetterQuery(filter);
+
+    const [jobs, total] = await Promise.all([
+      AlertJob.find(query)
+        .sort({ dead_at: -1 })
+        .limit(Number(limit))
+        .skip(Number(offset))
+        .lean(),
+      AlertJob.countDocuments(query)
+    ]);
+
+    return res.json({
+      success: true,
+      dead_letters: jobs.map(job => ({
+        id: job._id,
+        delivery_id: job.delivery_id,
+        alert_id: job.alert_id,
+        event_id: job.event_id,
+        subscription_id: job.subscription_id,
+        channel: job.channel,
+        title: job.content.title,
+        attempts: job.attempts,
+        replay_count: job.replay_count,
+        last_error: job.last_error || null,
+        created_at: job.created_at,
+        dead_at: job.dead_at
+      })),
+      pagination: {
+        total,
+        limit: Number(limit),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Dead letter query error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch dead-lettered alerts'
+    });
+  }
+});
+
+// Requeue every dead-lettered job matching the body filters, e.g. after an SMTP outage
+router.post('/dead-letters/replay', async (req, res) => {
+  try {
+    const filter = parseDeadLetterFilter(req.body || {});
+
+    if (filter.since && isNaN(filter.since.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'since must be a valid date'
+      });
+    }
+
+    const replayed = await AlertQueueService.replay(filter);
+
+    return res.json({
+      success: true,
+      replayed
+    });
+
+  } catch (error) {
+    console.error('Dead letter replay error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to replay dead-lettered alerts'
+    });
+  }
+});
+
+router.post('/dead-letters/:jobId/replay', async (req, res) => {
+  try {
+    const replayed = await AlertQueueService.replay({ job_id: req.params.jobId });
+
+    if (replayed === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Dead-lettered alert job not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Alert job requeued',
+      job_id: req.params.jobId
+    });
+
+  } catch (error) {
+    console.error('Dead letter replay error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to replay alert job'
+    });
+  }
+});
+
+function parseDeadLetterFilter(source: any): DeadLetterFilter {
+  return {
+    channel: source.channel ? String(source.channel) : undefined,
+    event_id: source.event_id ? String(source.event_id) : undefined,
+    subscription_id: source.subscription_id ? String(source.subscription_id) : undefined,
+    since: source.since ? new Date(source.since) : undefined
+  };
+}
+
+export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
 import { Event } from '../models/Event';
+import { EventRevision } from '../models/EventRevision';
 import { AlertService } from '../services/AlertService';
 
 const router = express.Router();
@@ -151,6 +152,48 @@ router.get('/:eventId', async (req, res) => {
   }
 });
 
+// Get revision history for an event
+router.get('/:eventId/history', async (req, res) => {
+  try {
+    const { eventId } = req.params;
+
+    const event = await Event.findById(eventId).lean();
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    const revisions = await EventRevision.find({ event_id: eventId })
+      .sort({ revision: 1 })
+      .lean();
+
+    return res.json({
+      success: true,
+      event_id: event._id,
+      source: event.source,
+      current_revision: event.revision || 0,
+      first_seen_at: event.ingested_at,
+      last_changed_at: event.updated_at || null,
+      revisions: revisions.map(revision => ({
+        revision: revision.revision,
+        source: revision.source,
+        recorded_at: revision.recorded_at,
+        changes: revision.changes
+      }))
+    });
+
+  } catch (error) {
+    console.error('Event history fetch error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch event history'
+    });
+  }
+});
+
 // Get events near a location
 router.get('/near/:lat/:lng', async (req, res) => {
   try {
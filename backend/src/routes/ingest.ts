@@ -1,246 +1,755 @@
 import express from 'express';
-import { USGSService } from '../services/USGSService';
-import { OpenWeatherService } from '../services/OpenWeatherService';
-import { NASAService } from '../services/NASAService';
-import { OpenAQService } from '../services/OpenAQService';
 import { AlertService } from '../services/AlertService';
+import { IngestionService } from '../services/IngestionService';
+import { IngestionScheduler } from '../services/IngestionScheduler';
+import { IngestionRunService } from '../services/IngestionRunService';
+import { SourceHttpClient } from '../services/SourceHttpClient';
+import { BackfillService, BackfillValidationError } from '../services/BackfillService';
+import { BackfillJob } from '../models/BackfillJob';
+import { MonitoringLocation } from '../models/MonitoringLocation';
+import { MonitoringLocationService } from '../services/MonitoringLocationService';
+import { IngestionRun } from '../models/IngestionRun';
+import { QuarantinedRecord } from '../models/QuarantinedRecord';
+import { SourceRegistry } from '../adapters/SourceRegistry';
+import { SourceOptionsError } from '../adapters/SourceAdapter';
+import { verifyIngestToken } from '../middleware/verifyIngestToken';
+import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 
-// Middleware to verify ingestion token
-const verifyIngestToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-  const token = req.headers.authorization?.replace('Bearer ', '');
-  if (!token || token !== process.env.INGEST_TOKEN) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  next();
-};
-
 router.use(verifyIngestToken);
 
-// USGS Earthquake Data Ingestion
-router.post('/usgs', async (req, res) => {
+// Batch ingestion endpoint
+router.post('/all', async (req, res) => {
+  const results: any[] = [];
+  const startTime = Date.now();
+  const batchId = uuidv4();
+  const adapters = SourceRegistry.all().filter(adapter => adapter.includeInBatch);
+
   try {
-    const startTime = Date.now();
-    const result = await USGSService.ingestEarthquakes();
-    const duration = Date.now() - startTime;
+    // Run all ingestions in parallel for speed
+    const settled = await Promise.allSettled(adapters.map(adapter =>
+      IngestionRunService.track(adapter.id, 'batch', () => IngestionService.ingest(adapter), batchId)
+    ));
 
-    // Trigger alert processing for new events
-    if (result.inserted > 0) {
-      AlertService.processNewEvents('earthquake').catch(console.error);
+    settled.forEach((outcome, index) => {
+      const source = adapters[index].id;
+      if (outcome.status === 'fulfilled') {
+        const { meta, ...result } = outcome.value;
+        results.push({ source, success: true, ...meta, ...result });
+      } else {
+        results.push({ source, success: false, error: outcome.reason?.message });
+      }
+    });
+
+    // Trigger alert processing for any new events
+    const totalInserted = results.reduce((sum, r) => sum + (r.inserted || 0), 0);
+    if (totalInserted > 0) {
+      AlertService.processNewEvents().catch(console.error);
     }
 
+    const duration = Date.now() - startTime;
+
     res.json({
       success: true,
-      source: 'usgs',
-      ...result,
+      batch_ingestion: true,
+      batch_id: batchId,
+      total_sources: results.length,
+      total_inserted: totalInserted,
+      total_changed: results.reduce((sum, r) => sum + (r.changed || 0), 0),
+      total_unchanged: results.reduce((sum, r) => sum + (r.unchanged || 0), 0),
       duration_ms: duration,
+      results: results,
       timestamp: new Date().toISOString()
     });
+
   } catch (error) {
-    console.error('USGS ingestion error:', error);
+    console.error('Batch ingestion error:', error);
     res.status(500).json({
       success: false,
-      source: 'usgs',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      batch_ingestion: true,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      partial_results: results
     });
   }
 });
 
-// NASA EONET Events Ingestion
-router.post('/eonet', async (req, res) => {
+// Queue a historical backfill; the job runs in the background window by window
+router.post('/backfill', async (req, res) => {
   try {
-    const startTime = Date.now();
-    const result = await NASAService.ingestEONETEvents();
-    const duration = Date.now() - startTime;
+    const job = await BackfillService.createJob(req.body || {});
 
-    if (result.inserted > 0) {
-      AlertService.processNewEvents().catch(console.error);
+    return res.status(202).json({
+      success: true,
+      message: 'Backfill job queued',
+      job: BackfillService.getProgress(job)
+    });
+  } catch (error) {
+    if (error instanceof BackfillValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Backfill create error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to queue backfill job'
+    });
+  }
+});
+
+router.get('/backfill', async (req, res) => {
+  try {
+    const { source, status, limit = 20, offset = 0 } = req.query;
+
+    const query: any = {};
+
+    if (source) {
+      query.source = { $in: (source as string).split(',') };
     }
 
+    if (status) {
+      query.status = { $in: (status as string).split(',') };
+    }
+
+    const jobs = await BackfillJob.find(query)
+      .sort({ created_at: -1 })
+      .limit(Number(limit))
+      .skip(Number(offset));
+
+    const total = await BackfillJob.countDocuments(query);
+
     res.json({
       success: true,
-      source: 'nasa-eonet',
-      ...result,
-      duration_ms: duration,
-      timestamp: new Date().toISOString()
+      supported_sources: BackfillService.supportedSources().map(adapter => adapter.id),
+      jobs: jobs.map(job => BackfillService.getProgress(job)),
+      pagination: {
+        total,
+        limit: Number(limit),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
     });
+
   } catch (error) {
-    console.error('NASA EONET ingestion error:', error);
+    console.error('Backfill query error:', error);
     res.status(500).json({
       success: false,
-      source: 'nasa-eonet',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: 'Failed to fetch backfill jobs'
     });
   }
 });
 
-// NASA FIRMS Fire Data Ingestion
-router.post('/firms', async (req, res) => {
+router.get('/backfill/:jobId', async (req, res) => {
   try {
-    const startTime = Date.now();
-    const countryCodes = req.body.countries || ['MYS', 'SGP', 'IDN', 'THA'];
-    const result = await NASAService.ingestFIRMSData(countryCodes);
-    const duration = Date.now() - startTime;
+    const job = await BackfillJob.findById(req.params.jobId);
 
-    if (result.inserted > 0) {
-      AlertService.processNewEvents('fire').catch(console.error);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Backfill job not found'
+      });
     }
 
-    res.json({
+    return res.json({
       success: true,
-      source: 'nasa-firms',
-      countries: countryCodes,
-      ...result,
-      duration_ms: duration,
-      timestamp: new Date().toISOString()
+      job: BackfillService.getProgress(job)
     });
+
   } catch (error) {
-    console.error('NASA FIRMS ingestion error:', error);
-    res.status(500).json({
+    console.error('Backfill fetch error:', error);
+    return res.status(500).json({
       success: false,
-      source: 'nasa-firms',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: 'Failed to fetch backfill job'
     });
   }
 });
 
-// OpenWeather Alerts Ingestion
-router.post('/openweather', async (req, res) => {
+router.post('/backfill/:jobId/cancel', async (req, res) => {
   try {
-    const startTime = Date.now();
-    const locations = OpenWeatherService.getMonitoringLocations();
-    const result = await OpenWeatherService.ingestWeatherAlerts(locations);
-    const duration = Date.now() - startTime;
+    const job = await BackfillService.cancel(req.params.jobId);
 
-    if (result.inserted > 0) {
-      AlertService.processNewEvents('storm').catch(console.error);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'No queued or running backfill job with that id'
+      });
     }
 
+    return res.json({
+      success: true,
+      message: 'Backfill job cancelled; the current window finishes before it stops',
+      job: BackfillService.getProgress(job)
+    });
+
+  } catch (error) {
+    console.error('Backfill cancel error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to cancel backfill job'
+    });
+  }
+});
+
+router.post('/backfill/:jobId/resume', async (req, res) => {
+  try {
+    const job = await BackfillService.resume(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'No failed or cancelled backfill job with that id'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Backfill job requeued from its last completed window',
+      job: BackfillService.getProgress(job)
+    });
+
+  } catch (error) {
+    console.error('Backfill resume error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to resume backfill job'
+    });
+  }
+});
+
+// Locations polled by OpenWeather ingestion
+router.get('/locations', async (req, res) => {
+  try {
+    await MonitoringLocationService.ensureSeeded();
+
+    const { origin, enabled } = req.query;
+    const query: any = {};
+
+    if (origin) {
+      query.origin = { $in: (origin as string).split(',') };
+    }
+
+    if (enabled !== undefined) {
+      query.enabled = enabled === 'true';
+    }
+
+    const locations = await MonitoringLocation.find(query).sort({ origin: 1, _id: 1 }).lean();
+
     res.json({
       success: true,
-      source: 'openweather',
-      locations_monitored: locations.length,
-      ...result,
-      duration_ms: duration,
-      timestamp: new Date().toISOString()
+      count: locations.length,
+      locations: locations.map(location => ({
+        id: location._id,
+        label: location.label,
+        lat: location.location.coordinates[1],
+        lng: location.location.coordinates[0],
+        enabled: location.enabled,
+        origin: location.origin,
+        subscriber_count: location.subscriber_count ?? null,
+        last_polled_at: location.last_polled_at || null,
+        last_status: location.last_status || null,
+        last_error: location.last_error || null
+      }))
     });
+
   } catch (error) {
-    console.error('OpenWeather ingestion error:', error);
+    console.error('Monitoring locations query error:', error);
     res.status(500).json({
       success: false,
-      source: 'openweather',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: 'Failed to fetch monitoring locations'
+    });
+  }
+});
+
+router.post('/locations', async (req, res) => {
+  try {
+    const { label, id, lat, lng, enabled = true } = req.body || {};
+
+    if (!label || typeof label !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'label is required'
+      });
+    }
+
+    if (typeof lat !== 'number' || typeof lng !== 'number' || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      return res.status(400).json({
+        success: false,
+        error: 'lat and lng must be valid coordinates'
+      });
+    }
+
+    const locationId = MonitoringLocationService.slugify(id || label);
+    if (!locationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'id must contain letters or digits'
+      });
+    }
+
+    await MonitoringLocationService.ensureSeeded();
+
+    if (await MonitoringLocation.exists({ _id: locationId })) {
+      return res.status(409).json({
+        success: false,
+        error: `Monitoring location already exists: ${locationId}`
+      });
+    }
+
+    const location = await MonitoringLocation.create({
+      _id: locationId,
+      label,
+      location: { type: 'Point', coordinates: [lng, lat] },
+      enabled: !!enabled,
+      origin: 'manual'
+    });
+
+    return res.status(201).json({
+      success: true,
+      location_id: location._id,
+      message: 'Monitoring location created'
+    });
+
+  } catch (error) {
+    console.error('Monitoring location create error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create monitoring location'
+    });
+  }
+});
+
+// Regroup subscriptions into derived locations on demand
+router.post('/locations/derive', async (req, res) => {
+  try {
+    await MonitoringLocationService.ensureSeeded();
+    const result = await MonitoringLocationService.deriveFromSubscriptions();
+
+    return res.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Monitoring location derive error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to derive monitoring locations'
+    });
+  }
+});
+
+router.put('/locations/:locationId', async (req, res) => {
+  try {
+    const { label, lat, lng, enabled } = req.body || {};
+    const updates: any = { updated_at: new Date() };
+
+    if (label !== undefined) {
+      if (!label || typeof label !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'label must be a non-empty string'
+        });
+      }
+      updates.label = label;
+    }
+
+    if (lat !== undefined || lng !== undefined) {
+      if (typeof lat !== 'number' || typeof lng !== 'number' || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+        return res.status(400).json({
+          success: false,
+          error: 'lat and lng must be provided together as valid coordinates'
+        });
+      }
+      updates.location = { type: 'Point', coordinates: [lng, lat] };
+    }
+
+    if (enabled !== undefined) {
+      updates.enabled = !!enabled;
+    }
+
+    const location = await MonitoringLocation.findByIdAndUpdate(req.params.locationId, { $set: updates }, { new: true });
+
+    if (!location) {
+      return res.status(404).json({
+        success: false,
+        error: 'Monitoring location not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      location_id: location._id,
+      message: 'Monitoring location updated'
+    });
+
+  } catch (error) {
+    console.error('Monitoring location update error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update monitoring location'
     });
   }
 });
 
-// OpenAQ Air Quality Ingestion
-router.post('/openaq', async (req, res) => {
+router.delete('/locations/:locationId', async (req, res) => {
+  try {
+    const location = await MonitoringLocation.findByIdAndDelete(req.params.locationId);
+
+    if (!location) {
+      return res.status(404).json({
+        success: false,
+        error: 'Monitoring location not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Monitoring location deleted'
+    });
+
+  } catch (error) {
+    console.error('Monitoring location delete error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete monitoring location'
+    });
+  }
+});
+
+// Single-source ingestion; the request body holds options the adapter supports
+router.post('/:source', async (req, res) => {
+  const adapter = SourceRegistry.get(req.params.source);
+
+  if (!adapter) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown ingestion source: ${req.params.source}`,
+      supported_sources: SourceRegistry.ids()
+    });
+  }
+
   try {
+    const options = IngestionService.parseOptions(adapter, req.body);
     const startTime = Date.now();
-    const countries = req.body.countries || ['MY', 'SG', 'ID', 'TH'];
-    const result = await OpenAQService.ingestAirQualityData(countries);
+    const { meta, ...result } = await IngestionRunService.track(
+      adapter.id,
+      'manual',
+      () => IngestionService.ingest(adapter, options)
+    );
     const duration = Date.now() - startTime;
 
+    // Trigger alert processing for new events
     if (result.inserted > 0) {
-      AlertService.processNewEvents('aqi').catch(console.error);
+      AlertService.processNewEvents(adapter.alertType).catch(console.error);
     }
 
-    res.json({
+    return res.json({
       success: true,
-      source: 'openaq',
-      countries: countries,
+      source: adapter.id,
+      ...meta,
       ...result,
       duration_ms: duration,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('OpenAQ ingestion error:', error);
-    res.status(500).json({
+    if (error instanceof SourceOptionsError) {
+      return res.status(400).json({
+        success: false,
+        source: adapter.id,
+        error: error.message
+      });
+    }
+
+    console.error(`${adapter.name} ingestion error:`, error);
+    return res.status(500).json({
       success: false,
-      source: 'openaq',
+      source: adapter.id,
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// Batch ingestion endpoint
-router.post('/all', async (req, res) => {
-  const results: any[] = [];
-  const startTime = Date.now();
+// Health check for ingestion system, derived from recorded runs
+router.get('/health', async (req, res) => {
+  try {
+    const supportedSources = SourceRegistry.ids();
+
+    // A source is stale once it misses three scheduled runs (or a day when unscheduled)
+    const sources = await Promise.all(supportedSources.map(async source => {
+      const intervalMinutes = IngestionScheduler.getIntervalMinutes(source);
+      const staleAfterMinutes = intervalMinutes > 0 ? intervalMinutes * 3 : 24 * 60;
+      const health = await IngestionRunService.getSourceHealth(source, staleAfterMinutes);
+
+      // Circuit state is per API instance
+      return { ...health, circuit: SourceHttpClient.getCircuitStatus(source) };
+    }));
+
+    const degraded = sources.some(s =>
+      s.status === 'failing' || s.status === 'stale' || s.status === 'degraded' || s.circuit.state !== 'closed'
+    );
 
+    res.json({
+      status: degraded ? 'degraded' : 'healthy',
+      ingestion_system: degraded ? 'degraded' : 'operational',
+      supported_sources: supportedSources,
+      sources,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Ingestion health error:', error);
+    res.status(500).json({
+      status: 'unhealthy',
+      error: 'Failed to derive ingestion health',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Ingestion run history with filtering and pagination
+router.get('/runs', async (req, res) => {
   try {
-    // Run all ingestions in parallel for speed
-    const [usgsResult, eonetResult, weatherResult, aqResult] = await Promise.allSettled([
-      USGSService.ingestEarthquakes(),
-      NASAService.ingestEONETEvents(),
-      OpenWeatherService.ingestWeatherAlerts(OpenWeatherService.getMonitoringLocations()),
-      OpenAQService.ingestAirQualityData(['MY', 'SG', 'ID', 'TH'])
-    ]);
+    const {
+      source,
+      status,
+      trigger,
+      since,
+      until,
+      limit = 50,
+      offset = 0
+    } = req.query;
 
-    if (usgsResult.status === 'fulfilled') {
-      results.push({ source: 'usgs', success: true, ...usgsResult.value });
-    } else {
-      results.push({ source: 'usgs', success: false, error: usgsResult.reason?.message });
+    const query: any = {};
+
+    if (source) {
+      query.source = { $in: (source as string).split(',') };
     }
 
-    if (eonetResult.status === 'fulfilled') {
-      results.push({ source: 'nasa-eonet', success: true, ...eonetResult.value });
-    } else {
-      results.push({ source: 'nasa-eonet', success: false, error: eonetResult.reason?.message });
+    if (status) {
+      query.status = { $in: (status as string).split(',') };
     }
 
-    if (weatherResult.status === 'fulfilled') {
-      results.push({ source: 'openweather', success: true, ...weatherResult.value });
-    } else {
-      results.push({ source: 'openweather', success: false, error: weatherResult.reason?.message });
+    if (trigger) {
+      query.trigger = { $in: (trigger as string).split(',') };
     }
 
-    if (aqResult.status === 'fulfilled') {
-      results.push({ source: 'openaq', success: true, ...aqResult.value });
-    } else {
-      results.push({ source: 'openaq', success: false, error: aqResult.reason?.message });
+    if (since || until) {
+      query.started_at = {};
+      if (since) query.started_at.$gte = new Date(since as string);
+      if (until) query.started_at.$lte = new Date(until as string);
     }
 
-    // Trigger alert processing for any new events
-    const totalInserted = results.reduce((sum, r) => sum + (r.inserted || 0), 0);
-    if (totalInserted > 0) {
-      AlertService.processNewEvents().catch(console.error);
+    const runs = await IngestionRun.find(query)
+      .sort({ started_at: -1 })
+      .limit(Number(limit))
+      .skip(Number(offset))
+      .lean();
+
+    const total = await IngestionRun.countDocuments(query);
+
+    res.json({
+      success: true,
+      runs: runs.map(run => ({
+        id: run._id,
+        source: run.source,
+        trigger: run.trigger,
+        batch_id: run.batch_id || null,
+        status: run.status,
+        started_at: run.started_at,
+        ended_at: run.ended_at || null,
+        duration_ms: run.duration_ms ?? null,
+        inserted: run.inserted,
+        changed: run.changed,
+        unchanged: run.unchanged,
+        errors: run.error_messages
+      })),
+      pagination: {
+        total,
+        limit: Number(limit),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Ingestion runs query error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch ingestion runs'
+    });
+  }
+});
+
+// Records rejected by validation, with the latest raw upstream payload
+router.get('/quarantine', async (req, res) => {
+  try {
+    const {
+      source,
+      status = 'pending',
+      since,
+      until,
+      limit = 50,
+      offset = 0
+    } = req.query;
+
+    const query: any = {};
+
+    if (source) {
+      query.source = { $in: (source as string).split(',') };
     }
 
-    const duration = Date.now() - startTime;
+    if (status !== 'all') {
+      query.status = { $in: (status as string).split(',') };
+    }
+
+    if (since || until) {
+      query.last_seen = {};
+      if (since) query.last_seen.$gte = new Date(since as string);
+      if (until) query.last_seen.$lte = new Date(until as string);
+    }
+
+    const records = await QuarantinedRecord.find(query)
+      .sort({ last_seen: -1 })
+      .limit(Number(limit))
+      .skip(Number(offset))
+      .lean();
+
+    const total = await QuarantinedRecord.countDocuments(query);
 
     res.json({
       success: true,
-      batch_ingestion: true,
-      total_sources: results.length,
-      total_inserted: totalInserted,
-      total_updated: results.reduce((sum, r) => sum + (r.updated || 0), 0),
-      duration_ms: duration,
-      results: results,
-      timestamp: new Date().toISOString()
+      records: records.map(record => ({
+        id: record._id,
+        source: record.source,
+        event_id: record.event_id || null,
+        status: record.status,
+        reasons: record.reasons,
+        attempts: record.attempts,
+        count: record.count,
+        first_seen: record.first_seen,
+        last_seen: record.last_seen,
+        resolved_at: record.resolved_at || null,
+        raw: record.raw,
+        normalized: record.normalized || null
+      })),
+      pagination: {
+        total,
+        limit: Number(limit),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
     });
 
   } catch (error) {
-    console.error('Batch ingestion error:', error);
+    console.error('Quarantine query error:', error);
     res.status(500).json({
       success: false,
-      batch_ingestion: true,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      partial_results: results
+      error: 'Failed to fetch quarantined records'
+    });
+  }
+});
+
+// Re-run a quarantined record through its adapter and validation
+router.post('/quarantine/:recordId/reprocess', async (req, res) => {
+  try {
+    const record = await QuarantinedRecord.findById(req.params.recordId);
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Quarantined record not found'
+      });
+    }
+
+    if (record.status !== 'pending') {
+      return res.status(409).json({
+        success: false,
+        error: `Record already ${record.status}`
+      });
+    }
+
+    const adapter = SourceRegistry.get(record.source);
+    if (!adapter) {
+      return res.status(422).json({
+        success: false,
+        error: `No adapter registered for source: ${record.source}`
+      });
+    }
+
+    const outcome = await IngestionService.reprocessQuarantined(record, adapter);
+
+    if (outcome.inserted > 0) {
+      AlertService.processNewEvents(adapter.alertType).catch(console.error);
+    }
+
+    return res.status(outcome.accepted ? 200 : 422).json({
+      success: outcome.accepted,
+      record_id: record._id,
+      status: outcome.accepted ? 'reprocessed' : 'pending',
+      reasons: outcome.reasons,
+      inserted: outcome.inserted
+    });
+
+  } catch (error) {
+    console.error('Quarantine reprocess error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reprocess quarantined record'
     });
   }
 });
 
-// Health check for ingestion system
-router.get('/health', (req, res) => {
-  res.json({
-    status: 'healthy',
-    ingestion_system: 'operational',
-    supported_sources: ['usgs', 'nasa-eonet', 'nasa-firms', 'openweather', 'openaq'],
-    timestamp: new Date().toISOString()
-  });
+// Discard a quarantined record without ingesting it
+router.delete('/quarantine/:recordId', async (req, res) => {
+  try {
+    const record = await QuarantinedRecord.findOneAndUpdate(
+      { _id: req.params.recordId, status: 'pending' },
+      { $set: { status: 'discarded', resolved_at: new Date() } },
+      { new: true }
+    );
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Pending quarantined record not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      record_id: record._id,
+      status: record.status
+    });
+
+  } catch (error) {
+    console.error('Quarantine discard error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to discard quarantined record'
+    });
+  }
+});
+
+// Scheduler state: intervals, last run and next run per source
+router.get('/schedule', async (req, res) => {
+  try {
+    const sources = await IngestionScheduler.getStatus();
+
+    res.json({
+      success: true,
+      scheduler_enabled: process.env.INGEST_SCHEDULER_ENABLED !== 'false',
+      sources,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Ingestion schedule error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch ingestion schedule'
+    });
+  }
 });
 
 export default router;
\ No newline at end of file
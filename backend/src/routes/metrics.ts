@@ -1,6 +1,7 @@
 import express from 'express';
 import { Event } from '../models/Event';
 import { Subscription } from '../models/Subscription';
+import { SourceRegistry } from '../adapters/SourceRegistry';
 
 const router = express.Router();
 
@@ -149,13 +150,7 @@ router.get('/json', async (req, res) => {
         ])
       },
       ingestion: {
-        sources_configured: [
-          'usgs',
-          'nasa-eonet', 
-          'nasa-firms',
-          'openweather',
-          'openaq'
-        ],
+        sources_configured: SourceRegistry.ids(),
         last_ingestion: await Event.findOne({}, {}, { sort: { ingested_at: -1 } }).then(e => e?.ingested_at),
         ingestion_rate_per_hour: await Event.countDocuments({ ingested_at: { $gte: oneHourAgo } })
       }
@@ -0,0 +1,127 @@
+import express from 'express';
+import { DataRequest } from '../models/DataRequest';
+import { DataSubjectService, DataSubjectValidationError } from '../services/DataSubjectService';
+import { verifyIngestToken } from '../middleware/verifyIngestToken';
+
+const router = express.Router();
+
+router.use(verifyIngestToken);
+
+// Data-subject requests handled by staff. The subject is one of subscription_id, email
+// or phone; a contact covers every subscription using it.
+router.post('/export', async (req, res) => {
+  try {
+    const subject = DataSubjectService.parseSubject(req.body);
+    const data = await DataSubjectService.export(subject, 'admin');
+
+    return res.json({
+      success: true,
+      export: data
+    });
+
+  } catch (error) {
+    if (error instanceof DataSubjectValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Data export error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to export data'
+    });
+  }
+});
+
+router.post('/erase', async (req, res) => {
+  try {
+    const subject = DataSubjectService.parseSubject(req.body);
+    const counts = await DataSubjectService.erase(subject, 'admin');
+
+    return res.json({
+      success: true,
+      erased: counts,
+      message: counts.subscriptions > 0 || counts.alert_deliveries > 0
+        ? 'Data erased'
+        : 'No data found for this subject'
+    });
+
+  } catch (error) {
+    if (error instanceof DataSubjectValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Data erasure error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to erase data'
+    });
+  }
+});
+
+// Audit log of export and erasure requests, newest first
+router.get('/requests', async (req, res) => {
+  try {
+    const { type, status, subscription_id, email, phone, limit = 50, offset = 0 } = req.query;
+
+    const query: any = {};
+    if (type) query.type = type;
+    if (status) query.status = status;
+
+    // A subject's requests are found by hash, since the log does not store the contact itself
+    if (subscription_id || email || phone) {
+      query.subject_hash = DataSubjectService.hashSubject(DataSubjectService.parseSubject({ subscription_id, email, phone }));
+    }
+
+    const [requests, total] = await Promise.all([
+      DataRequest.find(query)
+        .sort({ created_at: -1 })
+        .limit(Number(limit))
+        .skip(Number(offset))
+        .lean(),
+      DataRequest.countDocuments(query)
+    ]);
+
+    return res.json({
+      success: true,
+      requests: requests.map(request => ({
+        id: request._id,
+        type: request.type,
+        requested_by: request.requested_by,
+        subject_type: request.subject_type,
+        subject_hash: request.subject_hash,
+        status: request.status,
+        counts: request.counts,
+        error: request.error || null,
+        created_at: request.created_at
+      })),
+      pagination: {
+        total,
+        limit: Number(limit),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof DataSubjectValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Data request log error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch data requests'
+    });
+  }
+});
+
+export default router;
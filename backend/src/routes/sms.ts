@@ -0,0 +1,76 @@
+import express from 'express';
+import { SmsService } from '../services/SmsService';
+
+const router = express.Router();
+
+// Providers post delivery reports as form data
+router.use(express.urlencoded({ extended: false }));
+
+// Delivery status callback; the URL is passed to the provider with each message
+router.all('/status/:provider', async (req, res) => {
+  try {
+    const publicUrl = (process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+
+    const { accepted, matched } = await SmsService.handleStatusCallback(req.params.provider, {
+      url: `${publicUrl}${req.originalUrl}`,
+      headers: req.headers,
+      query: req.query,
+      body: req.body || {}
+    });
+
+    if (!accepted) {
+      return res.status(403).json({
+        success: false,
+        error: 'Status callback rejected'
+      });
+    }
+
+    // Unknown message ids are acknowledged so the provider does not keep retrying
+    return res.json({
+      success: true,
+      matched
+    });
+
+  } catch (error) {
+    console.error('SMS status callback error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to process status callback'
+    });
+  }
+});
+
+// Messages subscribers send to our number; STOP unsubscribes the number from SMS alerts
+router.all('/inbound/:provider', async (req, res) => {
+  try {
+    const publicUrl = (process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+
+    const { accepted, stopped } = await SmsService.handleInbound(req.params.provider, {
+      url: `${publicUrl}${req.originalUrl}`,
+      headers: req.headers,
+      query: req.query,
+      body: req.body || {}
+    });
+
+    if (!accepted) {
+      return res.status(403).json({
+        success: false,
+        error: 'Inbound message rejected'
+      });
+    }
+
+    return res.json({
+      success: true,
+      stopped
+    });
+
+  } catch (error) {
+    console.error('SMS inbound error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to process inbound message'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,196 @@
+jest.mock('../server', () => ({ io: { to: jest.fn(() => ({ emit: jest.fn() })), emit: jest.fn() } }));
+jest.mock('node-fetch', () => jest.fn());
+
+import express from 'express';
+import request from 'supertest';
+import subscriptionsRoutes from './subscriptions';
+import { Subscription } from '../models/Subscription';
+import { ContactSendLimit } from '../models/ContactSendLimit';
+import { EmailService } from '../services/EmailService';
+import { SubscriptionTokenService } from '../services/SubscriptionTokenService';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const app = express();
+app.use(express.json());
+app.use('/v1/subscriptions', subscriptionsRoutes);
+
+const owner = SubscriptionTokenService.issue();
+
+const seed = (fields: any = {}) => ({
+  _id: 'sub-1',
+  email: 'new@example.com',
+  location: { type: 'Point', coordinates: [101.69, 3.14] },
+  radius_km: 10,
+  channels: ['email'],
+  language: 'en',
+  management_token_hash: owner.hash,
+  verification: { email: { status: 'pending', attempts: 0, sent_at: new Date(), send_count: 1, window_started_at: new Date() } },
+  ...fields
+});
+
+const put = (body: any) => request(app)
+  .put('/v1/subscriptions/sub-1')
+  .set('Authorization', `Bearer ${owner.token}`)
+  .send(body);
+
+describe('subscriptions routes', () => {
+  let subscriptions: MemoryCollection;
+
+  beforeEach(() => {
+    subscriptions = memoryModel(Subscription, [seed()]);
+    memoryModel(ContactSendLimit);
+    jest.spyOn(EmailService, 'send').mockResolvedValue({ messageId: 'm-1', response: '250 OK', accepted: ['new@example.com'] } as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('POST /', () => {
+    const created = new Date('2025-01-01T00:00:00Z');
+    const body = {
+      email: 'new@example.com',
+      location: { lat: 3.2, lng: 101.7 },
+      radius_km: 20,
+      channels: ['email'],
+      _id: 'sub-chosen',
+      created_at: '2020-01-01T00:00:00Z'
+    };
+
+    beforeEach(() => {
+      subscriptions.documents[0].created_at = created;
+    });
+
+    it('updates the subscription of the token holder in place', async () => {
+      const response = await request(app).post('/v1/subscriptions').set('Authorization', `Bearer ${owner.token}`).send(body);
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Subscription updated');
+      expect(response.body.management_token).toBeUndefined();
+      expect(subscriptions.documents).toHaveLength(1);
+      expect(subscriptions.get('sub-1')).toMatchObject({ _id: 'sub-1', created_at: created, radius_km: 20, management_token_hash: owner.hash });
+    });
+
+    it('refuses a token that belongs to no subscription', async () => {
+      const response = await request(app).post('/v1/subscriptions').set('Authorization', 'Bearer not-a-token').send(body);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Invalid management token');
+      expect(subscriptions.documents).toHaveLength(1);
+      expect(subscriptions.get('sub-1').radius_km).toBe(10);
+    });
+
+    it('creates a separate subscription without a token', async () => {
+      const response = await request(app).post('/v1/subscriptions').send(body);
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Subscription created');
+      expect(response.body.management_token).toEqual(expect.any(String));
+      expect(subscriptions.documents).toHaveLength(2);
+      expect(subscriptions.get('sub-1').radius_km).toBe(10);
+      expect(response.body.subscription.id).not.toBe('sub-chosen');
+    });
+  });
+
+  describe('PUT /:subscriptionId', () => {
+    it('updates the fields subscribers manage', async () => {
+      const response = await put({ timezone: 'Asia/Kuala_Lumpur', language: 'ms' });
+
+      expect(response.status).toBe(200);
+      expect(subscriptions.get('sub-1')).toMatchObject({ timezone: 'Asia/Kuala_Lumpur', language: 'ms' });
+    });
+
+    it.each([
+      [{ 'verification.email.status': 'verified' }],
+      [{ 'verification.email': null }],
+      [{ verification: { email: { status: 'verified' } } }],
+      [{ timezone: 'UTC', 'verification.email.verified_at': '2026-01-01T00:00:00Z' }]
+    ])('refuses to write verification state: %j', async body => {
+      const response = await put(body);
+
+      expect(response.status).toBe(400);
+      expect(subscriptions.get('sub-1').verification.email.status).toBe('pending');
+      expect(subscriptions.get('sub-1').timezone).toBe('UTC');
+    });
+
+    it.each([
+      [{ recovery: { email: { code_hash: 'attacker' } } }],
+      [{ 'recovery.email.code_hash': 'attacker' }],
+      [{ 'verification.email.code_hash': 'attacker' }],
+      [{ management_token_hash: 'attacker' }],
+      [{ timezone: 'Asia/Tokyo', 'recovery.phone': null }],
+      [{ token_issued_at: '2020-01-01T00:00:00Z' }],
+      [{ 'push.expired_at': null }]
+    ])('refuses to write tokens, recovery codes or push expiry: %j', async body => {
+      const before = subscriptions.get('sub-1');
+
+      const response = await put(body);
+
+      expect(response.status).toBe(400);
+      expect(subscriptions.get('sub-1')).toEqual(before);
+    });
+
+    it('keeps the management token after a rejected update', async () => {
+      await put({ management_token_hash: SubscriptionTokenService.hash('attacker') });
+
+      const response = await request(app).get('/v1/subscriptions/sub-1').set('Authorization', 'Bearer attacker');
+      expect(response.status).toBe(403);
+      expect(subscriptions.get('sub-1').management_token_hash).toBe(owner.hash);
+    });
+
+    it('replaces an expired push endpoint without taking its expiry from the body', async () => {
+      subscriptions.documents[0].push = { endpoint: 'https://push.example.com/old', keys: { p256dh: 'p', auth: 'a' }, expired_at: new Date() };
+
+      const response = await put({
+        push: { endpoint: 'https://push.example.com/new', keys: { p256dh: 'p2', auth: 'a2' }, expired_at: '2020-01-01T00:00:00Z' }
+      });
+
+      expect(response.status).toBe(200);
+      expect(subscriptions.get('sub-1').push).toEqual({ endpoint: 'https://push.example.com/new', keys: { p256dh: 'p2', auth: 'a2' } });
+    });
+
+    it('restarts verification when the email changes', async () => {
+      subscriptions.documents[0].verification.email = { status: 'verified', verified_at: new Date() };
+
+      const response = await put({ email: 'other@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(subscriptions.get('sub-1').verification.email.status).toBe('pending');
+      expect(EmailService.send).toHaveBeenCalledWith('other@example.com', expect.anything());
+    });
+
+    it('rejects contacts that are not strings', async () => {
+      const response = await put({ email: { $ne: null } });
+
+      expect(response.status).toBe(400);
+      expect(subscriptions.get('sub-1').email).toBe('new@example.com');
+    });
+  });
+
+  describe('POST /recover', () => {
+    it('answers the same whether or not the contact is subscribed', async () => {
+      subscriptions.documents[0].verification.email = { status: 'verified', verified_at: new Date() };
+
+      const subscribed = await request(app).post('/v1/subscriptions/recover').send({ email: 'new@example.com' });
+      const unknown = await request(app).post('/v1/subscriptions/recover').send({ email: 'nobody@example.com' });
+
+      expect(subscribed.status).toBe(202);
+      expect(unknown.status).toBe(202);
+      expect(unknown.body).toEqual(subscribed.body);
+      expect(EmailService.send).toHaveBeenCalledTimes(1);
+      expect(EmailService.send).toHaveBeenCalledWith('new@example.com', expect.anything());
+    });
+  });
+
+  describe('GET /:subscriptionId', () => {
+    it('reports a contact without a verification record as unverified', async () => {
+      subscriptions.documents[0] = { ...subscriptions.documents[0], verification: undefined };
+
+      const response = await request(app).get('/v1/subscriptions/sub-1').set('Authorization', `Bearer ${owner.token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.subscription.verification.email.status).toBe('unverified');
+    });
+  });
+});
@@ -1,10 +1,45 @@
 import express from 'express';
-import { Subscription } from '../models/Subscription';
+import { Subscription, DELIVERY_MODES } from '../models/Subscription';
+import { AlertDelivery } from '../models/AlertDelivery';
+import { ErasedSubscription } from '../models/ErasedSubscription';
 import { AlertService } from '../services/AlertService';
+import { SmsService } from '../services/SmsService';
+import { AlertPreferenceService, PreferenceValidationError } from '../services/AlertPreferenceService';
+import { QuietHoursService, QuietHoursValidationError } from '../services/QuietHoursService';
+import { DigestService } from '../services/DigestService';
+import { SubscriptionAreaService, AreaValidationError } from '../services/SubscriptionAreaService';
+import { SubscriptionTokenService } from '../services/SubscriptionTokenService';
+import { verifySubscriptionToken } from '../middleware/verifySubscriptionToken';
+import {
+  ContactVerificationService,
+  VerificationError,
+  VerificationRateLimitError
+} from '../services/ContactVerificationService';
+import { PublicPages } from '../services/PublicPages';
+import { UnsubscribeService } from '../services/UnsubscribeService';
+import { DataSubjectService } from '../services/DataSubjectService';
+import { SubscriptionRecoveryService, RecoveryError } from '../services/SubscriptionRecoveryService';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 
+// Fields a subscriber may change with PUT; verification, tokens and recovery are server-managed
+const UPDATABLE_FIELDS = [
+  'email',
+  'phone',
+  'push',
+  'channels',
+  'location',
+  'radius_km',
+  'areas',
+  'preferences',
+  'timezone',
+  'quiet_hours',
+  'delivery_mode',
+  'digest_time',
+  'language'
+];
+
 // Create or update subscription
 router.post('/', async (req, res) => {
   try {
@@ -14,15 +49,21 @@ router.post('/', async (req, res) => {
       push,
       location,
       radius_km,
+      areas,
       channels,
+      preferences,
+      timezone = 'UTC',
+      quiet_hours,
+      delivery_mode = 'immediate',
+      digest_time = '08:00',
       language = 'en'
     } = req.body;
 
     // Validation
-    if (!location || !location.lat || !location.lng) {
+    if (areas === undefined && (!location || !location.lat || !location.lng)) {
       return res.status(400).json({
         success: false,
-        error: 'Location (lat, lng) is required'
+        error: 'Location (lat, lng) or areas is required'
       });
     }
 
@@ -33,13 +74,19 @@ router.post('/', async (req, res) => {
       });
     }
 
-    if (!radius_km || radius_km < 1 || radius_km > 100) {
+    if (areas === undefined && (!radius_km || radius_km < 1 || radius_km > 100)) {
       return res.status(400).json({
         success: false,
         error: 'Radius must be between 1 and 100 km'
       });
     }
 
+    // A plain location and radius becomes a single point area
+    const parsedAreas = areas !== undefined
+      ? SubscriptionAreaService.parse(areas)
+      : [SubscriptionAreaService.fromLocation(location, radius_km)];
+    const { location: representativeLocation, radius_km: representativeRadius } = SubscriptionAreaService.summarize(parsedAreas);
+
     // Validate channels have corresponding contact info
     if (channels.includes('email') && !email) {
       return res.status(400).json({
@@ -55,6 +102,14 @@ router.post('/', async (req, res) => {
       });
     }
 
+    const normalizedPhone = phone ? SmsService.normalizePhone(phone) : undefined;
+    if (phone && !normalizedPhone) {
+      return res.status(400).json({
+        success: false,
+        error: 'Phone number must be in international E.164 format, e.g. +60123456789'
+      });
+    }
+
     if (channels.includes('webpush') && !push) {
       return res.status(400).json({
         success: false,
@@ -62,6 +117,28 @@ router.post('/', async (req, res) => {
       });
     }
 
+    if (push && !isValidPushSubscription(push)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Push subscription must include endpoint and keys (p256dh, auth)'
+      });
+    }
+
+    if (!QuietHoursService.isValidTimezone(timezone)) {
+      return res.status(400).json({
+        success: false,
+        error: 'timezone must be an IANA timezone name, e.g. Asia/Kuala_Lumpur'
+      });
+    }
+
+    const digestError = validateDigestSettings(delivery_mode, digest_time, channels);
+    if (digestError) {
+      return res.status(400).json({
+        success: false,
+        error: digestError
+      });
+    }
+
     // Generate subscription ID
     const subscriptionId = uuidv4();
 
@@ -69,42 +146,73 @@ router.post('/', async (req, res) => {
     const subscriptionData = {
       _id: subscriptionId,
       email: email || undefined,
-      phone: phone || undefined,
-      push: push || undefined,
-      location: {
-        type: 'Point',
-        coordinates: [location.lng, location.lat]
-      },
-      radius_km,
+      phone: normalizedPhone || undefined,
+      push: push ? { endpoint: push.endpoint, keys: { p256dh: push.keys.p256dh, auth: push.keys.auth } } : undefined,
+      location: representativeLocation,
+      areas: parsedAreas,
       channels,
+      timezone,
+      quiet_hours: quiet_hours === undefined ? undefined : QuietHoursService.parse(quiet_hours),
+      delivery_mode,
+      digest_time,
       language,
       created_at: new Date()
     };
 
-    // Check for existing subscription with same contact info
-    let existingSubscription = null;
-    if (email) {
-      existingSubscription = await Subscription.findOne({ email });
-    } else if (phone) {
-      existingSubscription = await Subscription.findOne({ phone });
-    } else if (push?.endpoint) {
-      existingSubscription = await Subscription.findOne({ 'push.endpoint': push.endpoint });
+    // Only a subscription's owner may update it: the caller presents its management token,
+    // or re-registers the same push endpoint, which only the browser holding it knows.
+    // Anyone else gets a separate subscription; once its email or phone is verified, older
+    // subscriptions lose that contact (see ContactVerificationService.supersede).
+    const token = SubscriptionTokenService.fromRequest(req);
+    const tokenOwner = token
+      ? await Subscription.findOne({ management_token_hash: SubscriptionTokenService.hash(token) })
+      : null;
+    if (token && !tokenOwner) {
+      return res.status(403).json({
+        success: false,
+        error: 'Invalid management token'
+      });
     }
+    const pushOwner = !tokenOwner && !email && !normalizedPhone && push?.endpoint
+      ? await Subscription.findOne({ 'push.endpoint': push.endpoint })
+      : null;
+    const existingSubscription = tokenOwner || pushOwner;
+
+    // New subscriptions and push re-registrations get a fresh token; a token holder keeps theirs
+    const issued = tokenOwner ? null : SubscriptionTokenService.issue();
+    const tokenFields = issued ? { management_token_hash: issued.hash, token_issued_at: new Date() } : {};
+
+    // Omitted fields keep the existing subscriber's choices, or the defaults for a new one
+    const mergedPreferences = AlertPreferenceService.merge(existingSubscription?.preferences, preferences ?? {});
 
     let subscription;
     if (existingSubscription) {
-      // Update existing subscription
+      // Update existing subscription; its id and creation date stay as they are
+      const { _id, created_at, ...updatableData } = subscriptionData;
       subscription = await Subscription.findByIdAndUpdate(
         existingSubscription._id,
-        subscriptionData,
+        {
+          ...updatableData,
+          ...tokenFields,
+          preferences: mergedPreferences,
+          ...(representativeRadius ? { radius_km: representativeRadius } : { $unset: { radius_km: '' } })
+        },
         { new: true, runValidators: true }
       );
     } else {
       // Create new subscription
-      subscription = new Subscription(subscriptionData);
+      subscription = new Subscription({
+        ...subscriptionData,
+        ...tokenFields,
+        radius_km: representativeRadius,
+        preferences: mergedPreferences
+      });
       await subscription.save();
     }
 
+    // New or changed email and phone contacts get a confirmation link or code
+    await ContactVerificationService.refresh(subscription, existingSubscription);
+
     res.json({
       success: true,
       subscription: {
@@ -113,15 +221,41 @@ router.post('/', async (req, res) => {
           lat: subscription.location.coordinates[1],
           lng: subscription.location.coordinates[0]
         },
-        radius_km: subscription.radius_km,
+        radius_km: subscription.radius_km ?? null,
+        areas: SubscriptionAreaService.format(subscription),
         channels: subscription.channels,
+        preferences: AlertPreferenceService.resolve(subscription.preferences),
+        timezone: subscription.timezone || 'UTC',
+        quiet_hours: subscription.quiet_hours || null,
+        delivery_mode: subscription.delivery_mode || 'immediate',
+        digest_time: subscription.digest_time || '08:00',
         language: subscription.language,
         created_at: subscription.created_at
       },
+      // Shown only here and on rotation; required to read, update or delete the subscription
+      ...(issued && { management_token: issued.token }),
       message: existingSubscription ? 'Subscription updated' : 'Subscription created'
     });
 
   } catch (error) {
+    if (
+      error instanceof PreferenceValidationError ||
+      error instanceof QuietHoursValidationError ||
+      error instanceof AreaValidationError
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (isGeoKeyError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Area geometry is not a valid GeoJSON shape (check for self-intersecting rings)'
+      });
+    }
+
     console.error('Subscription creation error:', error);
     res.status(500).json({
       success: false,
@@ -131,8 +265,108 @@ router.post('/', async (req, res) => {
   }
 });
 
+// VAPID public key the browser passes to pushManager.subscribe()
+router.get('/vapid-public-key', (req, res) => {
+  const publicKey = AlertService.getVapidPublicKey();
+
+  if (!publicKey) {
+    return res.status(503).json({
+      success: false,
+      error: 'Web push is not configured on this server'
+    });
+  }
+
+  return res.json({
+    success: true,
+    public_key: publicKey
+  });
+});
+
+// Sends a management link (email) or code (SMS) to a verified contact. Used to claim
+// subscriptions created before management tokens existed, or to replace a lost token.
+router.post('/recover', async (req, res) => {
+  try {
+    const contact = SubscriptionRecoveryService.parseContact(req.body);
+    await SubscriptionRecoveryService.request(contact);
+
+    // Same answer whether or not the contact is subscribed
+    return res.status(202).json({
+      success: true,
+      message: 'If a verified subscription uses this contact, a management link or code has been sent'
+    });
+
+  } catch (error) {
+    if (error instanceof RecoveryError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Subscription recovery error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to start recovery'
+    });
+  }
+});
+
+// Landing page of the emailed recovery link; the token is issued on the button press
+router.get('/recover/confirm', (req, res) => {
+  res.type('html').send(PublicPages.render(
+    'Manage your subscription',
+    'Press the button to get a new management token for your EcoGuard alert subscription. Any earlier token stops working.',
+    { action: req.originalUrl, button: 'Get management token' }
+  ));
+});
+
+// Issues a new management token for the emailed link or the SMS code.
+// Answers with a page for the recovery form and JSON for API clients.
+router.post('/recover/confirm', async (req, res) => {
+  const wantsHtml = req.accepts(['json', 'html']) === 'html';
+
+  try {
+    const contact = SubscriptionRecoveryService.parseContact({
+      email: req.body?.email ?? req.query.email,
+      phone: req.body?.phone ?? req.query.phone
+    });
+    const { subscriptionId, token } = await SubscriptionRecoveryService.confirm(contact, req.body?.code ?? req.query.code);
+
+    if (wantsHtml) {
+      return res.type('html').send(PublicPages.render(
+        'Management token issued',
+        `Subscription ${subscriptionId}. Management token: ${token} - keep it safe, it is shown only once.`
+      ));
+    }
+    return res.json({
+      success: true,
+      subscription_id: subscriptionId,
+      // Shown only here; required to read, update or delete the subscription
+      management_token: token,
+      message: 'Management token issued; any earlier token no longer works'
+    });
+
+  } catch (error) {
+    if (error instanceof RecoveryError) {
+      if (wantsHtml) {
+        return res.status(400).type('html').send(PublicPages.render('Could not recover subscription', error.message));
+      }
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Subscription recovery confirmation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to recover subscription'
+    });
+  }
+});
+
 // Get subscription by ID
-router.get('/:subscriptionId', async (req, res) => {
+router.get('/:subscriptionId', verifySubscriptionToken, async (req, res) => {
   try {
     const { subscriptionId } = req.params;
     
@@ -153,13 +387,22 @@ router.get('/:subscriptionId', async (req, res) => {
           lat: subscription.location.coordinates[1],
           lng: subscription.location.coordinates[0]
         },
-        radius_km: subscription.radius_km,
+        radius_km: subscription.radius_km ?? null,
+        areas: SubscriptionAreaService.format(subscription),
         channels: subscription.channels,
+        preferences: AlertPreferenceService.resolve(subscription.preferences),
+        timezone: subscription.timezone || 'UTC',
+        quiet_hours: subscription.quiet_hours || null,
+        delivery_mode: subscription.delivery_mode || 'immediate',
+        digest_time: subscription.digest_time || '08:00',
         language: subscription.language,
         created_at: subscription.created_at,
         has_email: !!subscription.email,
         has_phone: !!subscription.phone,
-        has_push: !!subscription.push
+        has_push: !!subscription.push?.endpoint,
+        push_expired: !!subscription.push?.expired_at,
+        verification: ContactVerificationService.describe(subscription),
+        token_issued_at: subscription.token_issued_at || null
       }
     });
 
@@ -172,24 +415,221 @@ router.get('/:subscriptionId', async (req, res) => {
   }
 });
 
+// Alert delivery history for one subscription, newest first
+router.get('/:subscriptionId/alerts', verifySubscriptionToken, async (req, res) => {
+  try {
+    const { subscriptionId } = req.params;
+    const { channel, status, limit = 20, offset = 0 } = req.query;
+
+    if (!await Subscription.exists({ _id: subscriptionId })) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subscription not found'
+      });
+    }
+
+    const query: any = { subscription_id: subscriptionId };
+
+    if (channel) {
+      query.channel = { $in: (channel as string).split(',') };
+    }
+
+    if (status) {
+      query.status = { $in: (status as string).split(',') };
+    }
+
+    const deliveries = await AlertDelivery.find(query)
+      .sort({ created_at: -1 })
+      .limit(Math.min(Number(limit), 100))
+      .skip(Number(offset))
+      .lean();
+
+    const total = await AlertDelivery.countDocuments(query);
+
+    return res.json({
+      success: true,
+      subscription_id: subscriptionId,
+      alerts: deliveries.map(delivery => ({
+        id: delivery._id,
+        alert_id: delivery.alert_id,
+        kind: delivery.kind || 'alert',
+        event_id: delivery.event_id,
+        event_ids: delivery.event_ids || [delivery.event_id],
+        event_type: delivery.event_type,
+        severity: delivery.event_severity,
+        distance_km: delivery.distance_km ?? null,
+        area_name: delivery.area_name || null,
+        title: delivery.title,
+        channel: delivery.channel,
+        status: delivery.status,
+        provider_status: delivery.provider_status || null,
+        attempts: delivery.attempts,
+        created_at: delivery.created_at,
+        last_attempt_at: delivery.last_attempt_at || null
+      })),
+      pagination: {
+        total,
+        limit: Math.min(Number(limit), 100),
+        offset: Number(offset),
+        has_more: total > Number(offset) + Number(limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Subscription alert history error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert history'
+    });
+  }
+});
+
 // Update subscription
-router.put('/:subscriptionId', async (req, res) => {
+router.put('/:subscriptionId', verifySubscriptionToken, async (req, res) => {
   try {
     const { subscriptionId } = req.params;
-    const updates = req.body;
 
-    // Remove fields that shouldn't be updated directly
-    delete updates._id;
-    delete updates.created_at;
+    // Anything else, e.g. 'verification.email.status' or a token hash, is server-managed
+    const body = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+    const unsupported = Object.keys(body).filter(key => !UPDATABLE_FIELDS.includes(key));
+    if (unsupported.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot update ${unsupported.join(', ')} (updatable: ${UPDATABLE_FIELDS.join(', ')})`
+      });
+    }
+
+    const updates: any = {};
+    for (const field of UPDATABLE_FIELDS) {
+      if (body[field] !== undefined) updates[field] = body[field];
+    }
 
-    // Handle location update
-    if (updates.location) {
-      updates.location = {
-        type: 'Point',
-        coordinates: [updates.location.lng, updates.location.lat]
-      };
+    if (updates.channels !== undefined && !Array.isArray(updates.channels)) {
+      return res.status(400).json({
+        success: false,
+        error: 'channels must be an array'
+      });
+    }
+
+    for (const field of ['email', 'phone', 'language'] as const) {
+      if (updates[field] !== undefined && updates[field] !== null && typeof updates[field] !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: `${field} must be a string`
+        });
+      }
+    }
+
+    if (updates.push !== undefined) {
+      if (!isValidPushSubscription(updates.push)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Push subscription must include endpoint and keys (p256dh, auth)'
+        });
+      }
+      // A fresh endpoint replaces an expired one
+      updates.push = { endpoint: updates.push.endpoint, keys: { p256dh: updates.push.keys.p256dh, auth: updates.push.keys.auth } };
+    }
+
+    if (updates.timezone !== undefined && !QuietHoursService.isValidTimezone(updates.timezone)) {
+      return res.status(400).json({
+        success: false,
+        error: 'timezone must be an IANA timezone name, e.g. Asia/Kuala_Lumpur'
+      });
+    }
+
+    if (updates.quiet_hours !== undefined) {
+      updates.quiet_hours = QuietHoursService.parse(updates.quiet_hours);
+    }
+
+    if (updates.delivery_mode !== undefined || updates.digest_time !== undefined || updates.channels !== undefined) {
+      const current = await Subscription.findById(subscriptionId, { delivery_mode: 1, digest_time: 1, channels: 1 }).lean();
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found'
+        });
+      }
+
+      const digestError = validateDigestSettings(
+        updates.delivery_mode ?? current.delivery_mode ?? 'immediate',
+        updates.digest_time ?? current.digest_time ?? '08:00',
+        updates.channels ?? current.channels
+      );
+      if (digestError) {
+        return res.status(400).json({
+          success: false,
+          error: digestError
+        });
+      }
+    }
+
+    if (updates.phone) {
+      const normalizedPhone = SmsService.normalizePhone(updates.phone);
+      if (!normalizedPhone) {
+        return res.status(400).json({
+          success: false,
+          error: 'Phone number must be in international E.164 format, e.g. +60123456789'
+        });
+      }
+      updates.phone = normalizedPhone;
+    }
+
+    if (updates.preferences !== undefined) {
+      const current = await Subscription.findById(subscriptionId, { preferences: 1 }).lean();
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found'
+        });
+      }
+      updates.preferences = AlertPreferenceService.merge(current.preferences, updates.preferences);
+    }
+
+    // Areas replace the whole list; a plain location or radius edits a single point area
+    if (updates.areas !== undefined || updates.location !== undefined || updates.radius_km !== undefined) {
+      let areas;
+      if (updates.areas !== undefined) {
+        areas = SubscriptionAreaService.parse(updates.areas);
+      } else {
+        const current = await Subscription.findById(subscriptionId, { location: 1, radius_km: 1, areas: 1 }).lean();
+        if (!current) {
+          return res.status(404).json({
+            success: false,
+            error: 'Subscription not found'
+          });
+        }
+
+        const [area, ...others] = SubscriptionAreaService.getAreas(current);
+        if (others.length > 0 || area.kind !== 'point') {
+          return res.status(400).json({
+            success: false,
+            error: 'This subscription has several or drawn areas; update it with areas instead of location and radius_km'
+          });
+        }
+
+        areas = [SubscriptionAreaService.fromLocation(
+          updates.location ?? { lat: area.geometry.coordinates[1], lng: area.geometry.coordinates[0] },
+          updates.radius_km ?? area.radius_km,
+          area.name
+        )];
+      }
+
+      const summary = SubscriptionAreaService.summarize(areas);
+      updates.areas = areas;
+      updates.location = summary.location;
+      if (summary.radius_km) {
+        updates.radius_km = summary.radius_km;
+      } else {
+        delete updates.radius_km;
+        updates.$unset = { radius_km: '' };
+      }
     }
 
+    const previousContacts = updates.email !== undefined || updates.phone !== undefined
+      ? await Subscription.findById(subscriptionId, { email: 1, phone: 1 }).lean()
+      : null;
+
     const subscription = await Subscription.findByIdAndUpdate(
       subscriptionId,
       updates,
@@ -203,6 +643,10 @@ router.put('/:subscriptionId', async (req, res) => {
       });
     }
 
+    if (previousContacts) {
+      await ContactVerificationService.refresh(subscription, previousContacts);
+    }
+
     res.json({
       success: true,
       subscription: {
@@ -211,8 +655,14 @@ router.put('/:subscriptionId', async (req, res) => {
           lat: subscription.location.coordinates[1],
           lng: subscription.location.coordinates[0]
         },
-        radius_km: subscription.radius_km,
+        radius_km: subscription.radius_km ?? null,
+        areas: SubscriptionAreaService.format(subscription),
         channels: subscription.channels,
+        preferences: AlertPreferenceService.resolve(subscription.preferences),
+        timezone: subscription.timezone || 'UTC',
+        quiet_hours: subscription.quiet_hours || null,
+        delivery_mode: subscription.delivery_mode || 'immediate',
+        digest_time: subscription.digest_time || '08:00',
         language: subscription.language,
         created_at: subscription.created_at
       },
@@ -220,6 +670,24 @@ router.put('/:subscriptionId', async (req, res) => {
     });
 
   } catch (error) {
+    if (
+      error instanceof PreferenceValidationError ||
+      error instanceof QuietHoursValidationError ||
+      error instanceof AreaValidationError
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (isGeoKeyError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Area geometry is not a valid GeoJSON shape (check for self-intersecting rings)'
+      });
+    }
+
     console.error('Subscription update error:', error);
     res.status(500).json({
       success: false,
@@ -229,7 +697,7 @@ router.put('/:subscriptionId', async (req, res) => {
 });
 
 // Delete subscription
-router.delete('/:subscriptionId', async (req, res) => {
+router.delete('/:subscriptionId', verifySubscriptionToken, async (req, res) => {
   try {
     const { subscriptionId } = req.params;
     
@@ -256,8 +724,242 @@ router.delete('/:subscriptionId', async (req, res) => {
   }
 });
 
+// Everything stored for this subscription, including its alert history
+router.get('/:subscriptionId/export', verifySubscriptionToken, async (req, res) => {
+  try {
+    const data = await DataSubjectService.export({ type: 'subscription', value: req.params.subscriptionId }, 'subscriber');
+
+    res.setHeader('Content-Disposition', `attachment; filename="ecoguard-export-${req.params.subscriptionId}.json"`);
+    return res.json({
+      success: true,
+      export: data
+    });
+
+  } catch (error) {
+    console.error('Subscription export error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to export subscription data'
+    });
+  }
+});
+
+// Deletes the subscription together with its alert history
+router.post('/:subscriptionId/erase', verifySubscriptionToken, async (req, res) => {
+  try {
+    const counts = await DataSubjectService.erase({ type: 'subscription', value: req.params.subscriptionId }, 'subscriber');
+
+    return res.json({
+      success: true,
+      erased: counts,
+      message: 'Subscription and alert history erased'
+    });
+
+  } catch (error) {
+    console.error('Subscription erasure error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to erase subscription data'
+    });
+  }
+});
+
+// Landing page of the emailed confirmation link. Confirming takes a button press,
+// so link scanners that prefetch URLs cannot verify an address on their own.
+router.get('/:subscriptionId/verify/email', (req, res) => {
+  res.type('html').send(PublicPages.render(
+    'Confirm your subscription',
+    'Press the button to start receiving EcoGuard alerts at this email address.',
+    { action: req.originalUrl, button: 'Confirm subscription' }
+  ));
+});
+
+// Confirms a contact with the emailed link token or the SMS code.
+// Answers with a page for the confirmation form and JSON for API clients.
+router.post('/:subscriptionId/verify/:contact', async (req, res) => {
+  const wantsHtml = req.accepts(['json', 'html']) === 'html';
+
+  try {
+    const { subscriptionId, contact } = req.params;
+    if (!ContactVerificationService.isVerifiableContact(contact)) {
+      return res.status(400).json({
+        success: false,
+        error: 'contact must be email or phone'
+      });
+    }
+
+    await ContactVerificationService.confirm(subscriptionId, contact, req.body?.code ?? req.query.code);
+
+    if (wantsHtml) {
+      return res.type('html').send(PublicPages.render('Subscription confirmed', 'You will now receive EcoGuard alerts at this address.'));
+    }
+    return res.json({
+      success: true,
+      contact,
+      status: 'verified',
+      message: `${contact} verified`
+    });
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      if (wantsHtml) {
+        return res.status(400).type('html').send(PublicPages.render('Could not confirm', error.message));
+      }
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Contact verification error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify contact'
+    });
+  }
+});
+
+// Sends a new link or code; limited to one per minute and a few per day
+router.post('/:subscriptionId/verify/:contact/resend', verifySubscriptionToken, async (req, res) => {
+  try {
+    const { subscriptionId, contact } = req.params;
+    if (!ContactVerificationService.isVerifiableContact(contact)) {
+      return res.status(400).json({
+        success: false,
+        error: 'contact must be email or phone'
+      });
+    }
+
+    const { sent_at, expires_at } = await ContactVerificationService.resend(subscriptionId, contact);
+
+    return res.json({
+      success: true,
+      contact,
+      sent_at,
+      expires_at,
+      message: `Verification ${contact === 'email' ? 'link' : 'code'} sent`
+    });
+
+  } catch (error) {
+    if (error instanceof VerificationRateLimitError) {
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      return res.status(429).json({
+        success: false,
+        error: error.message,
+        retry_after_seconds: error.retryAfterSeconds
+      });
+    }
+
+    if (error instanceof VerificationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Verification resend error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to send verification',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Landing page of the unsubscribe link in alert emails; unsubscribing takes a button press
+router.get('/:subscriptionId/unsubscribe/:scope', (req, res) => {
+  const { subscriptionId, scope } = req.params;
+
+  if (!UnsubscribeService.isScope(scope) || !UnsubscribeService.verify(subscriptionId, scope, req.query.sig)) {
+    return res.status(403).type('html').send(PublicPages.render('Invalid link', 'This unsubscribe link is not valid.'));
+  }
+
+  const what = scope === 'all' ? 'all EcoGuard alerts' : `EcoGuard ${scope === 'sms' ? 'SMS' : scope} alerts`;
+  return res.type('html').send(PublicPages.render(
+    'Unsubscribe',
+    `Press the button to stop ${what} for this subscription.`,
+    { action: req.originalUrl, button: 'Unsubscribe' }
+  ));
+});
+
+// Confirmation form and RFC 8058 one-click unsubscribe (List-Unsubscribe-Post)
+router.post('/:subscriptionId/unsubscribe/:scope', async (req, res) => {
+  const wantsHtml = req.accepts(['json', 'html']) === 'html';
+
+  try {
+    const { subscriptionId, scope } = req.params;
+
+    if (!UnsubscribeService.isScope(scope) || !UnsubscribeService.verify(subscriptionId, scope, req.query.sig)) {
+      if (wantsHtml) {
+        return res.status(403).type('html').send(PublicPages.render('Invalid link', 'This unsubscribe link is not valid.'));
+      }
+      return res.status(403).json({
+        success: false,
+        error: 'Invalid unsubscribe link'
+      });
+    }
+
+    // A deleted subscription is already unsubscribed
+    const channels = await UnsubscribeService.apply(subscriptionId, scope);
+
+    if (wantsHtml) {
+      return res.type('html').send(PublicPages.render('Unsubscribed', 'You will no longer receive these EcoGuard alerts.'));
+    }
+    return res.json({
+      success: true,
+      scope,
+      channels: channels || [],
+      message: 'Unsubscribed'
+    });
+
+  } catch (error) {
+    console.error('Unsubscribe error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to unsubscribe'
+    });
+  }
+});
+
+// Replaces the management token; the old one stops working immediately
+router.post('/:subscriptionId/token/rotate', verifySubscriptionToken, async (req, res) => {
+  try {
+    const { subscriptionId } = req.params;
+    const issued = SubscriptionTokenService.issue();
+    const issuedAt = new Date();
+
+    const subscription = await Subscription.findByIdAndUpdate(
+      subscriptionId,
+      { $set: { management_token_hash: issued.hash, token_issued_at: issuedAt } },
+      { new: true }
+    );
+
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Subscription not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      subscription_id: subscriptionId,
+      management_token: issued.token,
+      token_issued_at: issuedAt,
+      message: 'Management token rotated'
+    });
+
+  } catch (error) {
+    console.error('Subscription token rotation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to rotate management token'
+    });
+  }
+});
+
 // Test alert for subscription
-router.post('/:subscriptionId/test-alert', async (req, res) => {
+router.post('/:subscriptionId/test-alert', verifySubscriptionToken, async (req, res) => {
   try {
     const { subscriptionId } = req.params;
     
@@ -327,10 +1029,19 @@ router.post('/:subscriptionId/test-alert', async (req, res) => {
 // Get subscription statistics
 router.get('/stats/overview', async (req, res) => {
   try {
-    const totalSubscriptions = await Subscription.countDocuments();
+    // Erased subscriptions keep an anonymized row so totals survive data erasure requests
+    const withErased = { $unionWith: { coll: ErasedSubscription.collection.name } };
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const [activeCount, erasedCount] = await Promise.all([
+      Subscription.countDocuments(),
+      ErasedSubscription.countDocuments()
+    ]);
+    const totalSubscriptions = activeCount + erasedCount;
     
     // Channel distribution
     const channelStats = await Subscription.aggregate([
+      withErased,
       { $unwind: '$channels' },
       { $group: { _id: '$channels', count: { $sum: 1 } } },
       { $sort: { count: -1 } }
@@ -338,12 +1049,14 @@ router.get('/stats/overview', async (req, res) => {
 
     // Language distribution
     const languageStats = await Subscription.aggregate([
+      withErased,
       { $group: { _id: '$language', count: { $sum: 1 } } },
       { $sort: { count: -1 } }
     ]);
 
     // Radius distribution
     const radiusStats = await Subscription.aggregate([
+      withErased,
       {
         $bucket: {
           groupBy: '$radius_km',
@@ -355,9 +1068,11 @@ router.get('/stats/overview', async (req, res) => {
     ]);
 
     // Recent subscriptions (last 7 days)
-    const recentCount = await Subscription.countDocuments({
-      created_at: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
-    });
+    const [recentActive, recentErased] = await Promise.all([
+      Subscription.countDocuments({ created_at: { $gte: weekAgo } }),
+      ErasedSubscription.countDocuments({ created_at: { $gte: weekAgo } })
+    ]);
+    const recentCount = recentActive + recentErased;
 
     res.json({
       success: true,
@@ -380,4 +1095,31 @@ router.get('/stats/overview', async (req, res) => {
   }
 });
 
+// Digests go out by email or web push, so digest subscribers need one of them
+function validateDigestSettings(mode: any, time: any, channels: any): string | null {
+  if (!DELIVERY_MODES.includes(mode)) {
+    return `delivery_mode must be one of: ${DELIVERY_MODES.join(', ')}`;
+  }
+  if (typeof time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+    return 'digest_time must be HH:MM (24-hour)';
+  }
+  if (mode !== 'immediate' && !(Array.isArray(channels) && channels.some((channel: string) => (DigestService.CHANNELS as string[]).includes(channel)))) {
+    return `Digest delivery requires one of these channels: ${DigestService.CHANNELS.join(', ')}`;
+  }
+  return null;
+}
+
+// Shape of PushSubscription.toJSON() from the browser
+function isValidPushSubscription(push: any): boolean {
+  return typeof push?.endpoint === 'string' &&
+    /^https:\/\//.test(push.endpoint) &&
+    typeof push.keys?.p256dh === 'string' &&
+    typeof push.keys?.auth === 'string';
+}
+
+// MongoDB refuses to index self-intersecting or otherwise malformed polygons
+function isGeoKeyError(error: any): boolean {
+  return error?.code === 16755;
+}
+
 export default router;
\ No newline at end of file
@@ -41,6 +41,14 @@ import eventsRoutes from './routes/events';
 import subscriptionsRoutes from './routes/subscriptions';
 import riskRoutes from './routes/risk';
 import metricsRoutes from './routes/metrics';
+import smsRoutes from './routes/sms';
+import alertsRoutes from './routes/alerts';
+import privacyRoutes from './routes/privacy';
+import { IngestionScheduler } from './services/IngestionScheduler';
+import { BackfillService } from './services/BackfillService';
+import { AlertQueueService } from './services/AlertQueueService';
+import { HeldAlertService } from './services/HeldAlertService';
+import { SourceRegistry } from './adapters/SourceRegistry';
 
 // Health check endpoint
 app.get('/v1/status', (req, res) => {
@@ -61,6 +69,9 @@ app.use('/v1/events', eventsRoutes);
 app.use('/v1/subscriptions', subscriptionsRoutes);
 app.use('/v1/risk', riskRoutes);
 app.use('/v1/metrics', metricsRoutes);
+app.use('/v1/sms', smsRoutes);
+app.use('/v1/alerts', alertsRoutes);
+app.use('/v1/privacy', privacyRoutes);
 
 // API Documentation endpoint
 app.get('/v1/docs', (req, res) => {
@@ -73,6 +84,7 @@ app.get('/v1/docs', (req, res) => {
       events: {
         list: 'GET /v1/events',
         get: 'GET /v1/events/:id',
+        history: 'GET /v1/events/:id/history',
         near: 'GET /v1/events/near/:lat/:lng',
         stats: 'GET /v1/events/stats/summary',
         realtime: 'GET /v1/events/feed/realtime'
@@ -82,7 +94,26 @@ app.get('/v1/docs', (req, res) => {
         get: 'GET /v1/subscriptions/:id',
         update: 'PUT /v1/subscriptions/:id',
         delete: 'DELETE /v1/subscriptions/:id',
-        test: 'POST /v1/subscriptions/:id/test-alert'
+        test: 'POST /v1/subscriptions/:id/test-alert',
+        alerts: 'GET /v1/subscriptions/:id/alerts',
+        export: 'GET /v1/subscriptions/:id/export',
+        erase: 'POST /v1/subscriptions/:id/erase',
+        recover: 'POST /v1/subscriptions/recover',
+        recover_confirm: 'POST /v1/subscriptions/recover/confirm',
+        vapid_public_key: 'GET /v1/subscriptions/vapid-public-key'
+      },
+      alerts: {
+        list: 'GET /v1/alerts?subscription_id=&event_id=&channel=&status=&since=&until=',
+        notifications: 'GET /v1/alerts/notifications?event_id=&subscription_id=&suppression_reason=',
+        queue: 'GET /v1/alerts/queue',
+        dead_letters: 'GET /v1/alerts/dead-letters?channel=&event_id=&subscription_id=&since=',
+        replay: 'POST /v1/alerts/dead-letters/:jobId/replay',
+        replay_all: 'POST /v1/alerts/dead-letters/replay'
+      },
+      privacy: {
+        export: 'POST /v1/privacy/export',
+        erase: 'POST /v1/privacy/erase',
+        requests: 'GET /v1/privacy/requests?type=&status=&subscription_id=&email=&phone='
       },
       risk: {
         current: 'GET /v1/risk/now?lat=&lng=',
@@ -91,20 +122,26 @@ app.get('/v1/docs', (req, res) => {
         trends: 'GET /v1/risk/trends?lat=&lng='
       },
       ingestion: {
-        usgs: 'POST /v1/ingest/usgs',
-        eonet: 'POST /v1/ingest/eonet',
-        openweather: 'POST /v1/ingest/openweather',
-        openaq: 'POST /v1/ingest/openaq',
-        all: 'POST /v1/ingest/all'
+        ...Object.fromEntries(SourceRegistry.ids().map(id => [id, `POST /v1/ingest/${id}`])),
+        all: 'POST /v1/ingest/all',
+        schedule: 'GET /v1/ingest/schedule',
+        runs: 'GET /v1/ingest/runs?source=&status=&since=&until=',
+        health: 'GET /v1/ingest/health',
+        quarantine: 'GET /v1/ingest/quarantine?source=&status=',
+        reprocess: 'POST /v1/ingest/quarantine/:id/reprocess',
+        backfill: 'POST /v1/ingest/backfill',
+        backfill_jobs: 'GET /v1/ingest/backfill',
+        backfill_cancel: 'POST /v1/ingest/backfill/:id/cancel',
+        backfill_resume: 'POST /v1/ingest/backfill/:id/resume',
+        locations: 'GET|POST /v1/ingest/locations',
+        location: 'PUT|DELETE /v1/ingest/locations/:id',
+        derive_locations: 'POST /v1/ingest/locations/derive'
+      },
+      sms: {
+        status_callback: 'POST /v1/sms/status/:provider'
       }
     },
-    data_sources: [
-      'USGS Earthquake Hazards Program',
-      'NASA EONET (Earth Observatory Natural Event Tracker)',
-      'NASA FIRMS (Fire Information for Resource Management System)',
-      'OpenWeather API',
-      'OpenAQ Air Quality API'
-    ],
+    data_sources: SourceRegistry.all().map(adapter => adapter.name),
     websocket: 'wss://api.ecoguard.com/ws'
   });
 });
@@ -153,6 +190,24 @@ async function startServer() {
       try {
         await mongoose.connect(MONGO_URL);
         console.log('✅ Connected to MongoDB');
+
+        // Scheduled ingestion needs the database for run locking
+        if (process.env.INGEST_SCHEDULER_ENABLED !== 'false') {
+          IngestionScheduler.start();
+        }
+
+        // Queued backfill jobs, including ones interrupted by a restart
+        if (process.env.INGEST_BACKFILL_ENABLED !== 'false') {
+          BackfillService.start();
+        }
+
+        // Alert jobs are durable, so any instance with the worker enabled sends them
+        if (process.env.ALERT_QUEUE_ENABLED !== 'false') {
+          AlertQueueService.start();
+        }
+
+        // Quiet-hours summaries and digests
+        HeldAlertService.start();
       } catch (error) {
         console.log('⚠️ MongoDB connection failed - running without database');
         console.log('   Some features will be disabled');
@@ -177,6 +232,10 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  IngestionScheduler.stop();
+  BackfillService.stop();
+  AlertQueueService.stop();
+  HeldAlertService.stop();
   await mongoose.connection.close();
   server.close(() => {
     console.log('Server closed');
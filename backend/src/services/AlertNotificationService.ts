@@ -0,0 +1,150 @@
+import { AlertNotification } from '../models/AlertNotification';
+
+export type NotifyDecision =
+  | { notify: true; previous: null }
+  | { notify: true; previous: { severity: number; area_km2: number } }
+  | { notify: false; reason: string };
+
+// Decides whether a subscriber should hear about an event (again). The first alert per
+// event and subscription always goes out; later ones only when the event materially
+// escalated since the last alert this subscriber received. Every skip is recorded.
+export class AlertNotificationService {
+  static readonly ESCALATION_MIN_DELTA = 0.5; // severity points
+  static readonly AREA_GROWTH_FACTOR = 1.25; // impact area at least 25% larger
+  private static readonly MAX_STORED_SUPPRESSIONS = 20;
+
+  static async claim(event: any, subscriptionId: string, alertId: string): Promise<NotifyDecision> {
+    const key = `${event._id}:${subscriptionId}`;
+    const severity = event.severity;
+    const areaKm2 = this.bboxAreaKm2(event.area_bbox);
+    const now = new Date();
+    const notified = {
+      notified_severity: severity,
+      notified_area_km2: areaKm2,
+      notified_at: now,
+      last_alert_id: alertId,
+      updated_at: now
+    };
+
+    // First alert: the insert succeeds for exactly one caller
+    try {
+      await AlertNotification.create({
+        _id: key,
+        event_id: event._id,
+        subscription_id: subscriptionId,
+        ...notified,
+        notification_count: 1,
+        created_at: now
+      });
+      return { notify: true, previous: null };
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+    }
+
+    // Re-notify only when severity or area grew enough since the last alert this subscriber
+    // received, however many smaller revisions came in between. The last_alert_id condition
+    // lets exactly one of several concurrent claims through.
+    const current = await AlertNotification.findById(key).lean();
+    if (current && this.hasEscalated(current, severity, areaKm2)) {
+      const previous = current.notified_at
+        ? { severity: current.notified_severity ?? severity, area_km2: current.notified_area_km2 ?? areaKm2 }
+        : null;
+
+      // The replaced notification is kept for release()
+      const result = await AlertNotification.updateOne(
+        { _id: key, last_alert_id: current.last_alert_id ?? null },
+        {
+          $set: {
+            ...notified,
+            ...(previous && {
+              previous_notification: { ...previous, notified_at: current.notified_at, alert_id: current.last_alert_id }
+            })
+          },
+          ...(!previous && { $unset: { previous_notification: '' } }),
+          $inc: { notification_count: 1 }
+        }
+      );
+
+      if (result.modifiedCount > 0) return { notify: true, previous };
+    }
+
+    const grew = !!current && ((current.notified_severity ?? 0) < severity || (current.notified_area_km2 ?? 0) < areaKm2);
+    const reason = grew ? 'escalation_below_threshold' : 'already_notified';
+
+    await this.recordSuppression(event._id, subscriptionId, reason, severity);
+    return { notify: false, reason };
+  }
+
+  // Undoes the claim for alertId when that alert was never sent (queueing failed or its
+  // jobs dead-lettered), so the next run notifies instead of suppressing it as already_notified.
+  // A claim made since by a newer alert is left alone.
+  static async release(eventId: string, subscriptionId: string, alertId: string): Promise<boolean> {
+    const key = `${eventId}:${subscriptionId}`;
+    const current = await AlertNotification.findOne({ _id: key, last_alert_id: alertId }).lean();
+    if (!current) return false;
+
+    const previous = current.previous_notification;
+    const restored = previous
+      ? {
+          $set: {
+            notified_severity: previous.severity,
+            notified_area_km2: previous.area_km2,
+            notified_at: previous.notified_at,
+            last_alert_id: previous.alert_id
+          },
+          $unset: { previous_notification: '' }
+        }
+      : { $unset: { notified_severity: '', notified_area_km2: '', notified_at: '', last_alert_id: '' } };
+
+    const result = await AlertNotification.updateOne(
+      { _id: key, last_alert_id: alertId },
+      {
+        ...restored,
+        $set: {
+          ...restored.$set,
+          notification_count: Math.max(0, (current.notification_count ?? 1) - 1),
+          updated_at: new Date()
+        }
+      }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  // Entries that so far only hold suppressions have never been notified
+  private static hasEscalated(current: any, severity: number, areaKm2: number): boolean {
+    if (!current.notified_at) return true;
+
+    // Tolerance so that e.g. 4.6 -> 5.1 counts as the 0.5 it reads as
+    if (severity - (current.notified_severity ?? 0) >= this.ESCALATION_MIN_DELTA - 1e-9) return true;
+
+    return areaKm2 > 0 && (current.notified_area_km2 ?? 0) <= areaKm2 / this.AREA_GROWTH_FACTOR;
+  }
+
+  static async recordSuppression(eventId: string, subscriptionId: string, reason: string, severity: number): Promise<void> {
+    const now = new Date();
+
+    await AlertNotification.updateOne(
+      { _id: `${eventId}:${subscriptionId}` },
+      {
+        $setOnInsert: { event_id: eventId, subscription_id: subscriptionId, notification_count: 0, created_at: now },
+        $set: { last_suppression_reason: reason, updated_at: now },
+        $inc: { suppressed_count: 1 },
+        $push: { suppressions: { $each: [{ reason, severity, at: now }], $slice: -this.MAX_STORED_SUPPRESSIONS } }
+      },
+      { upsert: true }
+    );
+  }
+
+  // Approximate area of [minLng, minLat, maxLng, maxLat] in km²
+  static bboxAreaKm2(bbox: number[]): number {
+    if (!Array.isArray(bbox) || bbox.length !== 4) return 0;
+
+    const [minLng, minLat, maxLng, maxLat] = bbox;
+    const midLat = ((minLat + maxLat) / 2) * Math.PI / 180;
+    const widthKm = (maxLng - minLng) * 111.32 * Math.cos(midLat);
+    const heightKm = (maxLat - minLat) * 110.57;
+
+    return Math.round(Math.abs(widthKm * heightKm));
+  }
+}
@@ -0,0 +1,122 @@
+import { AlertPreferences, HAZARD_TYPES, HazardType, AQI_CATEGORIES, AqiCategory } from '../models/Subscription';
+
+export class PreferenceValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreferenceValidationError';
+  }
+}
+
+// Which hazards a subscriber wants and how severe they must be. Subscriptions store their
+// own values; anything they never set falls back to SEVERITY_THRESHOLDS.
+export class AlertPreferenceService {
+  static readonly SEVERITY_THRESHOLDS: Record<HazardType, number> = {
+    earthquake: 4.0,
+    flood: 5.0,
+    storm: 6.0,
+    fire: 5.5,
+    aqi: 6.0 // AQI > 100 (Unhealthy for Sensitive Groups)
+  };
+
+  // Lowest min_severity a subscriber can choose; events below it never alert
+  static readonly MIN_SEVERITY_FLOOR = 2.0;
+
+  static defaults(): AlertPreferences {
+    return {
+      hazard_types: [...HAZARD_TYPES],
+      min_severity: { ...this.SEVERITY_THRESHOLDS },
+      aqi_min_category: null
+    };
+  }
+
+  // Stored preferences with defaults filled in for anything unset
+  static resolve(stored?: Partial<AlertPreferences> | null): AlertPreferences {
+    const defaults = this.defaults();
+    if (!stored) return defaults;
+
+    const minSeverity = { ...defaults.min_severity };
+    for (const type of HAZARD_TYPES) {
+      const value = stored.min_severity?.[type];
+      if (typeof value === 'number') minSeverity[type] = value;
+    }
+
+    return {
+      hazard_types: stored.hazard_types?.length ? [...stored.hazard_types] : defaults.hazard_types,
+      min_severity: minSeverity,
+      aqi_min_category: stored.aqi_min_category ?? null
+    };
+  }
+
+  // Validates a partial update from the API and merges it onto the current preferences
+  static merge(current: Partial<AlertPreferences> | null | undefined, input: any): AlertPreferences {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new PreferenceValidationError('preferences must be an object');
+    }
+
+    const merged = this.resolve(current);
+
+    if (input.hazard_types !== undefined) {
+      if (!Array.isArray(input.hazard_types) || input.hazard_types.length === 0) {
+        throw new PreferenceValidationError('preferences.hazard_types must be a non-empty array');
+      }
+      const unknown = input.hazard_types.filter((type: any) => !HAZARD_TYPES.includes(type));
+      if (unknown.length > 0) {
+        throw new PreferenceValidationError(`Unknown hazard types: ${unknown.join(', ')} (supported: ${HAZARD_TYPES.join(', ')})`);
+      }
+      merged.hazard_types = [...new Set<HazardType>(input.hazard_types)];
+    }
+
+    if (input.min_severity !== undefined) {
+      if (typeof input.min_severity !== 'object' || input.min_severity === null) {
+        throw new PreferenceValidationError('preferences.min_severity must be an object keyed by hazard type');
+      }
+      for (const [type, value] of Object.entries(input.min_severity)) {
+        if (!HAZARD_TYPES.includes(type as HazardType)) {
+          throw new PreferenceValidationError(`Unknown hazard type in min_severity: ${type}`);
+        }
+        if (typeof value !== 'number' || value < this.MIN_SEVERITY_FLOOR || value > 10) {
+          throw new PreferenceValidationError(`min_severity.${type} must be a number between ${this.MIN_SEVERITY_FLOOR} and 10`);
+        }
+        merged.min_severity[type as HazardType] = value;
+      }
+    }
+
+    if (input.aqi_min_category !== undefined) {
+      if (input.aqi_min_category !== null && !AQI_CATEGORIES.includes(input.aqi_min_category)) {
+        throw new PreferenceValidationError(`preferences.aqi_min_category must be one of: ${AQI_CATEGORIES.join(', ')}`);
+      }
+      merged.aqi_min_category = input.aqi_min_category;
+    }
+
+    return merged;
+  }
+
+  // Subscription query conditions for subscribers who want this event. Older
+  // subscriptions without stored preferences are matched against the defaults.
+  static buildMatchQuery(event: any): any {
+    const type = event.type as HazardType;
+    const conditions: any[] = [];
+
+    conditions.push({
+      $or: [
+        { 'preferences.hazard_types': { $exists: false } },
+        { 'preferences.hazard_types': { $size: 0 } },
+        { 'preferences.hazard_types': type }
+      ]
+    });
+
+    const severityField = `preferences.min_severity.${type}`;
+    const defaultThreshold = this.SEVERITY_THRESHOLDS[type] ?? 4.0;
+    conditions.push(event.severity >= defaultThreshold
+      ? { $or: [{ [severityField]: null }, { [severityField]: { $lte: event.severity } }] }
+      : { [severityField]: { $lte: event.severity } });
+
+    if (type === 'aqi') {
+      const rank = AQI_CATEGORIES.indexOf(event.properties?.aqi_category as AqiCategory);
+      // Unknown categories only reach subscribers without a category threshold
+      conditions.push({ 'preferences.aqi_min_category': { $in: [null, ...AQI_CATEGORIES.slice(0, rank + 1)] } });
+    }
+
+    return { $and: conditions };
+  }
+}
@@ -0,0 +1,238 @@
+jest.mock('../server', () => ({ io: { to: jest.fn(() => ({ emit: jest.fn() })), emit: jest.fn() } }));
+jest.mock('node-fetch', () => jest.fn());
+
+import { AlertQueueService } from './AlertQueueService';
+import { EmailService } from './EmailService';
+import { AlertJob } from '../models/AlertJob';
+import { AlertDelivery } from '../models/AlertDelivery';
+import { AlertNotification } from '../models/AlertNotification';
+import { Subscription } from '../models/Subscription';
+import { Event } from '../models/Event';
+import { HeldAlert } from '../models/HeldAlert';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+const MINUTE = 60 * 1000;
+
+const at = (offsetMs: number) => new Date(NOW.getTime() + offsetMs);
+
+const job = (fields: any = {}) => ({
+  _id: 'job-1',
+  delivery_id: 'delivery-1',
+  alert_id: 'alert-1',
+  kind: 'alert',
+  event_id: 'event-1',
+  subscription_id: 'sub-1',
+  channel: 'email',
+  content: { title: 'M5.2 Earthquake near Ranau', body: 'Strong shaking.', action: 'Stay alert for aftershocks' },
+  status: 'pending',
+  attempts: 0,
+  max_attempts: 5,
+  run_at: NOW,
+  ...fields
+});
+
+const smtpError = (message: string, responseCode?: number) => Object.assign(new Error(message), { responseCode });
+
+describe('AlertQueueService', () => {
+  let jobs: MemoryCollection;
+  let deliveries: MemoryCollection;
+  let notifications: MemoryCollection;
+
+  // One poll of the worker, waiting until the jobs it claimed have been processed
+  const runOnce = async () => {
+    AlertQueueService.start();
+    AlertQueueService.stop();
+    for (let i = 0; i < 20; i++) await new Promise(resolve => setImmediate(resolve));
+  };
+
+  const seed = (...jobFields: any[]) => {
+    jobs = memoryModel(AlertJob, jobFields.map(job));
+    deliveries = memoryModel(AlertDelivery, jobFields.map(fields => ({
+      _id: fields.delivery_id ?? 'delivery-1',
+      alert_id: 'alert-1',
+      event_id: 'event-1',
+      subscription_id: 'sub-1',
+      channel: 'email',
+      recipient: 'user@example.com',
+      event_type: 'earthquake',
+      event_severity: 5.2,
+      title: 'M5.2 Earthquake near Ranau'
+    })));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    memoryModel(Subscription, [{
+      _id: 'sub-1',
+      email: 'user@example.com',
+      channels: ['email'],
+      location: { type: 'Point', coordinates: [116.2, 5.98] },
+      verification: { email: { status: 'verified' } }
+    }]);
+    memoryModel(Event, [{
+      _id: 'event-1',
+      source: 'usgs',
+      type: 'earthquake',
+      severity: 5.2,
+      geometry: { type: 'Point', coordinates: [116.2, 5.98] },
+      area_bbox: [116, 5.8, 116.4, 6.2],
+      starts_at: NOW,
+      properties: { place: 'Ranau' }
+    }]);
+    memoryModel(HeldAlert);
+    notifications = memoryModel(AlertNotification, [{
+      _id: 'event-1:sub-1',
+      event_id: 'event-1',
+      subscription_id: 'sub-1',
+      notified_severity: 5.2,
+      notified_at: NOW,
+      last_alert_id: 'alert-1',
+      notification_count: 1
+    }]);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('sending', () => {
+    it('completes the job and records the delivery', async () => {
+      seed({});
+      jest.spyOn(EmailService, 'send').mockResolvedValue({ messageId: 'm-1', response: '250 OK', accepted: ['user@example.com'] } as any);
+
+      await runOnce();
+
+      expect(EmailService.send).toHaveBeenCalledWith('user@example.com', expect.objectContaining({ subject: expect.stringContaining('M5.2') }));
+      expect(jobs.get('job-1')).toMatchObject({ status: 'completed', attempts: 1, completed_at: NOW });
+      expect(jobs.get('job-1').locked_by).toBeUndefined();
+      expect(deliveries.get('delivery-1')).toMatchObject({ status: 'sent', attempts: 1, provider_message_id: 'm-1' });
+    });
+
+    it('leaves jobs that are not due yet', async () => {
+      seed({ run_at: at(MINUTE) });
+      jest.spyOn(EmailService, 'send');
+
+      await runOnce();
+
+      expect(EmailService.send).not.toHaveBeenCalled();
+      expect(jobs.get('job-1')).toMatchObject({ status: 'pending', attempts: 0 });
+    });
+  });
+
+  describe('leases', () => {
+    it('leases a job to this instance for two minutes while it is sent', async () => {
+      seed({});
+      let finishSend: (value: any) => void = () => undefined;
+      jest.spyOn(EmailService, 'send').mockReturnValue(new Promise(resolve => { finishSend = resolve; }));
+
+      await runOnce();
+      expect(jobs.get('job-1')).toMatchObject({ status: 'running', attempts: 1, locked_until: at(2 * MINUTE) });
+
+      finishSend({ messageId: 'm-1', response: '250 OK', accepted: [] });
+      await runOnce();
+      expect(jobs.get('job-1').status).toBe('completed');
+    });
+
+    it('takes over a running job whose lease expired', async () => {
+      seed({ status: 'running', attempts: 1, locked_by: 'crashed-host', locked_until: at(-1) });
+      jest.spyOn(EmailService, 'send').mockResolvedValue({ messageId: 'm-1', response: '250 OK', accepted: [] } as any);
+
+      await runOnce();
+
+      expect(EmailService.send).toHaveBeenCalledTimes(1);
+      expect(jobs.get('job-1')).toMatchObject({ status: 'completed', attempts: 2 });
+    });
+
+    it('leaves a running job with a live lease to its worker', async () => {
+      seed({ status: 'running', attempts: 1, locked_by: 'other-host', locked_until: at(MINUTE) });
+      jest.spyOn(EmailService, 'send');
+
+      await runOnce();
+
+      expect(EmailService.send).not.toHaveBeenCalled();
+      expect(jobs.get('job-1')).toMatchObject({ status: 'running', attempts: 1, locked_by: 'other-host' });
+    });
+  });
+
+  describe('retries', () => {
+    it.each([
+      [1, 30 * 1000],
+      [2, MINUTE],
+      [4, 4 * MINUTE],
+      [20, 60 * MINUTE]
+    ])('schedules attempt %i again after %i ms', async (attempt, delayMs) => {
+      seed({ attempts: attempt - 1, max_attempts: 25 });
+      jest.spyOn(EmailService, 'send').mockRejectedValue(smtpError('Connection timeout'));
+
+      await runOnce();
+
+      expect(jobs.get('job-1')).toMatchObject({ status: 'pending', attempts: attempt, run_at: at(delayMs), last_error: 'Connection timeout' });
+      expect(jobs.get('job-1').locked_by).toBeUndefined();
+      expect(deliveries.get('delivery-1')).toMatchObject({ status: 'queued', attempts: attempt, error: 'Connection timeout' });
+    });
+
+    it('adds up to 10% jitter', async () => {
+      seed({});
+      (Math.random as jest.Mock).mockReturnValue(1);
+      jest.spyOn(EmailService, 'send').mockRejectedValue(smtpError('Connection timeout'));
+
+      await runOnce();
+
+      expect(jobs.get('job-1').run_at).toEqual(at(33 * 1000));
+    });
+
+    it('sends the job again once the backoff has passed', async () => {
+      seed({});
+      jest.spyOn(EmailService, 'send')
+        .mockRejectedValueOnce(smtpError('Connection timeout'))
+        .mockResolvedValueOnce({ messageId: 'm-2', response: '250 OK', accepted: [] } as any);
+
+      await runOnce();
+      jest.setSystemTime(at(30 * 1000));
+      await runOnce();
+
+      expect(jobs.get('job-1')).toMatchObject({ status: 'completed', attempts: 2 });
+      expect(deliveries.get('delivery-1')).toMatchObject({ status: 'sent', attempts: 2 });
+      expect(deliveries.get('delivery-1').error).toBeUndefined();
+    });
+  });
+
+  describe('dead letters', () => {
+    it('dead-letters the job after its last attempt and gives up the notification claim', async () => {
+      seed({ attempts: 4 });
+      jest.spyOn(EmailService, 'send').mockRejectedValue(smtpError('Connection timeout'));
+
+      await runOnce();
+
+      expect(jobs.get('job-1')).toMatchObject({ status: 'dead', attempts: 5, dead_at: NOW });
+      expect(deliveries.get('delivery-1')).toMatchObject({ status: 'failed', attempts: 5, error: 'Connection timeout' });
+      expect(notifications.get('event-1:sub-1').notified_at).toBeUndefined();
+    });
+
+    it('dead-letters permanent SMTP failures right away', async () => {
+      seed({});
+      jest.spyOn(EmailService, 'send').mockRejectedValue(smtpError('550 mailbox unavailable', 550));
+
+      await runOnce();
+
+      expect(jobs.get('job-1')).toMatchObject({ status: 'dead', attempts: 1 });
+      expect(deliveries.get('delivery-1')).toMatchObject({ status: 'failed', error: '550 mailbox unavailable' });
+    });
+
+    it('keeps the notification claim while another channel of the alert is still queued', async () => {
+      seed({ attempts: 4 }, { _id: 'job-2', delivery_id: 'delivery-2', run_at: at(MINUTE) });
+      jest.spyOn(EmailService, 'send').mockRejectedValue(smtpError('Connection timeout'));
+
+      await runOnce();
+
+      expect(jobs.get('job-1').status).toBe('dead');
+      expect(notifications.get('event-1:sub-1')).toMatchObject({ notified_at: NOW, last_alert_id: 'alert-1' });
+    });
+  });
+});
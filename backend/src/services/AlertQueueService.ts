@@ -0,0 +1,569 @@
+import os from 'os';
+import webpush from 'web-push';
+import { v4 as uuidv4 } from 'uuid';
+import { AlertJob, IAlertJob } from '../models/AlertJob';
+import { AlertDelivery, AlertChannel } from '../models/AlertDelivery';
+import { Subscription } from '../models/Subscription';
+import { Event } from '../models/Event';
+import { HeldAlert } from '../models/HeldAlert';
+import { EmailService } from './EmailService';
+import { EmailTemplates } from './EmailTemplates';
+import { SmsService } from './SmsService';
+import { AlertSummaryService, AlertSummary } from './AlertSummaryService';
+import { QuietHoursService } from './QuietHoursService';
+import { ContactVerificationService } from './ContactVerificationService';
+import { AlertNotificationService } from './AlertNotificationService';
+import { UnsubscribeService } from './UnsubscribeService';
+import { AlertContent } from './AlertService';
+import { io } from '../server';
+
+interface ChannelResult {
+  provider_message_id?: string;
+  provider_status?: string;
+  provider_response?: any;
+}
+
+export interface DeadLetterFilter {
+  channel?: string;
+  event_id?: string;
+  subscription_id?: string;
+  since?: Date;
+}
+
+// Durable alert fan-out. Every channel of every alert becomes an AlertJob that workers
+// claim with a lease, so a large event is sent at a bounded rate per channel and survives
+// restarts. Failed sends are retried with exponential backoff; jobs that exhaust their
+// attempts are dead-lettered until an admin replays them.
+export class AlertQueueService {
+  private static readonly POLL_MS = Number(process.env.ALERT_QUEUE_POLL_MS) || 2000;
+  private static readonly LEASE_MS = Number(process.env.ALERT_QUEUE_LEASE_MS) || 2 * 60 * 1000;
+  private static readonly MAX_ATTEMPTS = Number(process.env.ALERT_QUEUE_MAX_ATTEMPTS) || 5;
+  private static readonly RETRY_BASE_MS = Number(process.env.ALERT_QUEUE_RETRY_BASE_MS) || 30 * 1000;
+  private static readonly RETRY_MAX_MS = 60 * 60 * 1000;
+  private static readonly INSTANCE_ID = `${os.hostname()}-${process.pid}`;
+
+  // Parallel sends per channel and instance; SMS providers throttle far earlier than push services
+  private static readonly CONCURRENCY: Record<AlertChannel, number> = {
+    webpush: Number(process.env.ALERT_QUEUE_CONCURRENCY_WEBPUSH) || 20,
+    email: Number(process.env.ALERT_QUEUE_CONCURRENCY_EMAIL) || 5,
+    sms: Number(process.env.ALERT_QUEUE_CONCURRENCY_SMS) || 2
+  };
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static polling = false;
+  private static active: Record<AlertChannel, number> = { webpush: 0, email: 0, sms: 0 };
+
+  static start(): void {
+    if (this.timer) return;
+
+    console.log(`📨 Alert queue started (concurrency: ${Object.entries(this.CONCURRENCY).map(([c, n]) => `${c}=${n}`).join(', ')})`);
+
+    this.tick().catch(console.error);
+    this.timer = setInterval(() => {
+      this.tick().catch(console.error);
+    }, this.POLL_MS);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queues one job per usable channel, each with a 'queued' AlertDelivery.
+  // Returns the number of channels queued.
+  static async enqueue(alertId: string, subscription: any, event: any, content: AlertContent, distanceKm?: number, areaName?: string): Promise<number> {
+    return this.createJobs(subscription, content, {
+      alert_id: alertId,
+      kind: 'alert',
+      event_id: event._id,
+      event_type: event.type,
+      event_severity: event.severity,
+      distance_km: distanceKm,
+      area_name: areaName
+    });
+  }
+
+  // Queues a summary of released HeldAlerts; the most severe event stands in for the set.
+  // channels narrows the subscriber's channels, e.g. digests skip SMS.
+  static async enqueueSummary(summaryId: string, subscription: any, summary: AlertSummary, channels?: AlertChannel[]): Promise<number> {
+    const top = summary.items[0];
+
+    return this.createJobs(subscription, summary.content, {
+      alert_id: `summary-${summaryId}`,
+      kind: 'summary',
+      summary_id: summaryId,
+      event_id: top.event_id,
+      event_ids: summary.items.map(item => item.event_id),
+      event_type: top.event_type,
+      event_severity: top.severity
+    }, channels);
+  }
+
+  static async getStats(): Promise<any> {
+    const counts = await AlertJob.aggregate([
+      { $group: { _id: { channel: '$channel', status: '$status' }, count: { $sum: 1 } } }
+    ]);
+
+    const channels: Record<string, Record<string, number>> = {};
+    for (const { _id, count } of counts) {
+      channels[_id.channel] = { ...channels[_id.channel], [_id.status]: count };
+    }
+
+    return {
+      channels,
+      concurrency: this.CONCURRENCY,
+      active_on_instance: { ...this.active },
+      max_attempts: this.MAX_ATTEMPTS
+    };
+  }
+
+  static buildDeadLetterQuery(filter: DeadLetterFilter): any {
+    const query: any = { status: 'dead' };
+
+    if (filter.channel) query.channel = filter.channel;
+    if (filter.event_id) query.event_id = filter.event_id;
+    if (filter.subscription_id) query.subscription_id = filter.subscription_id;
+    if (filter.since) query.dead_at = { $gte: filter.since };
+
+    return query;
+  }
+
+  // Gives dead-lettered jobs a fresh set of attempts. Returns the number requeued.
+  static async replay(filter: DeadLetterFilter & { job_id?: string }): Promise<number> {
+    const query = this.buildDeadLetterQuery(filter);
+    if (filter.job_id) query._id = filter.job_id;
+
+    const jobs = await AlertJob.find(query, { delivery_id: 1 }).lean();
+    if (jobs.length === 0) return 0;
+
+    const now = new Date();
+    const result = await AlertJob.updateMany(
+      { _id: { $in: jobs.map(job => job._id) }, status: 'dead' },
+      {
+        $set: { status: 'pending', attempts: 0, run_at: now, updated_at: now },
+        $unset: { dead_at: '', locked_by: '', locked_until: '' },
+        $inc: { replay_count: 1 }
+      }
+    );
+
+    await AlertDelivery.updateMany(
+      { _id: { $in: jobs.map(job => job.delivery_id) } },
+      { $set: { status: 'queued', updated_at: now } }
+    );
+
+    if (this.timer) this.tick().catch(console.error);
+
+    return result.modifiedCount;
+  }
+
+  private static async createJobs(
+    subscription: any,
+    content: AlertContent,
+    fields: {
+      alert_id: string;
+      kind: 'alert' | 'summary';
+      summary_id?: string;
+      event_id: string;
+      event_ids?: string[];
+      event_type: string;
+      event_severity: number;
+      distance_km?: number;
+      area_name?: string;
+    },
+    channels?: AlertChannel[]
+  ): Promise<number> {
+    const targets = this.getTargets(subscription).filter(target => !channels || channels.includes(target.channel));
+    if (targets.length === 0) return 0;
+
+    const now = new Date();
+    const deliveries: any[] = [];
+    const jobs: any[] = [];
+
+    for (const { channel, recipient } of targets) {
+      const deliveryId = uuidv4();
+
+      deliveries.push({
+        _id: deliveryId,
+        alert_id: fields.alert_id,
+        kind: fields.kind,
+        event_id: fields.event_id,
+        event_ids: fields.event_ids,
+        subscription_id: subscription._id,
+        channel,
+        recipient,
+        event_type: fields.event_type,
+        event_severity: fields.event_severity,
+        distance_km: fields.distance_km,
+        area_name: fields.area_name,
+        title: content.title,
+        status: 'queued',
+        attempts: 0,
+        created_at: now,
+        updated_at: now
+      });
+
+      jobs.push({
+        _id: uuidv4(),
+        delivery_id: deliveryId,
+        alert_id: fields.alert_id,
+        kind: fields.kind,
+        event_id: fields.event_id,
+        summary_id: fields.summary_id,
+        subscription_id: subscription._id,
+        channel,
+        content: { title: content.title, body: content.body, action: content.action },
+        status: 'pending',
+        max_attempts: this.MAX_ATTEMPTS,
+        run_at: now,
+        created_at: now,
+        updated_at: now
+      });
+    }
+
+    await AlertDelivery.insertMany(deliveries);
+    try {
+      await AlertJob.insertMany(jobs);
+    } catch (error) {
+      // Without their jobs the deliveries would show as queued forever
+      await AlertJob.deleteMany({ _id: { $in: jobs.map(job => job._id) } }).catch(console.error);
+      await AlertDelivery.deleteMany({ _id: { $in: deliveries.map(delivery => delivery._id) } }).catch(console.error);
+      throw error;
+    }
+
+    // Start sending right away instead of waiting for the next poll
+    if (this.timer) this.tick().catch(console.error);
+
+    return jobs.length;
+  }
+
+  private static getTargets(subscription: any): { channel: AlertChannel; recipient?: string }[] {
+    const targets: { channel: AlertChannel; recipient?: string }[] = [];
+
+    if (subscription.channels.includes('webpush') && subscription.push && !subscription.push.expired_at) {
+      targets.push({ channel: 'webpush' });
+    }
+    if (subscription.channels.includes('email') && subscription.email && ContactVerificationService.isVerified(subscription, 'email')) {
+      targets.push({ channel: 'email', recipient: subscription.email });
+    }
+    if (subscription.channels.includes('sms') && subscription.phone && ContactVerificationService.isVerified(subscription, 'phone')) {
+      targets.push({ channel: 'sms', recipient: subscription.phone });
+    }
+
+    return targets;
+  }
+
+  // Fills free worker slots for every channel
+  private static async tick(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const channel of Object.keys(this.CONCURRENCY) as AlertChannel[]) {
+        while (this.active[channel] < this.CONCURRENCY[channel]) {
+          const job = await this.claim(channel);
+          if (!job) break;
+
+          this.active[channel]++;
+          this.process(job)
+            .catch(error => console.error(`Alert job ${job._id} crashed:`, error))
+            .finally(() => {
+              this.active[channel]--;
+            });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Takes the oldest due job, or one whose worker died and let its lease run out
+  private static async claim(channel: AlertChannel): Promise<IAlertJob | null> {
+    const now = new Date();
+
+    return AlertJob.findOneAndUpdate(
+      {
+        channel,
+        $or: [
+          { status: 'pending', run_at: { $lte: now } },
+          { status: 'running', locked_until: { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          status: 'running',
+          locked_by: this.INSTANCE_ID,
+          locked_until: new Date(now.getTime() + this.LEASE_MS),
+          updated_at: now
+        },
+        $inc: { attempts: 1 }
+      },
+      { sort: { run_at: 1 }, new: true }
+    );
+  }
+
+  private static async process(job: IAlertJob): Promise<void> {
+    const summaryOnly = job.kind === 'summary';
+    const [subscription, event, held] = await Promise.all([
+      Subscription.findById(job.subscription_id),
+      summaryOnly ? null : Event.findById(job.event_id).lean(),
+      summaryOnly ? HeldAlert.find({ summary_id: job.summary_id }).lean() : []
+    ]);
+
+    // Nothing to retry when the subscriber or channel is gone
+    if (!subscription || !subscription.channels.includes(job.channel)) {
+      return this.finish(job, 'failed', { error: 'Subscription or channel removed before delivery' });
+    }
+    if (!ContactVerificationService.allowsChannel(subscription, job.channel)) {
+      return this.finish(job, 'failed', { error: 'Contact changed and is not verified yet' });
+    }
+    if (!summaryOnly && !event) {
+      return this.finish(job, 'failed', { error: 'Event no longer exists' });
+    }
+    if (summaryOnly && held.length === 0) {
+      return this.finish(job, 'failed', { error: 'Summarized alerts no longer exist' });
+    }
+
+    try {
+      const result = summaryOnly
+        ? await this.sendSummary(job, subscription, AlertSummaryService.build(held[0].reason, held))
+        : await this.send(job, subscription, event);
+      return this.finish(job, 'sent', result);
+    } catch (error: any) {
+      console.error(`Failed to send ${job.channel} alert to subscription ${job.subscription_id} (attempt ${job.attempts}/${job.max_attempts}):`, error?.message || error);
+
+      const outcome: any = { error: error?.message || 'Unknown error' };
+      if (error?.statusCode) {
+        outcome.provider_response = { status_code: error.statusCode, body: error.body };
+      }
+
+      // Push services answer 404/410 once the browser has dropped the subscription
+      if (error?.statusCode === 404 || error?.statusCode === 410) {
+        if (job.channel === 'webpush') await this.expirePushEndpoint(subscription);
+        return this.finish(job, 'expired', outcome);
+      }
+
+      // SMTP 5xx replies are permanent, retrying cannot succeed
+      const permanent = error?.responseCode >= 500;
+      if (permanent || job.attempts >= job.max_attempts) {
+        return this.deadLetter(job, outcome);
+      }
+
+      return this.retry(job, outcome);
+    }
+  }
+
+  private static async send(job: IAlertJob, subscription: any, event: any): Promise<ChannelResult> {
+    const content: AlertContent = job.content;
+
+    switch (job.channel) {
+      case 'webpush': {
+        const result = await this.sendWebPush(subscription.push, content, event);
+
+        // Also send to WebSocket if connected
+        io.to(`alerts:${subscription._id}`).emit('alert', {
+          id: job.alert_id,
+          type: event.type,
+          severity: event.severity,
+          title: content.title,
+          body: content.body,
+          action: content.action,
+          location: event.geometry.coordinates,
+          timestamp: new Date().toISOString()
+        });
+
+        return { provider_response: { status_code: result.statusCode } };
+      }
+
+      case 'email': {
+        const message = EmailTemplates.renderAlert(event, content, subscription.language, UnsubscribeService.buildUrl(subscription._id, 'email'));
+        const result = await EmailService.send(subscription.email, message);
+
+        return {
+          provider_message_id: result.messageId,
+          provider_response: { response: result.response, accepted: result.accepted }
+        };
+      }
+
+      case 'sms': {
+        const link = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/?event=${encodeURIComponent(event._id)}`;
+        const body = SmsService.condense(content, link, UnsubscribeService.SMS_OPT_OUT_NOTICE);
+        const result = await SmsService.send(subscription.phone, body);
+
+        return {
+          provider_message_id: result.messageId,
+          provider_status: result.status,
+          provider_response: { ...result.response, segments: SmsService.measure(body).segments }
+        };
+      }
+    }
+  }
+
+  private static async sendSummary(job: IAlertJob, subscription: any, summary: AlertSummary): Promise<ChannelResult> {
+    const link = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/alerts`;
+
+    switch (job.channel) {
+      case 'webpush': {
+        const result = await webpush.sendNotification(subscription.push, JSON.stringify({
+          title: job.content.title,
+          body: job.content.body,
+          icon: '/icons/alert-icon.png',
+          badge: '/icons/badge-icon.png',
+          tag: 'ecoguard-summary',
+          data: { action: job.content.action, url: '/alerts' }
+        }));
+
+        io.to(`alerts:${subscription._id}`).emit('alert', {
+          id: job.alert_id,
+          type: 'summary',
+          severity: summary.items[0].severity,
+          title: job.content.title,
+          body: job.content.body,
+          action: job.content.action,
+          timestamp: new Date().toISOString()
+        });
+
+        return { provider_response: { status_code: result.statusCode } };
+      }
+
+      case 'email': {
+        const message = EmailTemplates.renderSummary(summary, subscription.language, UnsubscribeService.buildUrl(subscription._id, 'email'));
+        const result = await EmailService.send(subscription.email, message);
+
+        return {
+          provider_message_id: result.messageId,
+          provider_response: { response: result.response, accepted: result.accepted }
+        };
+      }
+
+      case 'sms': {
+        const body = SmsService.condense(job.content, link, UnsubscribeService.SMS_OPT_OUT_NOTICE);
+        const result = await SmsService.send(subscription.phone, body);
+
+        return {
+          provider_message_id: result.messageId,
+          provider_status: result.status,
+          provider_response: { ...result.response, segments: SmsService.measure(body).segments }
+        };
+      }
+    }
+  }
+
+  private static async sendWebPush(pushSubscription: any, content: AlertContent, event: any): Promise<webpush.SendResult> {
+    const payload = JSON.stringify({
+      title: content.title,
+      body: content.body,
+      icon: '/icons/alert-icon.png',
+      badge: '/icons/badge-icon.png',
+      tag: `ecoguard-${event.type}`,
+      data: {
+        eventId: event._id,
+        eventType: event.type,
+        severity: event.severity,
+        action: content.action,
+        url: `/?event=${event._id}`
+      },
+      actions: [
+        {
+          action: 'view',
+          title: 'View Details'
+        },
+        {
+          action: 'dismiss',
+          title: 'Dismiss'
+        }
+      ],
+      requireInteraction: event.severity >= QuietHoursService.URGENT_SEVERITY
+    });
+
+    return webpush.sendNotification(pushSubscription, payload);
+  }
+
+  // Stops sending to the endpoint; matching on it keeps a re-subscription made meanwhile intact
+  private static async expirePushEndpoint(subscription: any): Promise<void> {
+    await Subscription.updateOne(
+      { _id: subscription._id, 'push.endpoint': subscription.push.endpoint },
+      { $set: { 'push.expired_at': new Date() }, $pull: { channels: 'webpush' } }
+    ).catch(error => console.error(`Failed to expire push endpoint of subscription ${subscription._id}:`, error));
+
+    console.log(`Push endpoint of subscription ${subscription._id} expired; webpush channel removed`);
+  }
+
+  private static async finish(job: IAlertJob, status: 'sent' | 'failed' | 'expired', outcome: any): Promise<void> {
+    const now = new Date();
+
+    const { modifiedCount } = await AlertJob.updateOne(
+      { _id: job._id, locked_by: this.INSTANCE_ID },
+      {
+        $set: { status: 'completed', completed_at: now, updated_at: now, ...(outcome.error && { last_error: outcome.error }) },
+        $unset: { locked_by: '', locked_until: '' }
+      }
+    );
+    // The lease expired and another worker took over the job
+    if (modifiedCount === 0) return;
+
+    await this.updateDelivery(job, { ...outcome, status }, now);
+    if (status !== 'sent') await this.releaseIfUndelivered(job);
+  }
+
+  private static async retry(job: IAlertJob, outcome: any): Promise<void> {
+    const now = new Date();
+    const backoffMs = Math.min(this.RETRY_MAX_MS, this.RETRY_BASE_MS * 2 ** (job.attempts - 1));
+    const jitterMs = Math.round(Math.random() * backoffMs * 0.1);
+
+    const { modifiedCount } = await AlertJob.updateOne(
+      { _id: job._id, locked_by: this.INSTANCE_ID },
+      {
+        $set: { status: 'pending', run_at: new Date(now.getTime() + backoffMs + jitterMs), last_error: outcome.error, updated_at: now },
+        $unset: { locked_by: '', locked_until: '' }
+      }
+    );
+    if (modifiedCount === 0) return;
+
+    await this.updateDelivery(job, outcome, now);
+  }
+
+  private static async deadLetter(job: IAlertJob, outcome: any): Promise<void> {
+    const now = new Date();
+
+    const { modifiedCount } = await AlertJob.updateOne(
+      { _id: job._id, locked_by: this.INSTANCE_ID },
+      {
+        $set: { status: 'dead', dead_at: now, last_error: outcome.error, updated_at: now },
+        $unset: { locked_by: '', locked_until: '' }
+      }
+    );
+    if (modifiedCount === 0) return;
+
+    console.warn(`Alert job ${job._id} (${job.channel}) dead-lettered after ${job.attempts} attempts: ${outcome.error}`);
+    await this.updateDelivery(job, { ...outcome, status: 'failed' }, now);
+    await this.releaseIfUndelivered(job);
+  }
+
+  // An alert that reached the subscriber on no channel gives up its notification claim,
+  // so processing the event again can still alert them
+  private static async releaseIfUndelivered(job: IAlertJob): Promise<void> {
+    if (job.kind !== 'alert') return;
+
+    try {
+      const delivering = await AlertDelivery.exists({ alert_id: job.alert_id, status: { $in: ['queued', 'sent'] } });
+      if (!delivering) {
+        await AlertNotificationService.release(job.event_id, job.subscription_id, job.alert_id);
+      }
+    } catch (error) {
+      console.error(`Failed to release notification claim of alert ${job.alert_id}:`, error);
+    }
+  }
+
+  private static async updateDelivery(job: IAlertJob, outcome: any, attemptedAt: Date): Promise<void> {
+    await AlertDelivery.updateOne(
+      { _id: job.delivery_id },
+      {
+        $set: { ...outcome, attempts: job.attempts, last_attempt_at: attemptedAt, updated_at: attemptedAt },
+        // A success after failed attempts should not keep showing the old error
+        ...(outcome.status === 'sent' && { $unset: { error: '' } })
+      }
+    ).catch(error => console.error(`Failed to update ${job.channel} delivery ${job.delivery_id}:`, error));
+  }
+}
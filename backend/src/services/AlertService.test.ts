@@ -0,0 +1,161 @@
+jest.mock('../server', () => ({ io: { to: jest.fn(() => ({ emit: jest.fn() })), emit: jest.fn() } }));
+jest.mock('node-fetch', () => jest.fn());
+
+import { AlertService } from './AlertService';
+import { Event } from '../models/Event';
+import { Subscription } from '../models/Subscription';
+import { AlertNotification } from '../models/AlertNotification';
+import { AlertDelivery } from '../models/AlertDelivery';
+import { AlertJob } from '../models/AlertJob';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const LNG = 116.2;
+const LAT = 5.98;
+
+// Square bbox of ± radiusKm around the event, as the adapters build it
+const bbox = (radiusKm: number) => {
+  const degrees = radiusKm / 111;
+  return [LNG - degrees, LAT - degrees, LNG + degrees, LAT + degrees];
+};
+
+const subscriber = {
+  _id: 'sub-1',
+  email: 'user@example.com',
+  channels: ['email'],
+  location: { type: 'Point', coordinates: [LNG, LAT] },
+  radius_km: 50,
+  verification: { email: { status: 'verified' } }
+};
+
+const revised = (field: string) => [{ event_id: 'event-1', changes: [{ field, previous: null, current: null }] }];
+
+describe('AlertService', () => {
+  describe('processRevisions', () => {
+    let events: MemoryCollection;
+    let notifications: MemoryCollection;
+    let deliveries: MemoryCollection;
+
+    const seedEvent = (fields: any) => {
+      events = memoryModel(Event, [{
+        _id: 'event-1',
+        source: 'usgs',
+        geometry: { type: 'Point', coordinates: [LNG, LAT] },
+        starts_at: new Date(),
+        properties: { place: 'Ranau, Sabah' },
+        ...fields
+      }]);
+    };
+
+    const revise = async (field: string, fields: any) => {
+      Object.assign(events.documents[0], fields);
+      await AlertService.processRevisions(revised(field));
+    };
+
+    const titles = () => deliveries.matching({}, { sort: { created_at: 1 } }).map(delivery => delivery.title);
+
+    beforeEach(() => {
+      notifications = memoryModel(AlertNotification);
+      deliveries = memoryModel(AlertDelivery);
+      memoryModel(AlertJob);
+      // Geo operators are beyond the in-memory filters; matching the area is still real
+      jest.spyOn(Subscription, 'find').mockResolvedValue([subscriber] as any);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('notifies once cumulative severity growth reaches the threshold', async () => {
+      seedEvent({ type: 'earthquake', severity: 4.6, area_bbox: bbox(40) });
+
+      await AlertService.processRevisions(revised('severity'));
+      await revise('severity', { severity: 5.0 });
+      expect(titles()).toHaveLength(1);
+
+      await revise('severity', { severity: 5.4 });
+
+      expect(titles()).toEqual([
+        'M4.6 Earthquake near Ranau, Sabah',
+        'Upgraded: M5.4 Earthquake near Ranau, Sabah (was M4.6)'
+      ]);
+      expect(notifications.get('event-1:sub-1')).toMatchObject({
+        notified_severity: 5.4,
+        notification_count: 2,
+        suppressions: [expect.objectContaining({ reason: 'escalation_below_threshold', severity: 5.0 })]
+      });
+    });
+
+    it('counts a step of exactly the threshold as an escalation', async () => {
+      seedEvent({ type: 'earthquake', severity: 4.6, area_bbox: bbox(40) });
+
+      await AlertService.processRevisions(revised('severity'));
+      await revise('severity', { severity: 5.1 });
+
+      expect(titles()).toHaveLength(2);
+    });
+
+    it('notifies again when the affected area grows enough', async () => {
+      seedEvent({ source: 'firms', type: 'fire', severity: 6.0, area_bbox: bbox(5), properties: { location_name: 'Ranau' } });
+
+      await AlertService.processRevisions(revised('area_bbox'));
+      await revise('area_bbox', { area_bbox: bbox(5.2) });
+      expect(titles()).toHaveLength(1);
+      expect(notifications.get('event-1:sub-1').last_suppression_reason).toBe('escalation_below_threshold');
+
+      await revise('area_bbox', { area_bbox: bbox(7) });
+
+      expect(titles()).toHaveLength(2);
+      expect(titles()[1]).toBe('Expanded: Wildfire Alert in Ranau');
+    });
+
+    it('suppresses revisions that did not escalate', async () => {
+      seedEvent({ type: 'earthquake', severity: 5.0, area_bbox: bbox(40) });
+
+      await AlertService.processRevisions(revised('severity'));
+      await revise('geometry', { geometry: { type: 'Point', coordinates: [LNG + 0.01, LAT] } });
+      await revise('severity', { severity: 4.8 });
+
+      expect(titles()).toHaveLength(1);
+      expect(notifications.get('event-1:sub-1')).toMatchObject({ notification_count: 1, suppressed_count: 2, last_suppression_reason: 'already_notified' });
+    });
+
+    it('gives the claim back when an escalation cannot be queued', async () => {
+      seedEvent({ type: 'earthquake', severity: 4.6, area_bbox: bbox(40) });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await AlertService.processRevisions(revised('severity'));
+      jest.spyOn(AlertJob, 'insertMany').mockRejectedValueOnce(new Error('connection lost'));
+      await revise('severity', { severity: 5.4 });
+      expect(notifications.get('event-1:sub-1')).toMatchObject({ notified_severity: 4.6, notification_count: 1 });
+
+      await revise('severity', { severity: 5.4 });
+
+      expect(titles()).toEqual([
+        'M4.6 Earthquake near Ranau, Sabah',
+        'Upgraded: M5.4 Earthquake near Ranau, Sabah (was M4.6)'
+      ]);
+    });
+
+    it('sends the first alert once a contact can receive it', async () => {
+      seedEvent({ type: 'earthquake', severity: 5.0, area_bbox: bbox(40) });
+      (Subscription.find as jest.Mock).mockResolvedValue([{ ...subscriber, verification: { email: { status: 'pending' } } }]);
+
+      await AlertService.processRevisions(revised('severity'));
+      expect(titles()).toEqual([]);
+
+      (Subscription.find as jest.Mock).mockResolvedValue([subscriber]);
+      await revise('severity', { severity: 5.1 });
+
+      expect(titles()).toEqual(['M5.1 Earthquake near Ranau, Sabah']);
+    });
+
+    it('ignores revisions of other fields', async () => {
+      seedEvent({ type: 'earthquake', severity: 5.0, area_bbox: bbox(40) });
+
+      await AlertService.processRevisions(revised('properties.mag_type'));
+
+      expect(titles()).toEqual([]);
+    });
+  });
+});
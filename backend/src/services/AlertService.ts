@@ -1,8 +1,17 @@
 import webpush from 'web-push';
 import { Event } from '../models/Event';
 import { Subscription } from '../models/Subscription';
+import { AlertQueueService } from './AlertQueueService';
+import { AlertNotificationService, NotifyDecision } from './AlertNotificationService';
+import { AlertPreferenceService } from './AlertPreferenceService';
+import { QuietHoursService } from './QuietHoursService';
+import { HeldAlertService } from './HeldAlertService';
+import { DigestService } from './DigestService';
+import { SubscriptionAreaService, AreaMatch } from './SubscriptionAreaService';
 import { io } from '../server';
 
+let webPushConfigured = false;
+
 // Configure VAPID keys for web push (skip if invalid for testing)
 if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY && 
     process.env.VAPID_PUBLIC_KEY.length > 20) {
@@ -12,6 +21,7 @@ if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY &&
       process.env.VAPID_PUBLIC_KEY,
       process.env.VAPID_PRIVATE_KEY
     );
+    webPushConfigured = true;
     console.log('✅ Web Push configured');
   } catch (error) {
     console.log('⚠️ Web Push disabled (invalid VAPID keys)');
@@ -20,14 +30,23 @@ if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY &&
   console.log('⚠️ Web Push disabled (no VAPID keys)');
 }
 
+export interface AlertContent {
+  title: string;
+  body: string;
+  action: string;
+}
+
 export class AlertService {
-  private static readonly SEVERITY_THRESHOLDS = {
-    earthquake: 4.0,
-    flood: 5.0,
-    storm: 6.0,
-    fire: 5.5,
-    aqi: 6.0 // AQI > 150 (Unhealthy)
-  };
+  // Subscribers claimed and queued concurrently per event; sending itself is throttled by the queue
+  private static readonly FANOUT_BATCH_SIZE = Number(process.env.ALERT_FANOUT_BATCH_SIZE) || 100;
+
+  // Revisions that can reach new subscribers or escalate an alert
+  private static readonly REVISION_FIELDS = ['severity', 'geometry', 'area_bbox'];
+
+  // Browsers need this key as applicationServerKey to create a PushSubscription
+  static getVapidPublicKey(): string | null {
+    return webPushConfigured ? process.env.VAPID_PUBLIC_KEY! : null;
+  }
 
   static async processNewEvents(eventType?: string): Promise<void> {
     try {
@@ -36,7 +55,8 @@ export class AlertService {
       
       const query: any = {
         ingested_at: { $gte: since },
-        severity: { $gte: 4.0 } // Only process significant events
+        severity: { $gte: AlertPreferenceService.MIN_SEVERITY_FLOOR }, // Subscribers choose their own thresholds above this
+        backfill_job_id: { $exists: false } // Historical backfills never alert
       };
       
       if (eventType) {
@@ -58,7 +78,29 @@ export class AlertService {
     }
   }
 
-  private static async processEventAlerts(event: any): Promise<void> {
+  // React to upstream revisions, e.g. USGS upgrading a magnitude from 4.8 to 6.1 or a fire
+  // spreading. Whether a subscriber hears about it again is decided per subscriber against
+  // the last alert they received (AlertNotificationService.claim), so small steps add up.
+  static async processRevisions(revisions: any[]): Promise<void> {
+    try {
+      for (const revision of revisions) {
+        const relevant = revision.changes.some((change: any) => this.REVISION_FIELDS.includes(change.field));
+        if (!relevant) continue;
+
+        const event = await Event.findById(revision.event_id);
+        if (!event) continue;
+
+        if (event.severity < AlertPreferenceService.MIN_SEVERITY_FLOOR) continue;
+
+        console.log(`Event ${event._id} revised (${revision.changes.map((change: any) => change.field).join(', ')})`);
+        await this.processEventAlerts(event, revision);
+      }
+    } catch (error) {
+      console.error('Error processing event revisions for alerts:', error);
+    }
+  }
+
+  private static async processEventAlerts(event: any, revision?: any): Promise<void> {
     try {
       // Find subscriptions within the event's impact area
       const affectedSubscriptions = await this.findAffectedSubscriptions(event);
@@ -67,25 +109,32 @@ export class AlertService {
 
       console.log(`Event ${event._id} affects ${affectedSubscriptions.length} subscriptions`);
 
-      // Generate alert content
-      const alertContent = this.generateAlertContent(event);
+      // Subscribers are handled in fixed-size batches so a large event does not fire
+      // thousands of claims and queue writes at Mongo at once
+      let notified = 0;
+      for (let i = 0; i < affectedSubscriptions.length; i += this.FANOUT_BATCH_SIZE) {
+        const batch = affectedSubscriptions.slice(i, i + this.FANOUT_BATCH_SIZE);
+        const outcomes = await Promise.allSettled(batch.map(match => this.notifySubscriber(event, match)));
+
+        notified += outcomes.filter(outcome => outcome.status === 'fulfilled' && outcome.value).length;
+        outcomes
+          .filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+          .forEach(outcome => console.error(`Alert dispatch failed for event ${event._id}:`, outcome.reason));
+      }
 
-      // Send alerts through all channels
-      const alertPromises = affectedSubscriptions.map(subscription => 
-        this.sendAlert(subscription, event, alertContent)
-      );
+      console.log(`Event ${event._id}: ${notified} notified, ${affectedSubscriptions.length - notified} suppressed or failed`);
 
-      await Promise.allSettled(alertPromises);
+      if (notified === 0) return;
 
       // Broadcast to WebSocket clients
       io.emit('events:global', {
-        type: 'new_event',
+        type: revision ? 'event_escalated' : 'new_event',
         event: {
           id: event._id,
           type: event.type,
           severity: event.severity,
           location: event.geometry.coordinates,
-          message: alertContent.title
+          message: this.generateAlertContent(event).title
         }
       });
 
@@ -94,21 +143,44 @@ export class AlertService {
     }
   }
 
-  private static async findAffectedSubscriptions(event: any): Promise<any[]> {
-    // Use MongoDB geospatial query to find subscriptions within impact area
-    const [minLng, minLat, maxLng, maxLat] = event.area_bbox;
-    
-    return Subscription.find({
-      location: {
-        $geoWithin: {
-          $box: [[minLng, minLat], [maxLng, maxLat]]
-        }
-      },
-      channels: { $exists: true, $ne: [] }
+  // Each subscriber hears about an event once, and again only on material escalation.
+  // Returns the alert content, or null when the alert was suppressed or had nowhere to go.
+  private static async notifySubscriber(event: any, { subscription, distance_km, area_name }: { subscription: any } & AreaMatch): Promise<AlertContent | null> {
+    const alertId = `alert-${event._id}-${subscription._id}-${Date.now()}`;
+    const decision = await AlertNotificationService.claim(event, subscription._id, alertId);
+    if (!decision.notify) return null;
+
+    // The claim only sticks once the alert is held or queued
+    try {
+      const content = this.generateNotificationContent(event, decision);
+      if (await this.dispatch(alertId, subscription, event, content, distance_km, area_name)) return content;
+    } catch (error) {
+      await AlertNotificationService.release(event._id, subscription._id, alertId).catch(console.error);
+      throw error;
+    }
+
+    await AlertNotificationService.release(event._id, subscription._id, alertId);
+    return null;
+  }
+
+  // Subscribers with an area the event reaches, with the closest such area and its distance
+  private static async findAffectedSubscriptions(event: any): Promise<({ subscription: any } & AreaMatch)[]> {
+    const candidates = await Subscription.find({
+      ...SubscriptionAreaService.buildCandidateQuery(event),
+      channels: { $exists: true, $ne: [] },
+      ...AlertPreferenceService.buildMatchQuery(event)
     });
+
+    const matches: ({ subscription: any } & AreaMatch)[] = [];
+    for (const subscription of candidates) {
+      const match = SubscriptionAreaService.match(event, subscription);
+      if (match) matches.push({ subscription, ...match });
+    }
+
+    return matches;
   }
 
-  private static generateAlertContent(event: any): { title: string; body: string; action: string } {
+  private static generateAlertContent(event: any): AlertContent {
     const severity = event.severity;
     const type = event.type;
     const location = this.getLocationDescription(event);
@@ -159,6 +231,39 @@ export class AlertService {
     return { title, body, action };
   }
 
+  // First alerts use the regular content; repeat alerts explain what changed since the
+  // subscriber's previous alert, not since the last upstream revision
+  private static generateNotificationContent(event: any, decision: NotifyDecision): AlertContent {
+    const content = this.generateAlertContent(event);
+    if (!decision.notify || !decision.previous) return content;
+
+    const previousSeverity = decision.previous.severity;
+    if (event.severity - previousSeverity < AlertNotificationService.ESCALATION_MIN_DELTA) {
+      return {
+        ...content,
+        title: `Expanded: ${content.title}`,
+        body: `The affected area has grown to about ${AlertNotificationService.bboxAreaKm2(event.area_bbox)} km². ${content.body}`
+      };
+    }
+
+    const previous = Number(previousSeverity).toFixed(1);
+    const current = Number(event.severity).toFixed(1);
+
+    if (event.type === 'earthquake') {
+      return {
+        ...content,
+        title: `Upgraded: ${content.title} (was M${previous})`,
+        body: `Magnitude revised from ${previous} to ${current}. ${content.body}`
+      };
+    }
+
+    return {
+      ...content,
+      title: `Escalated: ${content.title}`,
+      body: `Severity revised from ${previous} to ${current}. ${content.body}`
+    };
+  }
+
   private static getLocationDescription(event: any): string {
     if (event.properties.place) return `near ${event.properties.place}`;
     if (event.properties.location_name) return `in ${event.properties.location_name}`;
@@ -194,71 +299,27 @@ export class AlertService {
     return 'Active fire in the area.';
   }
 
-  private static async sendAlert(subscription: any, event: any, content: any): Promise<void> {
-    const alertId = `alert-${event._id}-${subscription._id}-${Date.now()}`;
-
-    try {
-      // Send Web Push notification
-      if (subscription.channels.includes('webpush') && subscription.push) {
-        await this.sendWebPush(subscription.push, content, event);
-        
-        // Also send to WebSocket if connected
-        io.to(`alerts:${subscription._id}`).emit('alert', {
-          id: alertId,
-          type: event.type,
-          severity: event.severity,
-          title: content.title,
-          body: content.body,
-          action: content.action,
-          location: event.geometry.coordinates,
-          timestamp: new Date().toISOString()
-        });
-      }
-
-      // TODO: Add SMS and Email sending here
-      // if (subscription.channels.includes('sms') && subscription.phone) {
-      //   await this.sendSMS(subscription.phone, content);
-      // }
-      
-      // if (subscription.channels.includes('email') && subscription.email) {
-      //   await this.sendEmail(subscription.email, content);
-      // }
-
-      console.log(`Alert sent to subscription ${subscription._id} for event ${event._id}`);
-
-    } catch (error) {
-      console.error(`Failed to send alert to subscription ${subscription._id}:`, error);
+  // Holds the alert for a digest or quiet hours, or queues it. Returns false when no
+  // channel could take it, e.g. while the subscriber's contacts are unverified.
+  private static async dispatch(alertId: string, subscription: any, event: any, content: AlertContent, distanceKm: number, areaName: string): Promise<boolean> {
+    // Digest subscribers get non-urgent alerts in their next digest
+    const digestReason = DigestService.getReason(subscription);
+    if (digestReason && event.severity < QuietHoursService.URGENT_SEVERITY) {
+      const digestAt = DigestService.nextDigestAt(subscription);
+      await HeldAlertService.hold(alertId, subscription, event, content, digestReason, digestAt, distanceKm);
+      return true;
     }
-  }
 
-  private static async sendWebPush(pushSubscription: any, content: any, event: any): Promise<void> {
-    const payload = JSON.stringify({
-      title: content.title,
-      body: content.body,
-      icon: '/icons/alert-icon.png',
-      badge: '/icons/badge-icon.png',
-      tag: `ecoguard-${event.type}`,
-      data: {
-        eventId: event._id,
-        eventType: event.type,
-        severity: event.severity,
-        action: content.action,
-        url: `/?event=${event._id}`
-      },
-      actions: [
-        {
-          action: 'view',
-          title: 'View Details'
-        },
-        {
-          action: 'dismiss',
-          title: 'Dismiss'
-        }
-      ],
-      requireInteraction: event.severity >= 7.0
-    });
+    // Non-urgent alerts wait for the end of quiet hours and go out as a summary
+    const holdUntil = QuietHoursService.holdUntil(subscription, event);
+    if (holdUntil) {
+      await HeldAlertService.hold(alertId, subscription, event, content, 'quiet_hours', holdUntil, distanceKm);
+      return true;
+    }
 
-    await webpush.sendNotification(pushSubscription, payload);
+    const queued = await AlertQueueService.enqueue(alertId, subscription, event, content, distanceKm, areaName);
+    console.log(`Alert ${alertId}: ${queued} channel(s) queued for event ${event._id}`);
+    return queued > 0;
   }
 
   // Real-time risk assessment for a location
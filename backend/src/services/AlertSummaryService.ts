@@ -0,0 +1,82 @@
+import { AlertContent } from './AlertService';
+import { EmailTemplates } from './EmailTemplates';
+import { HoldReason } from '../models/HeldAlert';
+
+export interface SummaryItem {
+  event_id: string;
+  event_type: string;
+  severity: number;
+  title: string;
+  distance_km?: number | null;
+}
+
+export interface SummaryGroup {
+  type: string;
+  label: string;
+  count: number;
+  max_severity: number;
+  nearest_km: number | null;
+}
+
+export interface AlertSummary {
+  heading: string;
+  content: AlertContent;
+  groups: SummaryGroup[]; // most severe first
+  items: SummaryItem[]; // most severe first
+}
+
+// One message standing in for several alerts, grouped by hazard type
+export class AlertSummaryService {
+  private static readonly HEADINGS: Record<HoldReason, string> = {
+    quiet_hours: 'During your quiet hours',
+    digest_hourly: 'Hourly digest',
+    digest_daily: 'Daily digest'
+  };
+
+  static build(reason: HoldReason, items: SummaryItem[]): AlertSummary {
+    const heading = this.HEADINGS[reason];
+    const sorted = [...items].sort((a, b) => b.severity - a.severity);
+    const byType = new Map<string, SummaryGroup>();
+
+    for (const item of sorted) {
+      const distance = typeof item.distance_km === 'number' ? item.distance_km : null;
+      const group = byType.get(item.event_type);
+      if (group) {
+        group.count++;
+        if (distance !== null && (group.nearest_km === null || distance < group.nearest_km)) {
+          group.nearest_km = distance;
+        }
+      } else {
+        byType.set(item.event_type, {
+          type: item.event_type,
+          label: EmailTemplates.getLabel(item.event_type),
+          count: 1,
+          max_severity: item.severity,
+          nearest_km: distance
+        });
+      }
+    }
+
+    const groups = [...byType.values()];
+    const total = sorted.length;
+
+    return {
+      heading,
+      groups,
+      items: sorted,
+      content: {
+        title: `${heading}: ${total} alert${total === 1 ? '' : 's'}`,
+        body: groups
+          .map(group => `${group.label} x${group.count} (${this.describeGroup(group)})`)
+          .join('; '),
+        action: 'Open EcoGuard to review current conditions'
+      }
+    };
+  }
+
+  // 'max severity 6.5, nearest 12 km'
+  static describeGroup(group: SummaryGroup): string {
+    const nearest = group.nearest_km !== null ? `, nearest ${Math.round(group.nearest_km)} km` : '';
+    return `max severity ${group.max_severity.toFixed(1)}${nearest}`;
+  }
+}
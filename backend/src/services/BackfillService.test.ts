@@ -0,0 +1,59 @@
+jest.mock('../server', () => ({ io: { to: jest.fn(() => ({ emit: jest.fn() })), emit: jest.fn() } }));
+jest.mock('node-fetch', () => jest.fn());
+
+import { BackfillService, BackfillValidationError } from './BackfillService';
+import { BackfillJob } from '../models/BackfillJob';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const range = { start_date: '2024-09-01', end_date: '2024-09-11' };
+
+describe('BackfillService', () => {
+  describe('createJob', () => {
+    let jobs: MemoryCollection;
+
+    beforeEach(() => {
+      jobs = memoryModel(BackfillJob);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('queues FIRMS jobs by upper-cased alpha-3 country', async () => {
+      const job = await BackfillService.createJob({ source: 'nasa-firms', ...range, countries: ['mys', 'IDN'] });
+
+      expect(jobs.get(job._id)).toMatchObject({ source: 'nasa-firms', status: 'queued', region: { countries: ['MYS', 'IDN'] }, window_days: 5 });
+    });
+
+    it('queues USGS jobs by bbox', async () => {
+      const job = await BackfillService.createJob({ source: 'usgs', ...range, bbox: [95, -11, 141, 21] });
+
+      expect(jobs.get(job._id)).toMatchObject({ source: 'usgs', region: { bbox: [95, -11, 141, 21] }, window_days: 7, windows_total: 2 });
+    });
+
+    it.each([
+      ['alpha-2 codes', ['MY']],
+      ['numbers', [458]],
+      ['an empty list', []],
+      ['a string', 'MYS']
+    ])('refuses countries given as %s', async (_label, countries) => {
+      await expect(BackfillService.createJob({ source: 'nasa-firms', ...range, countries: countries as any }))
+        .rejects.toThrow(BackfillValidationError);
+      expect(jobs.documents).toEqual([]);
+    });
+
+    it.each([
+      ['nasa-firms', { bbox: [95, -11, 141, 21] }, 'bbox'],
+      ['usgs', { countries: ['MYS'] }, 'countries']
+    ])('refuses %s filters it cannot apply', async (source, filter, name) => {
+      await expect(BackfillService.createJob({ source, ...range, ...filter } as any))
+        .rejects.toThrow(new RegExp(`cannot be filtered by ${name}`));
+      expect(jobs.documents).toEqual([]);
+    });
+
+    it('refuses malformed bboxes', async () => {
+      await expect(BackfillService.createJob({ source: 'usgs', ...range, bbox: [141, -11, 95, 21] }))
+        .rejects.toThrow('bbox must be [minLng, minLat, maxLng, maxLat]');
+    });
+  });
+});
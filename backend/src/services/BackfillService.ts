@@ -0,0 +1,289 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { BackfillJob, IBackfillJob } from '../models/BackfillJob';
+import { IngestionService } from './IngestionService';
+import { SourceRegistry } from '../adapters/SourceRegistry';
+import { SourceAdapter, SourceOptionsError, parseCountryCodes } from '../adapters/SourceAdapter';
+
+export interface BackfillRequest {
+  source: string;
+  start_date: string;
+  end_date?: string;
+  bbox?: [number, number, number, number];
+  countries?: string[];
+  window_days?: number;
+  throttle_ms?: number;
+}
+
+export class BackfillValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackfillValidationError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Historical ingestion split into date windows. The job document stores a cursor after
+// every window, so a restarted or resumed job continues where it stopped. One job runs
+// per instance at a time and jobs are claimed with a lease, like scheduled ingestion.
+export class BackfillService {
+  private static readonly TICK_MS = Number(process.env.INGEST_BACKFILL_TICK_MS) || 30 * 1000;
+  private static readonly LEASE_MS = Number(process.env.INGEST_LOCK_TTL_MS) || 15 * 60 * 1000;
+  private static readonly DEFAULT_THROTTLE_MS = Number(process.env.INGEST_BACKFILL_THROTTLE_MS ?? 5000);
+  private static readonly MAX_THROTTLE_MS = 60 * 1000;
+  private static readonly MAX_RANGE_DAYS = Number(process.env.INGEST_BACKFILL_MAX_DAYS) || 366;
+  private static readonly MAX_STORED_ERRORS = 50;
+  private static readonly INSTANCE_ID = `${os.hostname()}-${process.pid}`;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static activeJobId: string | null = null;
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.tick().catch(console.error);
+    this.timer = setInterval(() => {
+      this.tick().catch(console.error);
+    }, this.TICK_MS);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  static supportedSources(): SourceAdapter[] {
+    return SourceRegistry.all().filter(adapter => !!adapter.fetchRange);
+  }
+
+  static async createJob(request: BackfillRequest): Promise<IBackfillJob> {
+    const adapter = SourceRegistry.get(request.source);
+    if (!adapter || !adapter.fetchRange) {
+      throw new BackfillValidationError(
+        `Backfill is not supported for source: ${request.source} (supported: ${this.supportedSources().map(a => a.id).join(', ')})`
+      );
+    }
+
+    const start = new Date(request.start_date);
+    const end = request.end_date ? new Date(request.end_date) : new Date();
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new BackfillValidationError('start_date and end_date must be valid dates');
+    }
+    if (start >= end) {
+      throw new BackfillValidationError('start_date must be before end_date');
+    }
+    if (end.getTime() > Date.now()) {
+      throw new BackfillValidationError('end_date cannot be in the future');
+    }
+    if (end.getTime() - start.getTime() > this.MAX_RANGE_DAYS * DAY_MS) {
+      throw new BackfillValidationError(`Backfill range cannot exceed ${this.MAX_RANGE_DAYS} days`);
+    }
+
+    // A filter the source cannot apply would silently backfill everything
+    const filters = adapter.backfillFilters || [];
+    for (const filter of ['bbox', 'countries'] as const) {
+      if (request[filter] !== undefined && !filters.includes(filter)) {
+        throw new BackfillValidationError(
+          `${adapter.name} backfills cannot be filtered by ${filter} (supported: ${filters.join(', ') || 'none'})`
+        );
+      }
+    }
+
+    if (request.bbox !== undefined) {
+      const bbox = request.bbox;
+      if (!Array.isArray(bbox) || bbox.length !== 4 || bbox.some(v => typeof v !== 'number') || bbox[0] > bbox[2] || bbox[1] > bbox[3]) {
+        throw new BackfillValidationError('bbox must be [minLng, minLat, maxLng, maxLat]');
+      }
+    }
+
+    let countries: string[] | undefined;
+    if (request.countries !== undefined) {
+      try {
+        countries = parseCountryCodes(request.countries, 3);
+      } catch (error) {
+        if (error instanceof SourceOptionsError) throw new BackfillValidationError(error.message);
+        throw error;
+      }
+    }
+
+    const maxWindowDays = adapter.maxBackfillWindowDays || 1;
+    const windowDays = Math.min(maxWindowDays, Math.max(1, Math.floor(Number(request.window_days) || maxWindowDays)));
+    const throttleMs = Math.min(this.MAX_THROTTLE_MS, Math.max(0, Number(request.throttle_ms ?? this.DEFAULT_THROTTLE_MS) || 0));
+
+    return BackfillJob.create({
+      _id: uuidv4(),
+      source: adapter.id,
+      region: { bbox: request.bbox, countries },
+      start_date: start,
+      end_date: end,
+      window_days: windowDays,
+      throttle_ms: throttleMs,
+      cursor: start,
+      status: 'queued',
+      windows_total: Math.ceil((end.getTime() - start.getTime()) / (windowDays * DAY_MS))
+    });
+  }
+
+  // Stops a queued or running job after its current window
+  static async cancel(jobId: string): Promise<IBackfillJob | null> {
+    return BackfillJob.findOneAndUpdate(
+      { _id: jobId, status: { $in: ['queued', 'running'] } },
+      { $set: { status: 'cancelled', finished_at: new Date() }, $unset: { locked_by: '', locked_until: '' } },
+      { new: true }
+    );
+  }
+
+  // Requeues a failed or cancelled job; it continues from its stored cursor
+  static async resume(jobId: string): Promise<IBackfillJob | null> {
+    return BackfillJob.findOneAndUpdate(
+      { _id: jobId, status: { $in: ['failed', 'cancelled'] } },
+      { $set: { status: 'queued' }, $unset: { finished_at: '' } },
+      { new: true }
+    );
+  }
+
+  static getProgress(job: IBackfillJob): any {
+    return {
+      id: job._id,
+      source: job.source,
+      status: job.status,
+      region: job.region,
+      start_date: job.start_date,
+      end_date: job.end_date,
+      cursor: job.cursor,
+      window_days: job.window_days,
+      throttle_ms: job.throttle_ms,
+      windows_done: job.windows_done,
+      windows_total: job.windows_total,
+      percent_complete: job.windows_total > 0 ? Math.round((job.windows_done / job.windows_total) * 1000) / 10 : 100,
+      inserted: job.inserted,
+      changed: job.changed,
+      unchanged: job.unchanged,
+      quarantined: job.quarantined,
+      errors: job.error_messages,
+      created_at: job.created_at,
+      started_at: job.started_at || null,
+      finished_at: job.finished_at || null
+    };
+  }
+
+  private static async tick(): Promise<void> {
+    if (this.activeJobId) return;
+
+    const job = await this.claimNextJob();
+    if (!job) return;
+
+    this.activeJobId = job._id;
+    this.runJob(job)
+      .catch(error => console.error(`Backfill job ${job._id} failed:`, error))
+      .finally(() => { this.activeJobId = null; });
+  }
+
+  // Picks the oldest queued job, or a running one whose owner stopped renewing its lease
+  private static async claimNextJob(): Promise<IBackfillJob | null> {
+    const now = new Date();
+
+    return BackfillJob.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued' },
+          { status: 'running', locked_until: { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          status: 'running',
+          locked_by: this.INSTANCE_ID,
+          locked_until: new Date(now.getTime() + this.LEASE_MS)
+        }
+      },
+      { sort: { created_at: 1 }, new: true }
+    );
+  }
+
+  private static async runJob(job: IBackfillJob): Promise<void> {
+    const adapter = SourceRegistry.get(job.source);
+    if (!adapter) {
+      await this.finish(job._id, 'failed', `No adapter registered for source: ${job.source}`);
+      return;
+    }
+
+    if (!job.started_at) {
+      await BackfillJob.updateOne({ _id: job._id }, { $set: { started_at: new Date() } });
+    }
+
+    console.log(`📚 Backfill ${job._id} (${job.source}) from ${job.cursor.toISOString()} to ${job.end_date.toISOString()}`);
+    let cursor = job.cursor;
+
+    while (cursor < job.end_date) {
+      // Cancellation is picked up between windows
+      const current = await BackfillJob.findById(job._id, { status: 1, locked_by: 1 }).lean();
+      if (!current || current.status !== 'running' || current.locked_by !== this.INSTANCE_ID) {
+        console.log(`📚 Backfill ${job._id} stopped (${current?.status || 'deleted'})`);
+        return;
+      }
+
+      const windowEnd = new Date(Math.min(cursor.getTime() + job.window_days * DAY_MS, job.end_date.getTime()));
+      const windowLabel = `${cursor.toISOString().split('T')[0]}..${windowEnd.toISOString().split('T')[0]}`;
+
+      let result;
+      try {
+        result = await IngestionService.ingestRange(adapter, {
+          start: cursor,
+          end: windowEnd,
+          bbox: job.region?.bbox,
+          countries: job.region?.countries
+        }, job._id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await this.finish(job._id, 'failed', `${windowLabel}: ${message}`);
+        return;
+      }
+
+      const errors = (result.errors || []).map(error => `${windowLabel}: ${error}`);
+      const progress = await BackfillJob.updateOne(
+        { _id: job._id, status: 'running', locked_by: this.INSTANCE_ID },
+        {
+          $set: { cursor: windowEnd, locked_until: new Date(Date.now() + this.LEASE_MS) },
+          $inc: {
+            windows_done: 1,
+            inserted: result.inserted,
+            changed: result.changed,
+            unchanged: result.unchanged,
+            quarantined: result.quarantined
+          },
+          $push: { error_messages: { $each: errors, $slice: -this.MAX_STORED_ERRORS } }
+        }
+      );
+
+      if (progress.matchedCount === 0) {
+        console.log(`📚 Backfill ${job._id} was cancelled or reclaimed during ${windowLabel}`);
+        return;
+      }
+
+      cursor = windowEnd;
+
+      if (cursor < job.end_date && job.throttle_ms > 0) {
+        await new Promise(resolve => setTimeout(resolve, job.throttle_ms));
+      }
+    }
+
+    await this.finish(job._id, 'completed');
+    console.log(`📚 Backfill ${job._id} completed`);
+  }
+
+  private static async finish(jobId: string, status: 'completed' | 'failed', error?: string): Promise<void> {
+    await BackfillJob.updateOne(
+      { _id: jobId, status: 'running', locked_by: this.INSTANCE_ID },
+      {
+        $set: { status, finished_at: new Date() },
+        $unset: { locked_by: '', locked_until: '' },
+        ...(error && { $push: { error_messages: { $each: [error], $slice: -this.MAX_STORED_ERRORS } } })
+      }
+    );
+  }
+}
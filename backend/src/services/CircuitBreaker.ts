@@ -0,0 +1,71 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Per-source breaker: opens after consecutive failed requests, then lets a single
+// trial request through once the cooldown has passed.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: Date | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  // Returns false while the circuit is open and the caller should not hit the source
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt!.getTime() < this.cooldownMs) return false;
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`Circuit for ${this.name} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Circuit for ${this.name} opened after ${this.consecutiveFailures} failures: ${error}`);
+      }
+      this.state = 'open';
+      this.openedAt = new Date();
+    }
+  }
+
+  getStatus() {
+    const retryAt = this.state === 'open' && this.openedAt
+      ? new Date(this.openedAt.getTime() + this.cooldownMs)
+      : null;
+
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      opened_at: this.openedAt,
+      retry_at: retryAt,
+      last_error: this.lastError
+    };
+  }
+}
@@ -0,0 +1,233 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import { ContactVerificationService, VerificationRateLimitError } from './ContactVerificationService';
+import { EmailService } from './EmailService';
+import { SmsService } from './SmsService';
+import { Subscription } from '../models/Subscription';
+import { ContactSendLimit } from '../models/ContactSendLimit';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const PHONE = '+60123456789';
+const EMAIL = 'user@example.com';
+const ago = (ms: number) => new Date(NOW.getTime() - ms);
+
+const subscription = (fields: any) => ({
+  location: { type: 'Point', coordinates: [116.2, 5.98] },
+  radius_km: 10,
+  ...fields
+});
+
+describe('ContactVerificationService', () => {
+  let subscriptions: MemoryCollection;
+
+  // The code from the last verification SMS, as the subscriber would read it
+  const smsCode = () => {
+    const calls = (SmsService.send as jest.Mock).mock.calls;
+    return calls[calls.length - 1][1].match(/\b(\d{6})\b/)[1];
+  };
+
+  const later = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    subscriptions = memoryModel(Subscription, [subscription({ _id: 'sub-1', phone: PHONE, channels: ['sms'] })]);
+    memoryModel(ContactSendLimit);
+    jest.spyOn(SmsService, 'send').mockResolvedValue({ messageId: 'sms-1', status: 'sent', response: {} } as any);
+    jest.spyOn(EmailService, 'send').mockResolvedValue({ messageId: 'm-1', response: '250 OK', accepted: [EMAIL] } as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('checkSendLimit', () => {
+    it('starts a window on the first send', () => {
+      expect(ContactVerificationService.checkSendLimit(null, NOW)).toEqual({ send_count: 1, window_started_at: NOW });
+    });
+
+    it('refuses a send within the cooldown and says when to retry', () => {
+      const previous = { sent_at: ago(20 * 1000), send_count: 1, window_started_at: ago(20 * 1000) };
+
+      let error: any;
+      try {
+        ContactVerificationService.checkSendLimit(previous, NOW);
+      } catch (thrown) {
+        error = thrown;
+      }
+
+      expect(error).toBeInstanceOf(VerificationRateLimitError);
+      expect(error.retryAfterSeconds).toBe(40);
+    });
+
+    it('counts sends after the cooldown within the same window', () => {
+      const windowStart = ago(2 * HOUR);
+      const previous = { sent_at: ago(MINUTE), send_count: 2, window_started_at: windowStart };
+
+      expect(ContactVerificationService.checkSendLimit(previous, NOW)).toEqual({ send_count: 3, window_started_at: windowStart });
+    });
+
+    it('refuses more than five sends a day', () => {
+      const previous = { sent_at: ago(HOUR), send_count: 5, window_started_at: ago(23 * HOUR) };
+
+      expect(() => ContactVerificationService.checkSendLimit(previous, NOW)).toThrow('At most 5 codes can be sent per day');
+    });
+
+    it('starts over once the day has passed', () => {
+      const previous = { sent_at: ago(HOUR), send_count: 5, window_started_at: ago(25 * HOUR) };
+
+      expect(ContactVerificationService.checkSendLimit(previous, NOW)).toEqual({ send_count: 1, window_started_at: NOW });
+    });
+  });
+
+  describe('refresh and confirm', () => {
+    it('texts a code to a new phone number and verifies it', async () => {
+      await ContactVerificationService.refresh(subscriptions.get('sub-1'));
+
+      expect(SmsService.send).toHaveBeenCalledWith(PHONE, expect.stringContaining('verification code'));
+      expect(ContactVerificationService.isVerified(subscriptions.get('sub-1'), 'phone')).toBe(false);
+
+      await ContactVerificationService.confirm('sub-1', 'phone', ` ${smsCode()} `);
+
+      const verified = subscriptions.get('sub-1');
+      expect(ContactVerificationService.isVerified(verified, 'phone')).toBe(true);
+      expect(verified.verification.phone).toMatchObject({ verified_at: NOW });
+      expect(verified.verification.phone.code_hash).toBeUndefined();
+    });
+
+    it('emails a link that carries the code', async () => {
+      subscriptions.insert(subscription({ _id: 'sub-email', email: EMAIL, channels: ['email'] }));
+
+      await ContactVerificationService.refresh(subscriptions.get('sub-email'));
+      const [to, message] = (EmailService.send as jest.Mock).mock.calls[0];
+      const code = new URL(message.text.match(/https?:\/\/\S+/)[0]).searchParams.get('code');
+
+      expect(to).toBe(EMAIL);
+      await ContactVerificationService.confirm('sub-email', 'email', code);
+      expect(ContactVerificationService.isVerified(subscriptions.get('sub-email'), 'email')).toBe(true);
+    });
+
+    it('sends nothing for a contact that did not change', async () => {
+      const current = subscriptions.get('sub-1');
+
+      await ContactVerificationService.refresh(current, current);
+
+      expect(SmsService.send).not.toHaveBeenCalled();
+    });
+
+    it('drops the record of a removed contact', async () => {
+      subscriptions.insert(subscription({ _id: 'sub-2', email: EMAIL, channels: ['email'], verification: { phone: { status: 'verified' } } }));
+
+      await ContactVerificationService.refresh(subscriptions.get('sub-2'), { phone: PHONE });
+
+      expect(subscriptions.get('sub-2').verification.phone).toBeUndefined();
+    });
+
+    it('counts incorrect codes and then refuses even the right one', async () => {
+      await ContactVerificationService.refresh(subscriptions.get('sub-1'));
+      const code = smsCode();
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < 5; i++) {
+        await expect(ContactVerificationService.confirm('sub-1', 'phone', wrong)).rejects.toThrow('Incorrect verification code');
+      }
+
+      expect(subscriptions.get('sub-1').verification.phone.attempts).toBe(5);
+      await expect(ContactVerificationService.confirm('sub-1', 'phone', code)).rejects.toThrow('Too many incorrect codes');
+      expect(ContactVerificationService.isVerified(subscriptions.get('sub-1'), 'phone')).toBe(false);
+    });
+
+    it('refuses codes after they expire', async () => {
+      await ContactVerificationService.refresh(subscriptions.get('sub-1'));
+      later(15 * MINUTE);
+
+      await expect(ContactVerificationService.confirm('sub-1', 'phone', smsCode())).rejects.toThrow('expired');
+    });
+
+    it('supersedes other subscriptions that list the verified contact', async () => {
+      subscriptions.insert(
+        subscription({ _id: 'sub-old', phone: PHONE, channels: ['sms'] }),
+        subscription({ _id: 'sub-shared', phone: PHONE, email: 'other@example.com', channels: ['sms', 'email'] })
+      );
+
+      await ContactVerificationService.refresh(subscriptions.get('sub-1'));
+      await ContactVerificationService.confirm('sub-1', 'phone', smsCode());
+
+      expect(subscriptions.get('sub-old')).toBeUndefined();
+      expect(subscriptions.get('sub-shared')).toMatchObject({ email: 'other@example.com', channels: ['email'] });
+      expect(subscriptions.get('sub-shared').phone).toBeUndefined();
+      expect(subscriptions.get('sub-1').phone).toBe(PHONE);
+    });
+  });
+
+  describe('resend', () => {
+    beforeEach(async () => {
+      await ContactVerificationService.refresh(subscriptions.get('sub-1'));
+    });
+
+    it('refuses a resend within the cooldown', async () => {
+      later(20 * 1000);
+
+      await expect(ContactVerificationService.resend('sub-1', 'phone')).rejects.toMatchObject({ retryAfterSeconds: 40 });
+      expect(SmsService.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends a new code after the cooldown', async () => {
+      later(MINUTE);
+
+      const sent = await ContactVerificationService.resend('sub-1', 'phone');
+
+      expect(sent).toEqual({ sent_at: new Date(Date.now()), expires_at: new Date(Date.now() + 15 * MINUTE) });
+      expect(SmsService.send).toHaveBeenCalledTimes(2);
+      await ContactVerificationService.confirm('sub-1', 'phone', smsCode());
+      expect(ContactVerificationService.isVerified(subscriptions.get('sub-1'), 'phone')).toBe(true);
+    });
+
+    it('refuses more than five sends a day', async () => {
+      for (let i = 0; i < 4; i++) {
+        later(MINUTE);
+        await ContactVerificationService.resend('sub-1', 'phone');
+      }
+      later(MINUTE);
+
+      await expect(ContactVerificationService.resend('sub-1', 'phone')).rejects.toThrow('At most 5 codes can be sent per day');
+      expect(SmsService.send).toHaveBeenCalledTimes(5);
+    });
+
+    it('refuses an already verified contact', async () => {
+      await ContactVerificationService.confirm('sub-1', 'phone', smsCode());
+      later(MINUTE);
+
+      await expect(ContactVerificationService.resend('sub-1', 'phone')).rejects.toThrow('phone is already verified');
+    });
+  });
+
+  describe('contact send limit', () => {
+    it('limits the contact itself, whatever the subscription', async () => {
+      subscriptions.insert(subscription({ _id: 'sub-2', phone: PHONE, channels: ['sms'] }));
+
+      await ContactVerificationService.refresh(subscriptions.get('sub-1'));
+      await ContactVerificationService.refresh(subscriptions.get('sub-2'));
+
+      expect(SmsService.send).toHaveBeenCalledTimes(1);
+      expect(subscriptions.get('sub-2').verification.phone).toMatchObject({ status: 'pending', send_count: 0 });
+      await expect(ContactVerificationService.resend('sub-2', 'phone')).rejects.toThrow(VerificationRateLimitError);
+    });
+
+    it('matches email addresses whatever their case', async () => {
+      subscriptions.insert(
+        subscription({ _id: 'sub-a', email: EMAIL, channels: ['email'] }),
+        subscription({ _id: 'sub-b', email: ' User@Example.com ', channels: ['email'] })
+      );
+
+      await ContactVerificationService.refresh(subscriptions.get('sub-a'));
+      await ContactVerificationService.refresh(subscriptions.get('sub-b'));
+
+      expect(EmailService.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { Subscription, ContactVerification } from '../models/Subscription';
+import { ContactSendLimit } from '../models/ContactSendLimit';
+import { AlertChannel } from '../models/AlertDelivery';
+import { EmailService } from './EmailService';
+import { EmailTemplates } from './EmailTemplates';
+import { SmsService } from './SmsService';
+import { PublicPages } from './PublicPages';
+
+export type VerifiableContact = 'email' | 'phone';
+
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+}
+
+export class VerificationRateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = 'VerificationRateLimitError';
+  }
+}
+
+// Double opt-in for email and phone contacts. Emails carry a confirmation link,
+// phones get a 6-digit code. Alerts only go to verified contacts. Sends are limited
+// per subscription and per contact value, whichever subscription asks.
+export class ContactVerificationService {
+  static readonly CONTACTS: VerifiableContact[] = ['email', 'phone'];
+
+  private static readonly EMAIL_TTL_MS = 24 * 60 * 60 * 1000;
+  private static readonly SMS_TTL_MS = 15 * 60 * 1000;
+  private static readonly RESEND_COOLDOWN_MS = Number(process.env.VERIFICATION_RESEND_COOLDOWN_MS) || 60 * 1000;
+  private static readonly MAX_SENDS_PER_DAY = Number(process.env.VERIFICATION_MAX_SENDS_PER_DAY) || 5;
+  private static readonly SEND_WINDOW_MS = 24 * 60 * 60 * 1000;
+  private static readonly MAX_ATTEMPTS = 5;
+
+  static isVerifiableContact(value: any): value is VerifiableContact {
+    return this.CONTACTS.includes(value);
+  }
+
+  // A contact without a record was never confirmed, e.g. it predates double opt-in
+  static isVerified(subscription: any, contact: VerifiableContact): boolean {
+    const record: ContactVerification | undefined = subscription.verification?.[contact];
+    return record?.status === 'verified';
+  }
+
+  static allowsChannel(subscription: any, channel: AlertChannel): boolean {
+    if (channel === 'email') return this.isVerified(subscription, 'email');
+    if (channel === 'sms') return this.isVerified(subscription, 'phone');
+    return true;
+  }
+
+  // For API responses; never includes the code hash
+  static describe(subscription: any): Record<VerifiableContact, any> {
+    const result = {} as Record<VerifiableContact, any>;
+
+    for (const contact of this.CONTACTS) {
+      const record: ContactVerification | undefined = subscription.verification?.[contact];
+      if (!subscription[contact]) {
+        result[contact] = null;
+      } else if (!record) {
+        result[contact] = { status: 'unverified', sent_at: null, expires_at: null, verified_at: null };
+      } else {
+        const expired = record.status === 'pending' && !!record.expires_at && record.expires_at.getTime() <= Date.now();
+        result[contact] = {
+          status: expired ? 'expired' : record.status,
+          sent_at: record.sent_at || null,
+          expires_at: record.status === 'pending' ? record.expires_at || null : null,
+          verified_at: record.verified_at || null
+        };
+      }
+    }
+
+    return result;
+  }
+
+  // Starts verification for contacts that are new or changed since `previous`,
+  // and drops the records of removed contacts
+  static async refresh(subscription: any, previous?: any): Promise<void> {
+    for (const contact of this.CONTACTS) {
+      const value = subscription[contact];
+      if (value && value !== previous?.[contact]) {
+        await this.start(subscription._id, contact, value);
+      } else if (!value && subscription.verification?.[contact]) {
+        await Subscription.updateOne({ _id: subscription._id }, { $unset: { [`verification.${contact}`]: '' } });
+      }
+    }
+  }
+
+  static async resend(subscriptionId: string, contact: VerifiableContact): Promise<{ sent_at: Date; expires_at: Date }> {
+    const subscription = await Subscription.findById(subscriptionId).lean();
+    if (!subscription) throw new VerificationError('Subscription not found');
+
+    const value = subscription[contact];
+    const record = subscription.verification?.[contact];
+    if (!value) throw new VerificationError(`Subscription has no ${contact}`);
+    if (record?.status === 'verified') throw new VerificationError(`${contact} is already verified`);
+
+    // sent_at guards against two resends racing past the limit check
+    return this.send(subscription._id, contact, value, {
+      sent_at: record?.sent_at,
+      ...this.checkSendLimit(record ?? null)
+    });
+  }
+
+  // Applies the resend cooldown and the daily limit to one more send after `previous`.
+  // Returns the updated send window, or throws VerificationRateLimitError.
+  static checkSendLimit(
+    previous: { sent_at?: Date; send_count?: number; window_started_at?: Date } | null,
+    now: Date = new Date()
+  ): { send_count: number; window_started_at: Date } {
+    if (previous?.sent_at && now.getTime() - previous.sent_at.getTime() < this.RESEND_COOLDOWN_MS) {
+      const retryAfter = Math.ceil((previous.sent_at.getTime() + this.RESEND_COOLDOWN_MS - now.getTime()) / 1000);
+      throw new VerificationRateLimitError(`Please wait ${retryAfter}s before requesting another code`, retryAfter);
+    }
+
+    const windowOpen = !!previous?.window_started_at && now.getTime() - previous.window_started_at.getTime() < this.SEND_WINDOW_MS;
+    if (windowOpen && (previous.send_count || 0) >= this.MAX_SENDS_PER_DAY) {
+      const retryAfter = Math.ceil((previous.window_started_at!.getTime() + this.SEND_WINDOW_MS - now.getTime()) / 1000);
+      throw new VerificationRateLimitError(`At most ${this.MAX_SENDS_PER_DAY} codes can be sent per day`, retryAfter);
+    }
+
+    return {
+      send_count: windowOpen ? (previous.send_count || 0) + 1 : 1,
+      window_started_at: windowOpen ? previous.window_started_at! : now
+    };
+  }
+
+  // Counts a send against the email address or phone number itself, so creating
+  // subscriptions or switching contacts back and forth cannot flood one inbox or phone
+  static async reserveSend(value: string, now: Date = new Date()): Promise<void> {
+    const key = this.contactKey(value);
+    const previous = await ContactSendLimit.findById(key).lean();
+    const window = this.checkSendLimit(previous, now);
+
+    // Both writes fail when a concurrent send for the same contact got in first
+    let reserved: boolean;
+    try {
+      if (previous) {
+        const result = await ContactSendLimit.updateOne({ _id: key, sent_at: previous.sent_at }, { $set: { sent_at: now, ...window } });
+        reserved = result.matchedCount > 0;
+      } else {
+        await ContactSendLimit.create({ _id: key, sent_at: now, ...window });
+        reserved = true;
+      }
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+      reserved = false;
+    }
+
+    if (!reserved) {
+      throw new VerificationRateLimitError('A verification code was just sent', Math.ceil(this.RESEND_COOLDOWN_MS / 1000));
+    }
+  }
+
+  // Marks the contact verified. Verification proves ownership, so other subscriptions
+  // that still list the contact are superseded (see supersede).
+  static async confirm(subscriptionId: string, contact: VerifiableContact, code: any): Promise<void> {
+    if (typeof code !== 'string' || !code.trim()) throw new VerificationError('code is required');
+
+    const subscription = await Subscription.findById(subscriptionId).select(`+verification.${contact}.code_hash`).lean();
+    if (!subscription) throw new VerificationError('Subscription not found');
+
+    const record = subscription.verification?.[contact];
+    if (!subscription[contact] || !record) throw new VerificationError(`Subscription has no ${contact} awaiting verification`);
+    if (record.status === 'verified') return;
+
+    if (!record.expires_at || record.expires_at.getTime() <= Date.now()) {
+      throw new VerificationError('Verification code has expired; request a new one');
+    }
+    if (record.attempts >= this.MAX_ATTEMPTS) {
+      throw new VerificationError('Too many incorrect codes; request a new one');
+    }
+
+    const codeHash = this.hash(code.trim());
+    if (codeHash !== record.code_hash) {
+      await Subscription.updateOne({ _id: subscriptionId }, { $inc: { [`verification.${contact}.attempts`]: 1 } });
+      throw new VerificationError('Incorrect verification code');
+    }
+
+    const result = await Subscription.updateOne(
+      { _id: subscriptionId, [`verification.${contact}.code_hash`]: codeHash },
+      {
+        $set: { [`verification.${contact}.status`]: 'verified', [`verification.${contact}.verified_at`]: new Date() },
+        $unset: { [`verification.${contact}.code_hash`]: '', [`verification.${contact}.expires_at`]: '' }
+      }
+    );
+    if (result.modifiedCount === 0) return; // confirmed concurrently
+
+    await this.supersede(subscriptionId, contact, subscription[contact]);
+  }
+
+  // The owner of a contact has proven it on subscriptionId, e.g. after re-subscribing without
+  // the old token. Older subscriptions the contact was all that identified are deleted; the
+  // rest keep their other contacts and lose this one.
+  static async supersede(subscriptionId: string, contact: VerifiableContact, value: string): Promise<void> {
+    const other = contact === 'email' ? 'phone' : 'email';
+    await Subscription.deleteMany({
+      _id: { $ne: subscriptionId },
+      [contact]: value,
+      [other]: { $exists: false },
+      'push.endpoint': { $exists: false }
+    });
+
+    const channel = contact === 'email' ? 'email' : 'sms';
+    await Subscription.updateMany(
+      { _id: { $ne: subscriptionId }, [contact]: value },
+      { $unset: { [contact]: '', [`verification.${contact}`]: '' }, $pull: { channels: channel } }
+    );
+  }
+
+  private static async start(subscriptionId: string, contact: VerifiableContact, value: string): Promise<void> {
+    try {
+      // The record may still say verified for the previous contact, so it is reset first,
+      // in case the contact's send limit stops the code; the subscriber can ask for a resend
+      await Subscription.updateOne(
+        { _id: subscriptionId, [contact]: value },
+        { $set: { [`verification.${contact}`]: { status: 'pending', attempts: 0, send_count: 0 } } }
+      );
+      await this.send(subscriptionId, contact, value, { send_count: 1, window_started_at: new Date() }, true);
+    } catch (error: any) {
+      console.error(`Failed to send ${contact} verification for subscription ${subscriptionId}:`, error?.message || error);
+    }
+  }
+
+  // Stores a fresh code, then sends it. A new record resets attempts and status.
+  private static async send(
+    subscriptionId: string,
+    contact: VerifiableContact,
+    value: string,
+    window: { sent_at?: Date; send_count: number; window_started_at: Date },
+    reset: boolean = false
+  ): Promise<{ sent_at: Date; expires_at: Date }> {
+    const now = new Date();
+    await this.reserveSend(value, now);
+
+    const code = contact === 'email'
+      ? crypto.randomBytes(32).toString('base64url')
+      : crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const expiresAt = new Date(now.getTime() + (contact === 'email' ? this.EMAIL_TTL_MS : this.SMS_TTL_MS));
+
+    const record: ContactVerification = {
+      status: 'pending',
+      code_hash: this.hash(code),
+      expires_at: expiresAt,
+      attempts: 0,
+      sent_at: now,
+      send_count: window.send_count,
+      window_started_at: window.window_started_at
+    };
+
+    const filter: any = { _id: subscriptionId, [contact]: value };
+    if (!reset) filter[`verification.${contact}.sent_at`] = window.sent_at ?? { $exists: false };
+
+    const result = await Subscription.updateOne(filter, { $set: { [`verification.${contact}`]: record } });
+    if (result.matchedCount === 0) {
+      throw new VerificationRateLimitError('A verification code was just sent', Math.ceil(this.RESEND_COOLDOWN_MS / 1000));
+    }
+
+    if (contact === 'email') {
+      const link = PublicPages.url(`/v1/subscriptions/${encodeURIComponent(subscriptionId)}/verify/email?code=${code}`);
+      await EmailService.send(value, EmailTemplates.renderVerification(link, expiresAt));
+    } else {
+      await SmsService.send(value, `EcoGuard: your verification code is ${code}. It expires in ${Math.round(this.SMS_TTL_MS / 60000)} minutes.`);
+    }
+
+    return { sent_at: now, expires_at: expiresAt };
+  }
+
+  private static contactKey(value: string): string {
+    return crypto.createHash('sha256').update(value.trim().toLowerCase()).digest('hex');
+  }
+
+  private static hash(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+}
@@ -0,0 +1,173 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import { DataSubjectService, DataSubjectValidationError } from './DataSubjectService';
+import { Subscription } from '../models/Subscription';
+import { AlertDelivery } from '../models/AlertDelivery';
+import { AlertJob } from '../models/AlertJob';
+import { AlertNotification } from '../models/AlertNotification';
+import { HeldAlert } from '../models/HeldAlert';
+import { ErasedSubscription } from '../models/ErasedSubscription';
+import { DataRequest } from '../models/DataRequest';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const CREATED_AT = new Date('2025-06-01T00:00:00Z');
+const EMAIL = 'user@example.com';
+const PHONE = '+60123456789';
+
+const subscription = (fields: any) => ({
+  location: { type: 'Point', coordinates: [116.2, 5.98] },
+  created_at: CREATED_AT,
+  ...fields
+});
+
+// One record of each kind per subscription
+const related = (subscriptionId: string) => ({
+  _id: `${subscriptionId}:record`,
+  subscription_id: subscriptionId,
+  event_id: 'event-1',
+  alert_id: 'alert-1'
+});
+
+describe('DataSubjectService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseSubject', () => {
+    it('accepts exactly one identifier', () => {
+      expect(DataSubjectService.parseSubject({ subscription_id: ' sub-1 ' })).toEqual({ type: 'subscription', value: 'sub-1' });
+      expect(DataSubjectService.parseSubject({ phone: '0060 12-345 6789' })).toEqual({ type: 'phone', value: '+60123456789' });
+      expect(() => DataSubjectService.parseSubject({ email: 'a@example.com', phone: '+60123456789' })).toThrow(DataSubjectValidationError);
+      expect(() => DataSubjectService.parseSubject({ email: '  ' })).toThrow(DataSubjectValidationError);
+    });
+  });
+
+  describe('hashSubject', () => {
+    it('ignores email case and separates subject types', () => {
+      const hash = DataSubjectService.hashSubject({ type: 'email', value: 'User@Example.com' });
+
+      expect(hash).toBe(DataSubjectService.hashSubject({ type: 'email', value: 'user@example.com' }));
+      expect(hash).not.toBe(DataSubjectService.hashSubject({ type: 'subscription', value: 'user@example.com' }));
+      expect(hash).not.toContain('example');
+    });
+  });
+
+  describe('erase', () => {
+    let subscriptions: MemoryCollection;
+    let deliveries: MemoryCollection;
+    let heldAlerts: MemoryCollection;
+    let notifications: MemoryCollection;
+    let jobs: MemoryCollection;
+    let erased: MemoryCollection;
+    let requests: MemoryCollection;
+
+    const ids = (collection: MemoryCollection) => collection.documents.map(doc => doc._id).sort();
+
+    beforeEach(() => {
+      subscriptions = memoryModel(Subscription, [
+        subscription({ _id: 'sub-1', email: EMAIL, phone: PHONE, channels: ['email', 'sms'], language: 'ms', radius_km: 25 }),
+        subscription({ _id: 'sub-2', email: 'User@Example.com', channels: ['email'] }),
+        subscription({ _id: 'sub-other', email: 'other@example.com', channels: ['email'], radius_km: 10 })
+      ]);
+      const records = ['sub-1', 'sub-2', 'sub-other'].map(related);
+      deliveries = memoryModel(AlertDelivery, [
+        ...records.map(record => ({ ...record, recipient: record.subscription_id === 'sub-other' ? 'other@example.com' : EMAIL })),
+        { ...related('sub-deleted'), recipient: 'USER@example.com' },
+        { ...related('sub-sms'), recipient: PHONE }
+      ]);
+      heldAlerts = memoryModel(HeldAlert, records);
+      notifications = memoryModel(AlertNotification, records);
+      jobs = memoryModel(AlertJob, records);
+      erased = memoryModel(ErasedSubscription);
+      requests = memoryModel(DataRequest);
+    });
+
+    it('deletes the subscriptions using the contact and all their alert records', async () => {
+      const counts = await DataSubjectService.erase({ type: 'email', value: EMAIL }, 'admin');
+
+      expect(ids(subscriptions)).toEqual(['sub-other']);
+      expect(ids(deliveries)).toEqual(['sub-other:record', 'sub-sms:record']);
+      expect(ids(heldAlerts)).toEqual(['sub-other:record']);
+      expect(ids(notifications)).toEqual(['sub-other:record']);
+      expect(ids(jobs)).toEqual(['sub-other:record']);
+      expect(counts).toEqual({ subscriptions: 2, alert_deliveries: 3, held_alerts: 2, alert_notifications: 2, alert_jobs: 2 });
+    });
+
+    it('erases a single subscription by id without touching others with the contact', async () => {
+      await DataSubjectService.erase({ type: 'subscription', value: 'sub-2' }, 'subscriber');
+
+      expect(ids(subscriptions)).toEqual(['sub-1', 'sub-other']);
+      expect(ids(deliveries)).toEqual(['sub-1:record', 'sub-deleted:record', 'sub-other:record', 'sub-sms:record']);
+      expect(ids(jobs)).toEqual(['sub-1:record', 'sub-other:record']);
+    });
+
+    it('keeps an anonymized placeholder per subscription for the statistics', async () => {
+      await DataSubjectService.erase({ type: 'email', value: EMAIL }, 'admin');
+
+      const placeholders = [...erased.documents].sort((a, b) => a.channels.length - b.channels.length);
+      expect(placeholders).toEqual([
+        expect.objectContaining({ channels: ['email'], language: 'en', created_at: CREATED_AT, erased_at: expect.any(Date) }),
+        expect.objectContaining({ channels: ['email', 'sms'], language: 'ms', radius_km: 25, created_at: CREATED_AT, erased_at: expect.any(Date) })
+      ]);
+      expect(ids(erased)).not.toContain('sub-1');
+      expect(ids(erased)).not.toContain('sub-2');
+      expect(JSON.stringify(erased.documents)).not.toMatch(/example\.com|\+60/i);
+    });
+
+    it('records the request with a hash of the subject', async () => {
+      await DataSubjectService.erase({ type: 'email', value: EMAIL }, 'subscriber');
+
+      expect(requests.documents).toEqual([expect.objectContaining({
+        type: 'erasure',
+        requested_by: 'subscriber',
+        subject_type: 'email',
+        subject_hash: DataSubjectService.hashSubject({ type: 'email', value: EMAIL }),
+        status: 'completed',
+        counts: { subscriptions: 2, alert_deliveries: 3, held_alerts: 2, alert_notifications: 2, alert_jobs: 2 }
+      })]);
+      expect(JSON.stringify(requests.documents)).not.toContain(EMAIL);
+    });
+
+    it('records a failed request and rethrows', async () => {
+      jest.spyOn(AlertJob, 'deleteMany').mockRejectedValue(new Error('connection lost'));
+
+      await expect(DataSubjectService.erase({ type: 'email', value: EMAIL }, 'admin')).rejects.toThrow('connection lost');
+      expect(requests.documents).toEqual([expect.objectContaining({ type: 'erasure', status: 'failed', error: 'connection lost' })]);
+    });
+
+    it('erases deliveries sent to a phone that no subscription uses any more', async () => {
+      subscriptions.remove({ phone: PHONE }, true);
+
+      const counts = await DataSubjectService.erase({ type: 'phone', value: PHONE }, 'admin');
+
+      expect(erased.documents).toEqual([]);
+      expect(ids(deliveries)).not.toContain('sub-sms:record');
+      expect(counts).toMatchObject({ subscriptions: 0, alert_deliveries: 1 });
+    });
+  });
+
+  describe('export', () => {
+    beforeEach(() => {
+      memoryModel(Subscription, [
+        subscription({ _id: 'sub-1', phone: PHONE, channels: ['sms'] }),
+        subscription({ _id: 'sub-other', email: 'other@example.com', channels: ['email'] })
+      ]);
+      memoryModel(AlertDelivery, [{ ...related('sub-1'), recipient: PHONE }, { ...related('sub-other'), recipient: 'other@example.com' }]);
+      memoryModel(HeldAlert);
+      memoryModel(AlertNotification, [related('sub-1')]);
+      memoryModel(AlertJob);
+    });
+
+    it('returns the records of the subject and nobody else', async () => {
+      const requests = memoryModel(DataRequest);
+
+      const data = await DataSubjectService.export({ type: 'phone', value: PHONE }, 'subscriber');
+
+      expect(data.subscription_ids).toEqual(['sub-1']);
+      expect(data.subscriptions.map((row: any) => row._id)).toEqual(['sub-1']);
+      expect(data.alert_deliveries.map((row: any) => row._id)).toEqual(['sub-1:record']);
+      expect(data.alert_notifications.map((row: any) => row._id)).toEqual(['sub-1:record']);
+      expect(requests.documents).toEqual([expect.objectContaining({ type: 'export', status: 'completed' })]);
+    });
+  });
+});
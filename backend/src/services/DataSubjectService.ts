@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Subscription } from '../models/Subscription';
+import { AlertDelivery } from '../models/AlertDelivery';
+import { AlertJob } from '../models/AlertJob';
+import { AlertNotification } from '../models/AlertNotification';
+import { HeldAlert } from '../models/HeldAlert';
+import { ErasedSubscription } from '../models/ErasedSubscription';
+import { DataRequest, DataRequestType, DataSubjectType } from '../models/DataRequest';
+import { SmsService } from './SmsService';
+
+export class DataSubjectValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataSubjectValidationError';
+  }
+}
+
+export interface DataSubject {
+  type: DataSubjectType;
+  value: string;
+}
+
+// Export and erasure of everything stored about a subscription or a contact
+// (every subscription using an email or phone, plus deliveries sent to it).
+// Each request is recorded in the DataRequest audit log, success or not.
+export class DataSubjectService {
+  // Exactly one of subscription_id, email or phone
+  static parseSubject(input: any): DataSubject {
+    const given = (['subscription_id', 'email', 'phone'] as const).filter(key => typeof input?.[key] === 'string' && input[key].trim());
+    if (given.length !== 1) {
+      throw new DataSubjectValidationError('Provide exactly one of subscription_id, email or phone');
+    }
+
+    const key = given[0];
+    const value = input[key].trim();
+
+    if (key === 'phone') {
+      const phone = SmsService.normalizePhone(value);
+      if (!phone) throw new DataSubjectValidationError('phone must be in international E.164 format');
+      return { type: 'phone', value: phone };
+    }
+
+    return { type: key === 'subscription_id' ? 'subscription' : 'email', value };
+  }
+
+  static async export(subject: DataSubject, requestedBy: 'subscriber' | 'admin'): Promise<any> {
+    return this.audited('export', subject, requestedBy, async () => {
+      const { subscriptionIds, subscriptionQuery, relatedQuery, deliveryQuery } = await this.resolve(subject);
+
+      // Token and verification code hashes are select: false and stay out of the export
+      const [subscriptions, deliveries, heldAlerts, notifications, jobs] = await Promise.all([
+        Subscription.find(subscriptionQuery).lean(),
+        AlertDelivery.find(deliveryQuery).sort({ created_at: -1 }).lean(),
+        HeldAlert.find(relatedQuery).sort({ held_at: -1 }).lean(),
+        AlertNotification.find(relatedQuery).sort({ created_at: -1 }).lean(),
+        AlertJob.find(relatedQuery).sort({ created_at: -1 }).lean()
+      ]);
+
+      const data = {
+        generated_at: new Date().toISOString(),
+        subject: { type: subject.type, value: subject.value },
+        subscription_ids: subscriptionIds,
+        subscriptions,
+        alert_deliveries: deliveries,
+        held_alerts: heldAlerts,
+        alert_notifications: notifications,
+        alert_jobs: jobs
+      };
+
+      return {
+        result: data,
+        counts: {
+          subscriptions: subscriptions.length,
+          alert_deliveries: deliveries.length,
+          held_alerts: heldAlerts.length,
+          alert_notifications: notifications.length,
+          alert_jobs: jobs.length
+        }
+      };
+    });
+  }
+
+  // Deletes the subscriptions and their alert history. Anonymized rows are kept in
+  // ErasedSubscription so /v1/subscriptions/stats/overview totals do not change.
+  static async erase(subject: DataSubject, requestedBy: 'subscriber' | 'admin'): Promise<Record<string, number>> {
+    return this.audited('erasure', subject, requestedBy, async () => {
+      const { subscriptionQuery, relatedQuery, deliveryQuery } = await this.resolve(subject);
+
+      const subscriptions = await Subscription.find(subscriptionQuery, { channels: 1, language: 1, radius_km: 1, created_at: 1 }).lean();
+      if (subscriptions.length > 0) {
+        const erasedAt = new Date();
+        await ErasedSubscription.insertMany(subscriptions.map(subscription => ({
+          _id: uuidv4(),
+          channels: subscription.channels || [],
+          language: subscription.language || 'en',
+          radius_km: subscription.radius_km,
+          created_at: subscription.created_at,
+          erased_at: erasedAt
+        })));
+      }
+
+      const [erasedSubscriptions, deliveries, heldAlerts, notifications, jobs] = await Promise.all([
+        Subscription.deleteMany({ _id: { $in: subscriptions.map(subscription => subscription._id) } }),
+        AlertDelivery.deleteMany(deliveryQuery),
+        HeldAlert.deleteMany(relatedQuery),
+        AlertNotification.deleteMany(relatedQuery),
+        AlertJob.deleteMany(relatedQuery)
+      ]);
+
+      const counts = {
+        subscriptions: erasedSubscriptions.deletedCount,
+        alert_deliveries: deliveries.deletedCount,
+        held_alerts: heldAlerts.deletedCount,
+        alert_notifications: notifications.deletedCount,
+        alert_jobs: jobs.deletedCount
+      };
+
+      return { result: counts, counts };
+    });
+  }
+
+  static hashSubject(subject: DataSubject): string {
+    return crypto.createHash('sha256').update(`${subject.type}:${subject.value.toLowerCase()}`).digest('hex');
+  }
+
+  // Queries for the subject's subscriptions, the records keyed by subscription id,
+  // and deliveries, which for a contact also include ones sent before a subscription was deleted
+  private static async resolve(subject: DataSubject): Promise<{
+    subscriptionIds: string[];
+    subscriptionQuery: any;
+    relatedQuery: any;
+    deliveryQuery: any;
+  }> {
+    const contactQuery = subject.type === 'email' ? { email: this.caseInsensitive(subject.value) } : { phone: subject.value };
+    const subscriptionIds = subject.type === 'subscription'
+      ? [subject.value]
+      : (await Subscription.find(contactQuery, { _id: 1 }).lean()).map(subscription => subscription._id);
+
+    const relatedQuery = { subscription_id: { $in: subscriptionIds } };
+    const deliveryQuery = subject.type === 'subscription'
+      ? relatedQuery
+      : { $or: [relatedQuery, { recipient: subject.type === 'email' ? this.caseInsensitive(subject.value) : subject.value }] };
+
+    return { subscriptionIds, subscriptionQuery: { _id: { $in: subscriptionIds } }, relatedQuery, deliveryQuery };
+  }
+
+  private static async audited<T>(
+    type: DataRequestType,
+    subject: DataSubject,
+    requestedBy: 'subscriber' | 'admin',
+    run: () => Promise<{ result: T; counts: Record<string, number> }>
+  ): Promise<T> {
+    const entry = {
+      _id: uuidv4(),
+      type,
+      requested_by: requestedBy,
+      subject_type: subject.type,
+      subject_hash: this.hashSubject(subject),
+      created_at: new Date()
+    };
+
+    try {
+      const { result, counts } = await run();
+      await DataRequest.create({ ...entry, status: 'completed', counts });
+      return result;
+    } catch (error: any) {
+      await DataRequest.create({ ...entry, status: 'failed', error: error?.message || 'Unknown error' }).catch(logError =>
+        console.error('Failed to record data request:', logError)
+      );
+      throw error;
+    }
+  }
+
+  private static caseInsensitive(value: string): RegExp {
+    return new RegExp(`^${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+  }
+}
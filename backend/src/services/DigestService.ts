@@ -0,0 +1,33 @@
+import { AlertChannel } from '../models/AlertDelivery';
+import { HoldReason } from '../models/HeldAlert';
+import { QuietHoursService } from './QuietHoursService';
+
+// Schedule for subscribers who get hourly or daily digests instead of one alert per event.
+// Digest boundaries are in the subscriber's timezone and never fall inside quiet hours.
+export class DigestService {
+  // Digests are too long for SMS
+  static readonly CHANNELS: AlertChannel[] = ['email', 'webpush'];
+
+  static getReason(subscription: any): HoldReason | null {
+    switch (subscription.delivery_mode) {
+      case 'hourly': return 'digest_hourly';
+      case 'daily': return 'digest_daily';
+      default: return null;
+    }
+  }
+
+  // When the digest containing an alert received now goes out
+  static nextDigestAt(subscription: any, now: Date = new Date()): Date {
+    const timezone = QuietHoursService.isValidTimezone(subscription.timezone) ? subscription.timezone : 'UTC';
+    const current = QuietHoursService.localMinutes(now, timezone);
+
+    const minutesLeft = subscription.delivery_mode === 'daily'
+      ? ((QuietHoursService.toMinutes(subscription.digest_time || '08:00') - current + 24 * 60 - 1) % (24 * 60)) + 1
+      : 60 - (current % 60);
+
+    const digestAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+    digestAt.setUTCSeconds(0, 0);
+
+    return QuietHoursService.quietUntil(subscription, digestAt) || digestAt;
+  }
+}
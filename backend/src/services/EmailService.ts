@@ -0,0 +1,64 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { RenderedEmail } from './EmailTemplates';
+
+export interface EmailDeliveryResult {
+  messageId: string;
+  response: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+// SMTP transport for alert emails. Any SMTP server works, including MailHog
+// (SMTP_HOST=localhost, SMTP_PORT=1025) for local development.
+export class EmailService {
+  private static transporter: Transporter | null = null;
+
+  static isConfigured(): boolean {
+    return !!process.env.SMTP_HOST;
+  }
+
+  static async send(to: string, message: RenderedEmail): Promise<EmailDeliveryResult> {
+    if (!this.isConfigured()) {
+      throw new Error('Email transport not configured (SMTP_HOST is not set)');
+    }
+
+    const info = await this.getTransporter().sendMail({
+      from: process.env.EMAIL_FROM || 'EcoGuard Alerts <alerts@ecoguard.example.com>',
+      to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers
+    });
+
+    const rejected = (info.rejected || []).map(String);
+    if (rejected.length > 0) {
+      throw new Error(`SMTP server rejected recipient ${rejected.join(', ')}: ${info.response}`);
+    }
+
+    return {
+      messageId: info.messageId,
+      response: info.response,
+      accepted: (info.accepted || []).map(String),
+      rejected
+    };
+  }
+
+  private static getTransporter(): Transporter {
+    if (!this.transporter) {
+      const port = Number(process.env.SMTP_PORT) || 587;
+
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+        pool: true,
+        maxConnections: Number(process.env.SMTP_MAX_CONNECTIONS) || 5
+      });
+    }
+    return this.transporter;
+  }
+}
@@ -0,0 +1,340 @@
+import { AlertContent } from './AlertService';
+import { AlertSummary, AlertSummaryService } from './AlertSummaryService';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+interface HazardTheme {
+  label: string;
+  color: string;
+  icon: string;
+}
+
+// HTML and plaintext alert emails built from generateAlertContent output.
+// Styles are inline because most mail clients drop <style> blocks.
+export class EmailTemplates {
+  private static readonly THEMES: Record<string, HazardTheme> = {
+    earthquake: { label: 'Earthquake', color: '#b45309', icon: '🌍' },
+    flood: { label: 'Flood', color: '#1d4ed8', icon: '🌊' },
+    storm: { label: 'Severe Weather', color: '#6d28d9', icon: '⛈️' },
+    fire: { label: 'Wildfire', color: '#dc2626', icon: '🔥' },
+    aqi: { label: 'Air Quality', color: '#4b5563', icon: '😷' }
+  };
+
+  private static readonly DEFAULT_THEME: HazardTheme = { label: 'Environmental Hazard', color: '#047857', icon: '⚠️' };
+
+  private static readonly MAX_SUMMARY_ITEMS = 20;
+
+  static getLabel(type: string): string {
+    return (this.THEMES[type] || this.DEFAULT_THEME).label;
+  }
+
+  static renderAlert(event: any, content: AlertContent, language: string = 'en', unsubscribeUrl?: string | null): RenderedEmail {
+    const theme = this.THEMES[event.type] || this.DEFAULT_THEME;
+    const details = this.getDetails(event);
+    const eventUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/?event=${encodeURIComponent(event._id)}`;
+    const startsAt = new Date(event.starts_at).toUTCString();
+
+    const subject = `${theme.icon} ${content.title}`;
+
+    const text = [
+      `${theme.label.toUpperCase()} ALERT (severity ${event.severity.toFixed(1)}/10)`,
+      '',
+      content.title,
+      '',
+      content.body,
+      '',
+      `What to do: ${content.action}`,
+      '',
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      `Reported: ${startsAt}`,
+      '',
+      `Details: ${eventUrl}`,
+      '',
+      'You receive this email because you subscribed to EcoGuard alerts for this area.',
+      ...(unsubscribeUrl ? [`Unsubscribe: ${unsubscribeUrl}`] : [])
+    ].join('\n');
+
+    const detailRows = details
+      .map(([label, value]) => `
+            <tr>
+              <td style="padding:4px 12px 4px 0;color:#6b7280;">${this.escape(label)}</td>
+              <td style="padding:4px 0;color:#111827;">${this.escape(value)}</td>
+            </tr>`)
+      .join('');
+
+    const html = `<!DOCTYPE html>
+<html lang="${this.escape(language)}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${this.escape(content.title)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background:${theme.color};color:#ffffff;padding:16px 24px;font-size:14px;letter-spacing:1px;">
+                ${theme.icon} ${this.escape(theme.label.toUpperCase())} ALERT &middot; SEVERITY ${event.severity.toFixed(1)}/10
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:24px;">
+                <h1 style="margin:0 0 12px;font-size:22px;color:#111827;">${this.escape(content.title)}</h1>
+                <p style="margin:0 0 16px;font-size:15px;line-height:1.5;color:#374151;">${this.escape(content.body)}</p>
+                <p style="margin:0 0 20px;padding:12px 16px;background:#fef3c7;border-left:4px solid ${theme.color};font-size:15px;color:#111827;">
+                  <strong>What to do:</strong> ${this.escape(content.action)}
+                </p>
+                <table role="presentation" cellpadding="0" cellspacing="0" style="font-size:14px;margin-bottom:20px;">${detailRows}
+                  <tr>
+                    <td style="padding:4px 12px 4px 0;color:#6b7280;">Reported</td>
+                    <td style="padding:4px 0;color:#111827;">${this.escape(startsAt)}</td>
+                  </tr>
+                </table>
+                <a href="${this.escape(eventUrl)}" style="display:inline-block;background:${theme.color};color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;font-size:14px;">View details</a>
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+                You receive this email because you subscribed to EcoGuard alerts for this area.${this.unsubscribeLink(unsubscribeUrl)}
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+    return { subject, html, text, headers: this.unsubscribeHeaders(unsubscribeUrl) };
+  }
+
+  // Several held or digested alerts in one email, grouped by hazard type
+  static renderSummary(summary: AlertSummary, language: string = 'en', unsubscribeUrl?: string | null): RenderedEmail {
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const listed = summary.items.slice(0, this.MAX_SUMMARY_ITEMS);
+    const hidden = summary.items.length - listed.length;
+    const subject = `📋 ${summary.content.title}`;
+
+    const text = [
+      summary.content.title.toUpperCase(),
+      '',
+      ...summary.groups.map(group => `${group.label}: ${group.count} (${AlertSummaryService.describeGroup(group)})`),
+      '',
+      ...listed.map(item => `- ${item.title} (severity ${item.severity.toFixed(1)}${typeof item.distance_km === 'number' ? `, ${Math.round(item.distance_km)} km away` : ''})`),
+      ...(hidden > 0 ? [`...and ${hidden} more`] : []),
+      '',
+      `Details: ${baseUrl}/alerts`,
+      '',
+      'You receive this email because you subscribed to EcoGuard alerts for this area.',
+      ...(unsubscribeUrl ? [`Unsubscribe: ${unsubscribeUrl}`] : [])
+    ].join('\n');
+
+    const groupRows = summary.groups
+      .map(group => {
+        const theme = this.THEMES[group.type] || this.DEFAULT_THEME;
+        return `
+            <tr>
+              <td style="padding:4px 12px 4px 0;color:${theme.color};">${theme.icon} ${this.escape(group.label)}</td>
+              <td style="padding:4px 12px 4px 0;color:#111827;">${group.count}</td>
+              <td style="padding:4px 0;color:#6b7280;">${this.escape(AlertSummaryService.describeGroup(group))}</td>
+            </tr>`;
+      })
+      .join('');
+
+    const itemRows = listed
+      .map(item => `
+                  <li style="margin:0 0 6px;">
+                    <a href="${this.escape(`${baseUrl}/?event=${encodeURIComponent(item.event_id)}`)}" style="color:#111827;">${this.escape(item.title)}</a>
+                    <span style="color:#6b7280;">&middot; ${item.severity.toFixed(1)}</span>
+                  </li>`)
+      .join('');
+
+    const html = `<!DOCTYPE html>
+<html lang="${this.escape(language)}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${this.escape(summary.content.title)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background:${this.DEFAULT_THEME.color};color:#ffffff;padding:16px 24px;font-size:14px;letter-spacing:1px;">
+                📋 ${this.escape(summary.heading.toUpperCase())}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:24px;">
+                <h1 style="margin:0 0 16px;font-size:22px;color:#111827;">${this.escape(summary.content.title)}</h1>
+                <table role="presentation" cellpadding="0" cellspacing="0" style="font-size:14px;margin-bottom:20px;">${groupRows}
+                </table>
+                <ul style="margin:0 0 20px;padding-left:20px;font-size:14px;">${itemRows}${hidden > 0 ? `
+                  <li style="color:#6b7280;">...and ${hidden} more</li>` : ''}
+                </ul>
+                <a href="${this.escape(`${baseUrl}/alerts`)}" style="display:inline-block;background:${this.DEFAULT_THEME.color};color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;font-size:14px;">Open EcoGuard</a>
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+                You receive this email because you subscribed to EcoGuard alerts for this area.${this.unsubscribeLink(unsubscribeUrl)}
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+    return { subject, html, text, headers: this.unsubscribeHeaders(unsubscribeUrl) };
+  }
+
+  // Double opt-in confirmation; no alerts are emailed until the link is followed
+  static renderVerification(link: string, expiresAt: Date, language: string = 'en'): RenderedEmail {
+    return this.renderLinkEmail({
+      subject: 'Confirm your EcoGuard alert subscription',
+      intro: 'Please confirm that you want EcoGuard environmental alerts at this address.',
+      link,
+      button: 'Confirm subscription',
+      expiresAt,
+      footer: 'If you did not subscribe, ignore this email and you will not hear from us again.'
+    }, language);
+  }
+
+  // Management link for a subscription whose token was lost or never issued
+  static renderRecovery(link: string, expiresAt: Date, language: string = 'en'): RenderedEmail {
+    return this.renderLinkEmail({
+      subject: 'Manage your EcoGuard alert subscription',
+      intro: 'Someone asked for a new management token for the EcoGuard subscription at this address. Follow the link to get it; any earlier token stops working.',
+      link,
+      button: 'Get management token',
+      expiresAt,
+      footer: 'If you did not ask for this, ignore this email. Your subscription is unchanged.'
+    }, language);
+  }
+
+  private static renderLinkEmail(
+    { subject, intro, link, button, expiresAt, footer }: { subject: string; intro: string; link: string; button: string; expiresAt: Date; footer: string },
+    language: string
+  ): RenderedEmail {
+    const expires = expiresAt.toUTCString();
+
+    const text = [
+      intro,
+      '',
+      link,
+      '',
+      `The link expires ${expires}.`,
+      '',
+      footer
+    ].join('\n');
+
+    const html = `<!DOCTYPE html>
+<html lang="${this.escape(language)}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${this.escape(subject)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="padding:24px;">
+                <h1 style="margin:0 0 12px;font-size:22px;color:#111827;">${this.escape(subject)}</h1>
+                <p style="margin:0 0 20px;font-size:15px;line-height:1.5;color:#374151;">${this.escape(intro)}</p>
+                <a href="${this.escape(link)}" style="display:inline-block;background:${this.DEFAULT_THEME.color};color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;font-size:14px;">${this.escape(button)}</a>
+                <p style="margin:20px 0 0;font-size:13px;color:#6b7280;">The link expires ${this.escape(expires)}.</p>
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+                ${this.escape(footer)}
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+    return { subject, html, text };
+  }
+
+  // Hazard-specific facts shown under the alert body
+  private static getDetails(event: any): [string, string][] {
+    const properties = event.properties || {};
+    const details: [string, string][] = [];
+
+    switch (event.type) {
+      case 'earthquake':
+        details.push(['Magnitude', `${event.severity.toFixed(1)}${properties.mag_type ? ` (${properties.mag_type})` : ''}`]);
+        if (properties.depth_km !== undefined) details.push(['Depth', `${Number(properties.depth_km).toFixed(1)} km`]);
+        if (properties.tsunami) details.push(['Tsunami', 'Tsunami warning issued - follow official guidance']);
+        break;
+
+      case 'aqi':
+        if (properties.aqi !== undefined) details.push(['AQI', String(properties.aqi)]);
+        if (properties.aqi_category) details.push(['Category', properties.aqi_category]);
+        if (properties.primary_pollutant) details.push(['Main pollutant', properties.primary_pollutant]);
+        break;
+
+      case 'storm':
+        if (properties.event_name) details.push(['Warning', properties.event_name]);
+        if (properties.wind_speed !== undefined) details.push(['Wind speed', `${Math.round(properties.wind_speed * 3.6)} km/h`]);
+        break;
+
+      case 'fire':
+        if (properties.frp !== undefined) details.push(['Fire radiative power', `${properties.frp} MW`]);
+        if (properties.satellite) details.push(['Detected by', `${properties.satellite} (${properties.instrument || 'satellite'})`]);
+        break;
+
+      case 'flood':
+        if (properties.event_name) details.push(['Warning', properties.event_name]);
+        break;
+    }
+
+    const location = properties.place || properties.location_name || properties.city;
+    if (location) details.push(['Location', location]);
+
+    if (event.ends_at) details.push(['Expected until', new Date(event.ends_at).toUTCString()]);
+
+    return details;
+  }
+
+  private static unsubscribeLink(url?: string | null): string {
+    return url ? ` <a href="${this.escape(url)}" style="color:#6b7280;">Unsubscribe</a>` : '';
+  }
+
+  // RFC 8058 one-click: mail clients POST to the link without opening the page
+  private static unsubscribeHeaders(url?: string | null): Record<string, string> | undefined {
+    if (!url) return undefined;
+
+    return {
+      'List-Unsubscribe': `<${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    };
+  }
+
+  private static escape(value: string): string {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,87 @@
+import { NormalizedEvent } from '../adapters/SourceAdapter';
+
+const EVENT_TYPES = ['earthquake', 'flood', 'aqi', 'storm', 'fire'];
+
+// Structural checks applied to every normalized event before it is upserted.
+// Returns human-readable reasons; an empty list means the event is valid.
+export class EventValidator {
+  static validate(event: NormalizedEvent): string[] {
+    const reasons: string[] = [];
+
+    if (!event._id || typeof event._id !== 'string') reasons.push('missing event id');
+    if (!event.source) reasons.push('missing source');
+    if (!EVENT_TYPES.includes(event.type)) reasons.push(`unknown event type: ${event.type}`);
+
+    if (!this.isFiniteNumber(event.severity) || event.severity < 0 || event.severity > 10) {
+      reasons.push(`severity must be a number between 0 and 10 (got ${event.severity})`);
+    }
+
+    if (!this.isFiniteNumber(event.confidence) || event.confidence < 0 || event.confidence > 1) {
+      reasons.push(`confidence must be between 0 and 1 (got ${event.confidence})`);
+    }
+
+    reasons.push(...this.validateGeometry(event.geometry));
+
+    const bbox = event.area_bbox;
+    if (!Array.isArray(bbox) || bbox.length !== 4 || !bbox.every(v => this.isFiniteNumber(v))) {
+      reasons.push('area_bbox must be four numbers');
+    } else if (bbox[0] > bbox[2] || bbox[1] > bbox[3]) {
+      reasons.push('area_bbox min corner exceeds max corner');
+    }
+
+    if (!this.isValidDate(event.starts_at)) reasons.push('starts_at is not a valid date');
+    if (event.ends_at !== undefined && event.ends_at !== null) {
+      if (!this.isValidDate(event.ends_at)) {
+        reasons.push('ends_at is not a valid date');
+      } else if (this.isValidDate(event.starts_at) && event.ends_at.getTime() < event.starts_at.getTime()) {
+        reasons.push('ends_at is before starts_at');
+      }
+    }
+
+    return reasons;
+  }
+
+  private static validateGeometry(geometry: any): string[] {
+    if (!geometry || !Array.isArray(geometry.coordinates)) {
+      return ['geometry coordinates are missing'];
+    }
+
+    if (geometry.type === 'Point') {
+      return this.isValidPosition(geometry.coordinates)
+        ? []
+        : [`Point coordinates out of range: ${JSON.stringify(geometry.coordinates)}`];
+    }
+
+    if (geometry.type === 'Polygon') {
+      const rings = geometry.coordinates;
+      if (rings.length === 0) return ['Polygon has no rings'];
+
+      for (const ring of rings) {
+        if (!Array.isArray(ring) || ring.length < 4) return ['Polygon ring needs at least four positions'];
+        if (!ring.every((position: any) => this.isValidPosition(position))) return ['Polygon coordinates out of range'];
+
+        const first = ring[0];
+        const last = ring[ring.length - 1];
+        if (first[0] !== last[0] || first[1] !== last[1]) return ['Polygon ring is not closed'];
+      }
+      return [];
+    }
+
+    return [`unsupported geometry type: ${geometry.type}`];
+  }
+
+  private static isValidPosition(position: any): boolean {
+    return Array.isArray(position) &&
+      position.length >= 2 &&
+      this.isFiniteNumber(position[0]) && position[0] >= -180 && position[0] <= 180 &&
+      this.isFiniteNumber(position[1]) && position[1] >= -90 && position[1] <= 90;
+  }
+
+  private static isFiniteNumber(value: any): boolean {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+
+  private static isValidDate(value: any): boolean {
+    return value instanceof Date && !isNaN(value.getTime());
+  }
+}
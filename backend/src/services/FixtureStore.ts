@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'off' | 'replay' | 'record';
+
+// Recorded upstream responses laid out as <INGEST_FIXTURE_DIR>/<source>/<name>
+export class FixtureStore {
+  static get mode(): FixtureMode {
+    const mode = (process.env.INGEST_FIXTURE_MODE || 'off').toLowerCase();
+    return mode === 'replay' || mode === 'record' ? mode : 'off';
+  }
+
+  static get directory(): string {
+    return path.resolve(process.env.INGEST_FIXTURE_DIR || 'fixtures');
+  }
+
+  // Tries each candidate name in order, e.g. a location-specific file then a shared one
+  static async read(source: string, names: string[]): Promise<string> {
+    for (const name of names) {
+      try {
+        return await fs.readFile(this.resolve(source, name), 'utf8');
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') throw error;
+      }
+    }
+
+    throw new Error(`No fixture recorded for ${source} (looked for ${names.join(', ')} in ${this.directory})`);
+  }
+
+  static async write(source: string, name: string, body: string): Promise<void> {
+    const filePath = this.resolve(source, name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body, 'utf8');
+  }
+
+  private static resolve(source: string, name: string): string {
+    // Fixture names come from adapter code, but keep them inside the directory regardless
+    const safeName = name.replace(/[^a-zA-Z0-9._-]/g, '_');
+    return path.join(this.directory, source, safeName);
+  }
+}
@@ -0,0 +1,149 @@
+import { GeoMatchService } from './GeoMatchService';
+
+// Point event whose area_bbox spans radiusKm each way, as the adapters build it
+const pointEvent = (lng: number, lat: number, radiusKm: number) => ({
+  geometry: { type: 'Point', coordinates: [lng, lat] },
+  area_bbox: [lng - radiusKm / 111, lat - radiusKm / 111, lng + radiusKm / 111, lat + radiusKm / 111]
+});
+
+const square = (minLng: number, minLat: number, maxLng: number, maxLat: number) =>
+  [[minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat]];
+
+const polygon = (...rings: number[][][]) => ({ type: 'Polygon', coordinates: rings });
+
+describe('GeoMatchService', () => {
+  describe('impactRadiusKm', () => {
+    it.each([
+      ['a point event', pointEvent(101.7, 3.1, 250), 250],
+      ['a point event near the pole', pointEvent(0, 89.5, 100), 100],
+      ['a polygon event', { geometry: polygon(square(101, 3, 102, 4)), area_bbox: [101, 3, 102, 4] }, GeoMatchService.POLYGON_IMPACT_BUFFER_KM]
+    ])('is read from %s', (_label, event, expected) => {
+      expect(GeoMatchService.impactRadiusKm(event)).toBeCloseTo(expected, 6);
+    });
+  });
+
+  describe('matchDistanceKm', () => {
+    it.each([
+      ['inside both radii', pointEvent(101.7, 3.1, 100), [101.7, 3.2], 50, 11.1],
+      ['at the event itself', pointEvent(101.7, 3.1, 100), [101.7, 3.1], 1, 0],
+      ['just inside the subscriber radius', pointEvent(101.7, 3.1, 100), [101.7, 3.2], 11.2, 11.1],
+      ['beyond the subscriber radius', pointEvent(101.7, 3.1, 100), [101.7, 3.2], 11, null],
+      ['beyond the impact radius', pointEvent(101.7, 3.1, 10), [101.7, 3.2], 100, null],
+      ['beyond the impact radius along a parallel', pointEvent(101.7, 60, 50), [102.7, 60], 100, null],
+      ['across the antimeridian', pointEvent(179.95, -17, 50), [-179.95, -17], 20, 10.6],
+      ['across the antimeridian, beyond the subscriber radius', pointEvent(179.95, -17, 50), [-179.95, -17], 10, null],
+      ['across the north pole', pointEvent(0, 89.95, 50), [180, 89.95], 20, 11.1],
+      ['across the south pole', pointEvent(90, -89.95, 50), [-90, -89.95], 20, 11.1],
+      ['at the pole, whatever the longitude', pointEvent(0, 90, 50), [137, 90], 1, 0]
+    ])('%s', (_label, event, [lng, lat], radiusKm, expected) => {
+      expect(GeoMatchService.matchDistanceKm(event, lng, lat, radiusKm)).toBe(expected);
+    });
+
+    it('measures from the nearest edge of a polygon event against its buffer', () => {
+      const event = { geometry: polygon(square(101, 3, 102, 4)), area_bbox: [101, 3, 102, 4] };
+
+      expect(GeoMatchService.matchDistanceKm(event, 101.5, 3.5, 1)).toBe(0);
+      expect(GeoMatchService.matchDistanceKm(event, 102.05, 3.5, 50)).toBe(5.5);
+      expect(GeoMatchService.matchDistanceKm(event, 102.05, 3.5, 5)).toBeNull();
+      expect(GeoMatchService.matchDistanceKm(event, 102.2, 3.5, 50)).toBeNull();
+    });
+  });
+
+  describe('distanceToGeometryKm', () => {
+    const donut = polygon(square(100, 0, 104, 4), square(101, 1, 103, 3));
+    const islands = { type: 'MultiPolygon', coordinates: [[square(100, 0, 101, 1)], [square(110, 0, 111, 1)]] };
+    // Fiji-style area split at the antimeridian, as RFC 7946 asks
+    const fiji = { type: 'MultiPolygon', coordinates: [[square(179, -18, 180, -16)], [square(-180, -18, -179.5, -16)]] };
+    const arctic = polygon([[0, 89], [90, 89], [180, 89], [-90, 89], [0, 89]]);
+
+    it.each([
+      ['a point', [101.7, 3.2], { type: 'Point', coordinates: [101.7, 3.1] }, 11.12],
+      ['a point across the antimeridian', [-179.95, -17], { type: 'Point', coordinates: [179.95, -17] }, 10.63],
+      ['inside a polygon', [100.5, 0.5], donut, 0],
+      ['on a polygon vertex', [100, 0], donut, 0],
+      ['outside a polygon', [104.1, 2], donut, 11.11],
+      ['inside a hole', [102, 2], donut, 111.13],
+      ['inside either part of a MultiPolygon', [110.5, 0.5], islands, 0],
+      ['between the parts of a MultiPolygon', [105.5, 0.5], islands, 500.36],
+      ['inside the part east of the antimeridian', [179.5, -17], fiji, 0],
+      ['inside the part west of the antimeridian', [-179.8, -17], fiji, 0],
+      ['just east of a part across the antimeridian', [-179.4, -17], fiji, 10.63],
+      ['just west of a part across the antimeridian', [178.9, -17], fiji, 10.63],
+      ['across the antimeridian from an area', [-179.9, -17], polygon(square(179, -18, 180, -16)), 10.63],
+      ['across the antimeridian from an area on the other side', [179.9, -17], polygon(square(-180, -18, -179, -16)), 10.63],
+      ['inside a polar cap', [45, 89.5], arctic, 0],
+      ['at the pole inside a polar cap', [0, 90], arctic, 0],
+      ['south of a polar cap', [0, 88.5], arctic, 55.6],
+      ['across the pole from an area', [0, 89.9], polygon(square(175, 89.5, 180, 89.8)), 33.36]
+    ])('%s', (_label, [lng, lat], geometry, expected) => {
+      expect(GeoMatchService.distanceToGeometryKm(lng, lat, geometry)).toBeCloseTo(expected, 1);
+    });
+  });
+
+  describe('distanceBetweenKm', () => {
+    const block = polygon(square(101, 3, 102, 4));
+
+    it.each([
+      ['identical polygons', block, 0],
+      ['polygons whose edges cross without a vertex inside the other', polygon(square(100.8, 3.4, 102.2, 3.6)), 0],
+      ['polygons sharing an edge', polygon(square(102, 3, 103, 4)), 0],
+      ['polygons touching at a corner', polygon(square(102, 4, 103, 5)), 0],
+      ['a polygon inside the other', polygon(square(101.4, 3.4, 101.6, 3.6)), 0],
+      ['a polygon around the other', polygon(square(100, 2, 103, 5)), 0],
+      ['separate polygons', polygon(square(102.1, 3, 103, 4)), 11.1],
+      ['a MultiPolygon with one part crossing', { type: 'MultiPolygon', coordinates: [[square(110, 0, 111, 1)], [square(100.8, 3.4, 102.2, 3.6)]] }, 0],
+      ['a point inside', { type: 'Point', coordinates: [101.5, 3.5] }, 0]
+    ])('is measured for %s', (_label, other, expected) => {
+      expect(GeoMatchService.distanceBetweenKm(block, other)).toBeCloseTo(expected, 1);
+      expect(GeoMatchService.distanceBetweenKm(other, block)).toBeCloseTo(expected, 1);
+    });
+
+    it.each([
+      ['crossing at the antimeridian', square(179.5, -17.2, 180, -16.8), square(-180, -17.1, -179.5, -16.9), 0],
+      ['overlapping across the antimeridian', [[179.8, -17.2], [-179.8, -17.2], [-179.8, -16.8], [179.8, -16.8], [179.8, -17.2]], square(179.9, -17.5, 180, -16.5), 0],
+      ['apart across the antimeridian', square(179, -18, 179.9, -16), square(-179.9, -18, -179, -16), 21.15],
+      ['crossing over the north pole', [[0, 89.5], [180, 89.5], [180, 89.6], [0, 89.6], [0, 89.5]], [[90, 89.5], [-90, 89.5], [-90, 89.6], [90, 89.6], [90, 89.5]], 0]
+    ])('is measured for polygons %s', (_label, ringA, ringB, expected) => {
+      expect(GeoMatchService.distanceBetweenKm(polygon(ringA), polygon(ringB))).toBeCloseTo(expected, 1);
+    });
+  });
+
+  describe('matchPolygonKm', () => {
+    const area = polygon(square(101, 3, 102, 4));
+
+    it.each([
+      ['a point event inside the area', pointEvent(101.5, 3.5, 50), 0],
+      ['a point event whose impact radius reaches the area', pointEvent(102.3, 3.5, 50), 33.3],
+      ['a point event whose impact radius stops short', pointEvent(102.3, 3.5, 30), null],
+      ['a point event far away with a wide radius', pointEvent(110, 3.5, 2000), 887.9],
+      ['a polygon event crossing the area', { geometry: polygon(square(100.8, 3.4, 102.2, 3.6)), area_bbox: [100.8, 3.4, 102.2, 3.6] }, 0],
+      ['a polygon event within its buffer', { geometry: polygon(square(102.05, 3, 103, 4)), area_bbox: [102.05, 3, 103, 4] }, 5.5],
+      ['a polygon event beyond its buffer', { geometry: polygon(square(102.1, 3, 103, 4)), area_bbox: [102.1, 3, 103, 4] }, null]
+    ])('%s', (_label, event, expected) => {
+      expect(GeoMatchService.matchPolygonKm(event, area)).toBe(expected);
+    });
+
+    it('matches across the antimeridian', () => {
+      const fiji = { type: 'MultiPolygon', coordinates: [[square(179, -18, 180, -16)], [square(-180, -18, -179.5, -16)]] };
+
+      expect(GeoMatchService.matchPolygonKm(pointEvent(-179.2, -17, 50), fiji)).toBe(31.9);
+      expect(GeoMatchService.matchPolygonKm(pointEvent(178.8, -17, 50), fiji)).toBe(21.3);
+    });
+  });
+
+  describe('circlePolygon', () => {
+    it.each([
+      ['near the equator', 101.7, 3.1],
+      ['across the antimeridian', 179.9, -17],
+      ['near the pole', 45, 89.8]
+    ])('keeps every vertex at the radius %s', (_label, lng, lat) => {
+      const [ring] = GeoMatchService.circlePolygon(lng, lat, 50).coordinates;
+
+      expect(ring[0]).toEqual(ring[ring.length - 1]);
+      for (const [x, y] of ring) {
+        expect(Math.abs(x)).toBeLessThanOrEqual(180);
+        expect(GeoMatchService.haversineKm(lat, lng, y, x)).toBeCloseTo(50, 1);
+      }
+    });
+  });
+});
@@ -0,0 +1,310 @@
+// Distance-based matching between events and subscriber locations. An event reaches a
+// subscriber only when the subscriber is inside the event's impact radius and the event
+// is inside the subscriber's own radius_km.
+export class GeoMatchService {
+  private static readonly EARTH_RADIUS_KM = 6371;
+  private static readonly KM_PER_DEGREE = 111; // what adapters use to turn impact radii into area_bbox
+
+  // Polygon events (e.g. EONET wildfire perimeters) reach this far beyond their edge
+  static readonly POLYGON_IMPACT_BUFFER_KM = 10;
+
+  // Upper bound of Subscription.radius_km
+  static readonly MAX_SUBSCRIPTION_RADIUS_KM = 100;
+
+  // Adapters build area_bbox as the event point ± radiusKm / 111 degrees
+  static impactRadiusKm(event: any): number {
+    if (event.geometry?.type !== 'Point') return this.POLYGON_IMPACT_BUFFER_KM;
+
+    const [minLng, minLat, maxLng, maxLat] = event.area_bbox;
+    return Math.max(maxLat - minLat, maxLng - minLng) / 2 * this.KM_PER_DEGREE;
+  }
+
+  // Coarse Subscription.location condition; candidates are then checked with matchDistanceKm
+  static buildCandidateQuery(event: any): any {
+    if (event.geometry?.type === 'Point') {
+      const [lng, lat] = event.geometry.coordinates;
+      const searchKm = Math.min(this.impactRadiusKm(event), this.MAX_SUBSCRIPTION_RADIUS_KM);
+
+      return {
+        $geoWithin: { $centerSphere: [[lng, lat], searchKm / this.EARTH_RADIUS_KM] }
+      };
+    }
+
+    const [minLng, minLat, maxLng, maxLat] = event.area_bbox;
+    const padLat = this.POLYGON_IMPACT_BUFFER_KM / this.KM_PER_DEGREE;
+    const padLng = padLat / Math.max(0.01, Math.cos(((minLat + maxLat) / 2) * Math.PI / 180));
+
+    return {
+      $geoWithin: { $box: [[minLng - padLng, minLat - padLat], [maxLng + padLng, maxLat + padLat]] }
+    };
+  }
+
+  // GeoJSON region that contains everything the event can reach, for $geoIntersects
+  static buildSearchRegion(event: any): any {
+    if (event.geometry?.type === 'Point') {
+      const [lng, lat] = event.geometry.coordinates;
+      return this.circlePolygon(lng, lat, this.impactRadiusKm(event));
+    }
+
+    const [minLng, minLat, maxLng, maxLat] = event.area_bbox;
+    const padLat = this.POLYGON_IMPACT_BUFFER_KM / this.KM_PER_DEGREE;
+    const padLng = padLat / Math.max(0.01, Math.cos(((minLat + maxLat) / 2) * Math.PI / 180));
+
+    return {
+      type: 'Polygon',
+      coordinates: [[
+        [minLng - padLng, minLat - padLat],
+        [maxLng + padLng, minLat - padLat],
+        [maxLng + padLng, maxLat + padLat],
+        [minLng - padLng, maxLat + padLat],
+        [minLng - padLng, minLat - padLat]
+      ]]
+    };
+  }
+
+  // Distance in km when a drawn subscriber area is within the event's reach, otherwise null
+  static matchPolygonKm(event: any, areaGeometry: any): number | null {
+    const distance = this.distanceBetweenKm(event.geometry, areaGeometry);
+    if (distance > this.impactRadiusKm(event)) return null;
+
+    return Math.round(distance * 10) / 10;
+  }
+
+  // Distance in km when the subscriber location should be alerted, otherwise null
+  static matchDistanceKm(event: any, lng: number, lat: number, radiusKm: number): number | null {
+    const distance = this.distanceToGeometryKm(lng, lat, event.geometry);
+    if (distance > this.impactRadiusKm(event) || distance > radiusKm) return null;
+
+    return Math.round(distance * 10) / 10;
+  }
+
+  // 0 inside a polygon, otherwise the distance to the point or the nearest polygon edge
+  static distanceToGeometryKm(lng: number, lat: number, geometry: any): number {
+    if (geometry.type === 'Point') {
+      const [pointLng, pointLat] = geometry.coordinates;
+      return this.haversineKm(lat, lng, pointLat, pointLng);
+    }
+
+    const polygons: number[][][][] = geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+    let nearest = Infinity;
+
+    for (const rings of polygons) {
+      const [outer, ...holes] = rings;
+      if (this.inRing(lng, lat, outer) && !holes.some(hole => this.inRing(lng, lat, hole))) return 0;
+
+      for (const ring of rings) {
+        nearest = Math.min(nearest, this.distanceToRingKm(lng, lat, ring));
+      }
+    }
+
+    return nearest;
+  }
+
+  // Between two geometries; 0 when they overlap. Polygons overlap when their edges cross
+  // or one contains a vertex of the other; apart, the nearest pair always involves a vertex.
+  static distanceBetweenKm(a: any, b: any): number {
+    if (a.type === 'Point') return this.distanceToGeometryKm(a.coordinates[0], a.coordinates[1], b);
+    if (b.type === 'Point') return this.distanceToGeometryKm(b.coordinates[0], b.coordinates[1], a);
+
+    if (this.edgesCross(a, b)) return 0;
+
+    let nearest = Infinity;
+    for (const [lng, lat] of this.vertices(a)) {
+      nearest = Math.min(nearest, this.distanceToGeometryKm(lng, lat, b));
+      if (nearest === 0) return 0;
+    }
+    for (const [lng, lat] of this.vertices(b)) {
+      nearest = Math.min(nearest, this.distanceToGeometryKm(lng, lat, a));
+      if (nearest === 0) return 0;
+    }
+
+    return nearest;
+  }
+
+  // Polygon approximating a circle on the sphere
+  static circlePolygon(lng: number, lat: number, radiusKm: number, steps: number = 32): any {
+    const angular = radiusKm / this.EARTH_RADIUS_KM;
+    const lat1 = lat * Math.PI / 180;
+    const lng1 = lng * Math.PI / 180;
+    const ring: number[][] = [];
+
+    for (let i = 0; i < steps; i++) {
+      const bearing = (2 * Math.PI * i) / steps;
+      const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+      const lng2 = lng1 + Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+        Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+      );
+      // Longitudes wrap past the antimeridian, and past ±180 when the circle covers a pole
+      const lngDegrees = ((lng2 * 180 / Math.PI + 540) % 360) - 180;
+      ring.push([this.round(lngDegrees), this.round(lat2 * 180 / Math.PI)]);
+    }
+    ring.push(ring[0]);
+
+    return { type: 'Polygon', coordinates: [ring] };
+  }
+
+  // Mean of the outer ring vertices of the first polygon
+  static centroid(geometry: any): [number, number] {
+    if (geometry.type === 'Point') return geometry.coordinates;
+
+    const outer: number[][] = geometry.type === 'MultiPolygon' ? geometry.coordinates[0][0] : geometry.coordinates[0];
+    const points = outer.slice(0, -1);
+    const lng = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+    const lat = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+
+    return [this.round(lng), this.round(lat)];
+  }
+
+  static haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLng = (lng2 - lng1) * Math.PI / 180;
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+      Math.sin(dLng / 2) * Math.sin(dLng / 2);
+    return this.EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  private static vertices(geometry: any): number[][] {
+    const polygons: number[][][][] = geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+    return polygons.flatMap(rings => rings.flat());
+  }
+
+  private static rings(geometry: any): number[][][] {
+    const polygons: number[][][][] = geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+    return polygons.flat();
+  }
+
+  // Whether any ring edge of a crosses or touches one of b, as great-circle arcs
+  private static edgesCross(a: any, b: any): boolean {
+    const ringsA = this.rings(a).map(ring => ring.map(position => this.toVector(position)));
+    const ringsB = this.rings(b).map(ring => ring.map(position => this.toVector(position)));
+    const capsB = ringsB.map(ring => this.boundingCap(ring));
+
+    for (const ringA of ringsA) {
+      const capA = this.boundingCap(ringA);
+      for (let k = 0; k < ringsB.length; k++) {
+        const ringB = ringsB[k];
+        const capB = capsB[k];
+        if (this.angleBetween(capA.center, capB.center) > capA.radius + capB.radius) continue;
+
+        for (let i = 0; i < ringA.length - 1; i++) {
+          for (let j = 0; j < ringB.length - 1; j++) {
+            if (this.arcsIntersect(ringA[i], ringA[i + 1], ringB[j], ringB[j + 1])) return true;
+          }
+        }
+      }
+    }
+
+    return false;
+  }
+
+  // Spherical cap around a ring's vertices. Caps under a hemisphere are convex and so hold
+  // the edges too; larger ones are widened to the whole sphere.
+  private static boundingCap(ring: number[][]): { center: number[]; radius: number } {
+    const sum = ring.slice(0, -1).reduce((total, vector) => total.map((value, i) => value + vector[i]), [0, 0, 0]);
+    const length = Math.hypot(sum[0], sum[1], sum[2]);
+    if (length < 1e-9) return { center: [0, 0, 1], radius: Math.PI };
+
+    const center = sum.map(value => value / length);
+    const radius = Math.max(...ring.map(vector => this.angleBetween(center, vector)));
+    return { center, radius: radius < Math.PI / 2 ? radius : Math.PI };
+  }
+
+  // Arcs p1-p2 and q1-q2 meet where their great circles do, if that point lies on both;
+  // arcs on one great circle meet when an end of one lies on the other
+  private static arcsIntersect(p1: number[], p2: number[], q1: number[], q2: number[]): boolean {
+    const onArc = (x: number[], from: number[], to: number[]) =>
+      Math.abs(this.angleBetween(from, x) + this.angleBetween(x, to) - this.angleBetween(from, to)) < 1e-9;
+
+    const normalP = this.crossProduct(p1, p2);
+    const normalQ = this.crossProduct(q1, q2);
+    const line = this.crossProduct(normalP, normalQ);
+    const length = Math.hypot(line[0], line[1], line[2]);
+
+    if (length <= 1e-12 * Math.hypot(...normalP) * Math.hypot(...normalQ)) {
+      return onArc(q1, p1, p2) || onArc(q2, p1, p2) || onArc(p1, q1, q2) || onArc(p2, q1, q2);
+    }
+
+    const meeting = line.map(value => value / length);
+    const opposite = meeting.map(value => -value);
+    return [meeting, opposite].some(x => onArc(x, p1, p2) && onArc(x, q1, q2));
+  }
+
+  private static toVector([lng, lat]: number[]): number[] {
+    const phi = lat * Math.PI / 180;
+    const lambda = lng * Math.PI / 180;
+    return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+  }
+
+  private static crossProduct(a: number[], b: number[]): number[] {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+  }
+
+  // Angle between unit vectors, in radians
+  private static angleBetween(a: number[], b: number[]): number {
+    const cross = this.crossProduct(a, b);
+    return Math.atan2(Math.hypot(cross[0], cross[1], cross[2]), a[0] * b[0] + a[1] * b[1] + a[2] * b[2]);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000000) / 1000000;
+  }
+
+  // Winding on the sphere: seen from inside, the vertices go all the way around, so
+  // rings around a pole or across the antimeridian work too
+  private static inRing(lng: number, lat: number, ring: number[][]): boolean {
+    let turned = 0;
+
+    for (let i = 0; i < ring.length - 1; i++) {
+      let turn = this.bearing(lat, lng, ring[i + 1][1], ring[i + 1][0]) - this.bearing(lat, lng, ring[i][1], ring[i][0]);
+      if (turn > Math.PI) turn -= 2 * Math.PI;
+      if (turn < -Math.PI) turn += 2 * Math.PI;
+      turned += turn;
+    }
+
+    return Math.abs(turned) > Math.PI;
+  }
+
+  // Edges are great-circle arcs, as in MongoDB's 2dsphere queries, so distances hold
+  // across the antimeridian and near the poles
+  private static distanceToRingKm(lng: number, lat: number, ring: number[][]): number {
+    let nearest = Infinity;
+
+    for (let i = 0; i < ring.length - 1; i++) {
+      nearest = Math.min(nearest, this.distanceToArcKm(lng, lat, ring[i], ring[i + 1]));
+    }
+
+    return nearest;
+  }
+
+  // Cross-track distance when the nearest point lies within the arc, otherwise the nearer end
+  private static distanceToArcKm(lng: number, lat: number, [lngA, latA]: number[], [lngB, latB]: number[]): number {
+    const toA = this.haversineKm(lat, lng, latA, lngA);
+    const toB = this.haversineKm(lat, lng, latB, lngB);
+    const arc = this.haversineKm(latA, lngA, latB, lngB) / this.EARTH_RADIUS_KM;
+    if (arc === 0) return toA;
+
+    const fromA = toA / this.EARTH_RADIUS_KM;
+    const angle = this.bearing(latA, lngA, lat, lng) - this.bearing(latA, lngA, latB, lngB);
+    if (Math.cos(angle) <= 0) return toA;
+
+    const crossTrack = Math.asin(Math.max(-1, Math.min(1, Math.sin(fromA) * Math.sin(angle))));
+    const alongTrack = Math.acos(Math.max(-1, Math.min(1, Math.cos(fromA) / Math.cos(crossTrack))));
+    if (alongTrack >= arc) return toB;
+
+    return Math.abs(crossTrack) * this.EARTH_RADIUS_KM;
+  }
+
+  // Initial bearing from the first position to the second, in radians
+  private static bearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const phi1 = lat1 * Math.PI / 180;
+    const phi2 = lat2 * Math.PI / 180;
+    const dLng = (lng2 - lng1) * Math.PI / 180;
+
+    return Math.atan2(
+      Math.sin(dLng) * Math.cos(phi2),
+      Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng)
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { HeldAlert, HoldReason } from '../models/HeldAlert';
+import { Subscription } from '../models/Subscription';
+import { AlertQueueService } from './AlertQueueService';
+import { AlertSummaryService } from './AlertSummaryService';
+import { DigestService } from './DigestService';
+import { AlertContent } from './AlertService';
+
+// Alerts deferred for a subscriber (quiet hours or digest mode) and sent later as a single summary
+export class HeldAlertService {
+  private static readonly TICK_MS = Number(process.env.HELD_ALERT_TICK_MS) || 60 * 1000;
+
+  private static timer: NodeJS.Timeout | null = null;
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.releaseDue().catch(console.error);
+    this.timer = setInterval(() => {
+      this.releaseDue().catch(console.error);
+    }, this.TICK_MS);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  static async hold(
+    alertId: string,
+    subscription: any,
+    event: any,
+    content: AlertContent,
+    reason: HoldReason,
+    releaseAt: Date,
+    distanceKm?: number
+  ): Promise<void> {
+    await HeldAlert.create({
+      _id: uuidv4(),
+      subscription_id: subscription._id,
+      event_id: event._id,
+      alert_id: alertId,
+      event_type: event.type,
+      severity: event.severity,
+      title: content.title,
+      distance_km: distanceKm,
+      reason,
+      status: 'held',
+      release_at: releaseAt,
+      held_at: new Date()
+    });
+  }
+
+  // Sends one summary per subscriber and reason for everything whose hold has ended.
+  // Returns the number of summaries queued.
+  static async releaseDue(now: Date = new Date()): Promise<number> {
+    const due = await HeldAlert.aggregate([
+      { $match: { status: 'held', release_at: { $lte: now } } },
+      { $group: { _id: { subscription_id: '$subscription_id', reason: '$reason' } } }
+    ]);
+
+    let queued = 0;
+    for (const { _id } of due) {
+      try {
+        if (await this.release(_id.subscription_id, _id.reason, now)) queued++;
+      } catch (error) {
+        console.error(`Failed to release held alerts for subscription ${_id.subscription_id}:`, error);
+      }
+    }
+
+    return queued;
+  }
+
+  private static async release(subscriptionId: string, reason: HoldReason, now: Date): Promise<boolean> {
+    const summaryId = uuidv4();
+
+    // The status change claims the alerts, so concurrent instances never summarize one twice
+    await HeldAlert.updateMany(
+      { subscription_id: subscriptionId, reason, status: 'held', release_at: { $lte: now } },
+      { $set: { status: 'released', summary_id: summaryId, released_at: now } }
+    );
+
+    const held = await HeldAlert.find({ summary_id: summaryId }).lean();
+    if (held.length === 0) return false;
+
+    const subscription = await Subscription.findById(subscriptionId);
+    if (!subscription) return false;
+
+    try {
+      const summary = AlertSummaryService.build(reason, held);
+      const channels = reason === 'quiet_hours' ? undefined : DigestService.CHANNELS;
+      await AlertQueueService.enqueueSummary(summaryId, subscription, summary, channels);
+    } catch (error) {
+      // Put them back so the next tick retries
+      await HeldAlert.updateMany(
+        { summary_id: summaryId },
+        { $set: { status: 'held' }, $unset: { summary_id: '', released_at: '' } }
+      );
+      throw error;
+    }
+
+    console.log(`Released ${held.length} held alert(s) for subscription ${subscriptionId} as one summary`);
+    return true;
+  }
+}
@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IngestionRun } from '../models/IngestionRun';
+
+export interface IngestResult {
+  inserted: number; // events seen for the first time
+  changed: number; // existing events whose upstream content changed
+  unchanged: number;
+  errors?: string[];
+}
+
+export type IngestTrigger = 'manual' | 'scheduled' | 'batch';
+
+export class IngestionRunService {
+  // Runs an ingestion and persists its outcome, rethrowing failures to the caller
+  static async track<T extends IngestResult>(
+    source: string,
+    trigger: IngestTrigger,
+    ingest: () => Promise<T>,
+    batchId?: string
+  ): Promise<T & { run_id: string }> {
+    const runId = uuidv4();
+    const startedAt = new Date();
+
+    await IngestionRun.create({
+      _id: runId,
+      source,
+      trigger,
+      batch_id: batchId,
+      status: 'running',
+      started_at: startedAt
+    });
+
+    try {
+      const result = await ingest();
+      const errors = result.errors || [];
+
+      await this.finish(runId, startedAt, {
+        status: errors.length > 0 ? 'partial' : 'success',
+        inserted: result.inserted,
+        changed: result.changed,
+        unchanged: result.unchanged,
+        error_messages: errors
+      });
+
+      return { ...result, run_id: runId };
+    } catch (error) {
+      await this.finish(runId, startedAt, {
+        status: 'failed',
+        error_messages: [error instanceof Error ? error.message : 'Unknown error']
+      }).catch(console.error);
+      throw error;
+    }
+  }
+
+  static async getSourceHealth(source: string, staleAfterMinutes: number): Promise<any> {
+    const [lastRun, lastSuccess] = await Promise.all([
+      IngestionRun.findOne({ source, status: { $ne: 'running' } }).sort({ started_at: -1 }).lean(),
+      IngestionRun.findOne({ source, status: { $in: ['success', 'partial'] } }).sort({ started_at: -1 }).lean()
+    ]);
+
+    const consecutiveFailures = await IngestionRun.countDocuments({
+      source,
+      status: 'failed',
+      ...(lastSuccess && { started_at: { $gt: lastSuccess.started_at } })
+    });
+
+    let status = 'unknown';
+    if (lastRun) {
+      const staleBefore = Date.now() - staleAfterMinutes * 60 * 1000;
+
+      if (lastRun.status === 'failed') status = 'failing';
+      else if (!lastSuccess || lastSuccess.started_at.getTime() < staleBefore) status = 'stale';
+      else if (lastRun.status === 'partial') status = 'degraded';
+      else status = 'healthy';
+    }
+
+    return {
+      source,
+      status,
+      last_run_at: lastRun?.started_at || null,
+      last_run_status: lastRun?.status || null,
+      last_run_inserted: lastRun?.inserted ?? null,
+      last_run_changed: lastRun?.changed ?? null,
+      last_run_unchanged: lastRun?.unchanged ?? null,
+      last_success_at: lastSuccess?.started_at || null,
+      last_error: lastRun?.error_messages?.[0] || null,
+      consecutive_failures: consecutiveFailures
+    };
+  }
+
+  private static async finish(runId: string, startedAt: Date, fields: Record<string, any>): Promise<void> {
+    const endedAt = new Date();
+
+    await IngestionRun.updateOne(
+      { _id: runId },
+      {
+        $set: {
+          ...fields,
+          ended_at: endedAt,
+          duration_ms: endedAt.getTime() - startedAt.getTime()
+        }
+      }
+    );
+  }
+}
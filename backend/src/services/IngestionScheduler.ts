@@ -0,0 +1,159 @@
+import os from 'os';
+import { IngestionSchedule } from '../models/IngestionSchedule';
+import { AlertService } from './AlertService';
+import { IngestionRunService } from './IngestionRunService';
+import { IngestionService } from './IngestionService';
+import { SourceRegistry } from '../adapters/SourceRegistry';
+import { SourceAdapter } from '../adapters/SourceAdapter';
+
+export class IngestionScheduler {
+  private static readonly TICK_MS = Number(process.env.INGEST_SCHEDULER_TICK_MS) || 30 * 1000;
+  private static readonly LOCK_TTL_MS = Number(process.env.INGEST_LOCK_TTL_MS) || 15 * 60 * 1000;
+  private static readonly INSTANCE_ID = `${os.hostname()}-${process.pid}`;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = new Set<string>();
+
+  static start(): void {
+    if (this.timer) return;
+
+    const enabled = this.getEnabledSources();
+    console.log(`⏱️ Ingestion scheduler started for: ${enabled.map(a => a.id).join(', ') || 'no sources'}`);
+
+    this.tick().catch(console.error);
+    this.timer = setInterval(() => {
+      this.tick().catch(console.error);
+    }, this.TICK_MS);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Interval per source from INGEST_INTERVAL_<SOURCE>_MINUTES; 0 disables the source
+  static getIntervalMinutes(source: string): number {
+    const adapter = SourceRegistry.get(source);
+    const envKey = `INGEST_INTERVAL_${source.toUpperCase().replace(/-/g, '_')}_MINUTES`;
+    const value = process.env[envKey];
+
+    if (value !== undefined && value !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    return adapter ? adapter.defaultIntervalMinutes : 0;
+  }
+
+  static async getStatus(): Promise<any[]> {
+    const schedules = await IngestionSchedule.find({}).lean();
+    const byId = new Map(schedules.map(s => [s._id, s]));
+
+    return SourceRegistry.ids().map(source => {
+      const schedule = byId.get(source);
+      const intervalMinutes = this.getIntervalMinutes(source);
+      const locked = !!schedule?.locked_until && schedule.locked_until.getTime() > Date.now();
+
+      return {
+        source,
+        enabled: intervalMinutes > 0,
+        interval_minutes: intervalMinutes,
+        running: locked,
+        locked_by: locked ? schedule.locked_by : null,
+        last_run_at: schedule?.last_run_at || null,
+        last_finished_at: schedule?.last_finished_at || null,
+        last_status: schedule?.last_status || null,
+        last_error: schedule?.last_error || null,
+        next_run_at: intervalMinutes > 0 ? schedule?.next_run_at || null : null
+      };
+    });
+  }
+
+  private static getEnabledSources(): SourceAdapter[] {
+    return SourceRegistry.all().filter(adapter => this.getIntervalMinutes(adapter.id) > 0);
+  }
+
+  private static async tick(): Promise<void> {
+    for (const adapter of this.getEnabledSources()) {
+      if (this.running.has(adapter.id)) continue;
+
+      const acquired = await this.acquireLock(adapter.id);
+      if (!acquired) continue;
+
+      this.running.add(adapter.id);
+      this.runSource(adapter)
+        .catch(error => console.error(`Scheduled ingestion failed for ${adapter.id}:`, error))
+        .finally(() => this.running.delete(adapter.id));
+    }
+  }
+
+  // Claims the source only if it is due and not held by another instance.
+  // A duplicate key error on upsert means another instance owns the document.
+  private static async acquireLock(source: string): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      const schedule = await IngestionSchedule.findOneAndUpdate(
+        {
+          _id: source,
+          next_run_at: { $lte: now },
+          $or: [
+            { locked_until: { $exists: false } },
+            { locked_until: null },
+            { locked_until: { $lte: now } }
+          ]
+        },
+        {
+          $set: {
+            locked_by: this.INSTANCE_ID,
+            locked_until: new Date(now.getTime() + this.LOCK_TTL_MS),
+            interval_minutes: this.getIntervalMinutes(source)
+          },
+          $setOnInsert: { next_run_at: now }
+        },
+        { upsert: true, new: true }
+      );
+
+      return schedule?.locked_by === this.INSTANCE_ID;
+    } catch (error: any) {
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  private static async runSource(adapter: SourceAdapter): Promise<void> {
+    const startedAt = new Date();
+    let lastStatus: 'success' | 'failed' = 'success';
+    let lastError: string | undefined;
+
+    try {
+      const result = await IngestionRunService.track(adapter.id, 'scheduled', () => IngestionService.ingest(adapter));
+      console.log(`⏱️ Scheduled ${adapter.id} ingestion: ${result.inserted} new, ${result.changed} changed, ${result.unchanged} unchanged`);
+
+      if (result.inserted > 0) {
+        AlertService.processNewEvents(adapter.alertType).catch(console.error);
+      }
+    } catch (error) {
+      lastStatus = 'failed';
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+      throw error;
+    } finally {
+      const finishedAt = new Date();
+      const intervalMs = this.getIntervalMinutes(adapter.id) * 60 * 1000;
+
+      await IngestionSchedule.updateOne(
+        { _id: adapter.id, locked_by: this.INSTANCE_ID },
+        {
+          $set: {
+            last_run_at: startedAt,
+            last_finished_at: finishedAt,
+            last_status: lastStatus,
+            last_error: lastError || null,
+            next_run_at: new Date(startedAt.getTime() + intervalMs)
+          },
+          $unset: { locked_by: '', locked_until: '' }
+        }
+      );
+    }
+  }
+}
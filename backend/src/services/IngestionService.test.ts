@@ -0,0 +1,131 @@
+jest.mock('../server', () => ({ io: { to: jest.fn(() => ({ emit: jest.fn() })), emit: jest.fn() } }));
+jest.mock('node-fetch', () => jest.fn());
+
+import { IngestionService } from './IngestionService';
+import { SourceAdapter } from '../adapters/SourceAdapter';
+import { Event } from '../models/Event';
+import { EventRevision } from '../models/EventRevision';
+import { QuarantinedRecord } from '../models/QuarantinedRecord';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const FIRST_RUN = new Date('2026-03-01T00:00:00Z');
+const SECOND_RUN = new Date('2026-03-01T00:05:00Z');
+
+// Feed with one record per earthquake; records without a place cannot be normalized
+const adapter = (records: any[]): SourceAdapter => ({
+  id: 'quakes',
+  name: 'Test quakes',
+  idScheme: 'quakes-{id}',
+  defaultConfidence: 0.9,
+  defaultIntervalMinutes: 5,
+  includeInBatch: false,
+  trackedProperties: [],
+  fetchRaw: async () => ({ records }),
+  normalize: raw => {
+    if (!raw.place) throw new Error('place is missing');
+    return {
+      _id: `quakes-${raw.id}`,
+      source: 'quakes',
+      type: 'earthquake',
+      severity: raw.mag,
+      confidence: 0.9,
+      geometry: { type: 'Point', coordinates: [116.2, 5.98] },
+      area_bbox: [116, 5.8, 116.4, 6.2],
+      starts_at: new Date('2026-03-01T00:00:00Z'),
+      properties: { place: raw.place }
+    };
+  }
+});
+
+describe('IngestionService', () => {
+  describe('ingest', () => {
+    let events: MemoryCollection;
+    let quarantine: MemoryCollection;
+
+    const ingestAt = (now: Date, records: any[]) => {
+      jest.setSystemTime(now);
+      return IngestionService.ingest(adapter(records));
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      events = memoryModel(Event);
+      quarantine = memoryModel(QuarantinedRecord);
+      memoryModel(EventRevision);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('stores valid records and quarantines invalid ones', async () => {
+      const result = await ingestAt(FIRST_RUN, [
+        { id: 'a', mag: 12, place: 'Ranau' },
+        { id: 'b', mag: 5.1, place: 'Kundasang' },
+        { id: 'c', mag: 4.9 }
+      ]);
+
+      expect(result).toMatchObject({ inserted: 1, quarantined: 2 });
+      expect(events.documents.map(event => event._id)).toEqual(['quakes-b']);
+      expect(quarantine.matching({}, { sort: { upstream_key: 1 } })).toEqual([
+        expect.objectContaining({
+          upstream_key: 'quakes-a',
+          event_id: 'quakes-a',
+          reasons: ['severity must be a number between 0 and 10 (got 12)'],
+          count: 1
+        }),
+        expect.objectContaining({
+          upstream_key: expect.stringMatching(/^sha1:/),
+          reasons: ['normalize failed: place is missing'],
+          status: 'pending',
+          count: 1
+        })
+      ]);
+    });
+
+    it('keeps one entry per upstream record across runs', async () => {
+      const records = [{ id: 'a', mag: 12, place: 'Ranau' }, { id: 'c', mag: 4.9 }];
+
+      await ingestAt(FIRST_RUN, records);
+      await ingestAt(SECOND_RUN, records);
+
+      expect(quarantine.documents).toHaveLength(2);
+      for (const record of quarantine.documents) {
+        expect(record).toMatchObject({ count: 2, first_seen: FIRST_RUN, last_seen: SECOND_RUN });
+      }
+    });
+
+    it('updates the entry of an upstream id with its latest payload', async () => {
+      await ingestAt(FIRST_RUN, [{ id: 'a', mag: 12, place: 'Ranau' }]);
+      const [{ _id }] = quarantine.documents;
+
+      await ingestAt(SECOND_RUN, [{ id: 'a', mag: -1, place: 'Ranau' }]);
+
+      expect(quarantine.documents).toHaveLength(1);
+      expect(quarantine.get(_id)).toMatchObject({
+        raw: { id: 'a', mag: -1, place: 'Ranau' },
+        reasons: ['severity must be a number between 0 and 10 (got -1)'],
+        count: 2,
+        first_seen: FIRST_RUN
+      });
+    });
+
+    it('keeps separate entries for different records without an id', async () => {
+      await ingestAt(FIRST_RUN, [{ id: 'c', mag: 4.9 }, { id: 'd', mag: 4.9 }, { id: 'c', mag: 4.9 }]);
+
+      expect(quarantine.matching({}, { sort: { count: 1 } }).map(record => [record.raw.id, record.count])).toEqual([['d', 1], ['c', 2]]);
+    });
+
+    it('leaves a discarded entry discarded when the record comes back', async () => {
+      await ingestAt(FIRST_RUN, [{ id: 'a', mag: 12, place: 'Ranau' }]);
+      quarantine.documents[0].status = 'discarded';
+
+      await ingestAt(SECOND_RUN, [{ id: 'a', mag: 12, place: 'Ranau' }]);
+
+      expect(quarantine.documents).toEqual([expect.objectContaining({ status: 'discarded', count: 2 })]);
+    });
+  });
+});
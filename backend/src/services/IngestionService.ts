@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Event } from '../models/Event';
+import { EventRevision, IEventChange } from '../models/EventRevision';
+import { QuarantinedRecord, IQuarantinedRecord } from '../models/QuarantinedRecord';
+import { SourceAdapter, NormalizedEvent, FetchResult, BackfillRange, SourceOptionsError } from '../adapters/SourceAdapter';
+import { IngestResult } from './IngestionRunService';
+import { AlertService } from './AlertService';
+import { EventValidator } from './EventValidator';
+
+export interface AdapterIngestResult extends IngestResult {
+  revised: number;
+  quarantined: number;
+  meta: Record<string, any>;
+}
+
+interface UpsertResult {
+  inserted: number;
+  changed: number;
+  unchanged: number;
+  revisions: any[];
+}
+
+export class IngestionService {
+  // Fetch → normalize → bulk upsert pipeline shared by every source adapter
+  // Options from a manual ingest request, limited to the keys the adapter declares
+  static parseOptions(adapter: SourceAdapter, input: any): Record<string, any> {
+    if (input === undefined || input === null) return {};
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new SourceOptionsError('Request body must be a JSON object of ingest options');
+    }
+
+    const allowed = adapter.optionKeys || [];
+    const unsupported = Object.keys(input).filter(key => !allowed.includes(key));
+    if (unsupported.length > 0) {
+      throw new SourceOptionsError(
+        `Unsupported option(s) for ${adapter.id}: ${unsupported.join(', ')} (supported: ${allowed.join(', ') || 'none'})`
+      );
+    }
+
+    return adapter.parseOptions ? adapter.parseOptions(input) : {};
+  }
+
+  static async ingest(adapter: SourceAdapter, options: Record<string, any> = {}): Promise<AdapterIngestResult> {
+    try {
+      return await this.processFetched(adapter, await adapter.fetchRaw(options));
+    } catch (error) {
+      console.error(`${adapter.name} ingestion failed:`, error);
+      throw error;
+    }
+  }
+
+  // One backfill window; new events are tagged with the job so they do not raise alerts
+  static async ingestRange(adapter: SourceAdapter, range: BackfillRange, backfillJobId: string): Promise<AdapterIngestResult> {
+    if (!adapter.fetchRange) {
+      throw new Error(`${adapter.name} does not support historical backfill`);
+    }
+
+    return this.processFetched(adapter, await adapter.fetchRange(range), backfillJobId);
+  }
+
+  private static async processFetched(
+    adapter: SourceAdapter,
+    { records, errors = [], meta = {} }: FetchResult<any>,
+    backfillJobId?: string
+  ): Promise<AdapterIngestResult> {
+    // Later records win when a feed repeats an id within one response
+    const normalized = new Map<string, NormalizedEvent>();
+    const rejects: any[] = [];
+
+    for (const raw of records) {
+      const { event, reasons } = this.normalizeAndValidate(adapter, raw);
+
+      if (reasons.length > 0) {
+        rejects.push(this.buildQuarantineEntry(adapter, raw, event, reasons));
+      } else if (event) {
+        normalized.set(event._id, event);
+      }
+    }
+
+    if (rejects.length > 0) {
+      await QuarantinedRecord.bulkWrite(rejects, { ordered: false });
+      console.warn(`${adapter.name}: quarantined ${rejects.length} invalid records`);
+    }
+
+    const { revisions, ...result } = await this.upsertEvents(adapter, Array.from(normalized.values()), backfillJobId);
+
+    if (revisions.length > 0 && !backfillJobId) {
+      AlertService.processRevisions(revisions).catch(console.error);
+    }
+
+    console.log(`${adapter.name}: ${result.inserted} new, ${result.changed} changed, ${result.unchanged} unchanged`);
+    return { ...result, revised: revisions.length, quarantined: rejects.length, errors, meta };
+  }
+
+  // Runs a quarantined record back through its adapter, e.g. after a normalizer fix
+  static async reprocessQuarantined(record: IQuarantinedRecord, adapter: SourceAdapter): Promise<{ accepted: boolean; reasons: string[]; inserted: number }> {
+    const { event, reasons } = this.normalizeAndValidate(adapter, record.raw);
+    const now = new Date();
+
+    if (reasons.length > 0 || !event) {
+      const remaining = reasons.length > 0 ? reasons : ['adapter skipped the record'];
+      await QuarantinedRecord.updateOne(
+        { _id: record._id },
+        { $set: { reasons: remaining, normalized: this.toStorable(event) }, $inc: { attempts: 1 } }
+      );
+      return { accepted: false, reasons: remaining, inserted: 0 };
+    }
+
+    const { inserted, revisions } = await this.upsertEvents(adapter, [event]);
+    if (revisions.length > 0) {
+      AlertService.processRevisions(revisions).catch(console.error);
+    }
+
+    await QuarantinedRecord.updateOne(
+      { _id: record._id },
+      {
+        $set: { status: 'reprocessed', event_id: event._id, normalized: event, reasons: [], resolved_at: now },
+        $inc: { attempts: 1 }
+      }
+    );
+
+    return { accepted: true, reasons: [], inserted };
+  }
+
+  private static normalizeAndValidate(adapter: SourceAdapter, raw: any): { event: NormalizedEvent | null; reasons: string[] } {
+    let event: NormalizedEvent | null;
+
+    try {
+      event = adapter.normalize(raw);
+    } catch (error) {
+      return { event: null, reasons: [`normalize failed: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+
+    if (!event) return { event: null, reasons: [] };
+    return { event, reasons: EventValidator.validate(event) };
+  }
+
+  // A record that keeps failing on every poll stays one entry per upstream id (or raw
+  // content when the id could not be read) that counts how often it was seen
+  private static buildQuarantineEntry(adapter: SourceAdapter, raw: any, event: NormalizedEvent | null, reasons: string[]): any {
+    const now = new Date();
+
+    return {
+      updateOne: {
+        filter: { source: adapter.id, upstream_key: event?._id ?? this.hashRaw(raw) },
+        update: {
+          $setOnInsert: { _id: uuidv4(), status: 'pending', first_seen: now },
+          $set: { event_id: event?._id, raw, normalized: this.toStorable(event), reasons, last_seen: now },
+          $inc: { count: 1 }
+        },
+        upsert: true
+      }
+    };
+  }
+
+  // Invalid dates become null instead of failing BSON serialization
+  private static toStorable(event: NormalizedEvent | null): Record<string, any> | undefined {
+    return event ? JSON.parse(JSON.stringify(event)) : undefined;
+  }
+
+  // Compares each event against its stored content hash so that only genuinely new
+  // documents count as inserted and ingested_at keeps the first-seen time.
+  // Changes to tracked fields are written to EventRevision once the update has been applied.
+  static async upsertEvents(adapter: SourceAdapter, events: NormalizedEvent[], backfillJobId?: string): Promise<UpsertResult> {
+    if (events.length === 0) {
+      return { inserted: 0, changed: 0, unchanged: 0, revisions: [] };
+    }
+
+    const now = new Date();
+    const existing = await Event.find(
+      { _id: { $in: events.map(e => e._id) } },
+      { content_hash: 1, severity: 1, geometry: 1, area_bbox: 1, ends_at: 1, properties: 1, revision: 1 }
+    ).lean();
+    const stored = new Map(existing.map(e => [e._id, e]));
+
+    const changedIds: string[] = [];
+    const operations: any[] = [];
+    const revisions: any[] = [];
+
+    for (const event of events) {
+      const contentHash = this.hashContent(event);
+      const { _id, ...content } = event;
+
+      const previous = stored.get(_id);
+
+      if (!previous) {
+        operations.push({
+          updateOne: {
+            filter: { _id },
+            update: {
+              $setOnInsert: {
+                ...content,
+                content_hash: contentHash,
+                ingested_at: now,
+                ...(backfillJobId && { backfill_job_id: backfillJobId })
+              },
+              $set: { last_seen_at: now }
+            },
+            upsert: true
+          }
+        });
+      } else if (previous.content_hash !== contentHash) {
+        changedIds.push(_id);
+
+        const changes = this.diffTrackedFields(previous, event, adapter.trackedProperties);
+        const revision = changes.length > 0 ? (previous.revision || 0) + 1 : previous.revision || 0;
+
+        if (changes.length > 0) {
+          revisions.push({
+            _id: uuidv4(),
+            event_id: _id,
+            source: event.source,
+            type: event.type,
+            revision,
+            changes,
+            recorded_at: now
+          });
+        }
+
+        // The hash filter leaves the document alone if a concurrent run changed it first
+        operations.push({
+          updateOne: {
+            filter: { _id, content_hash: previous.content_hash },
+            update: {
+              $set: { ...content, content_hash: contentHash, revision, updated_at: now, last_seen_at: now }
+            }
+          }
+        });
+      } else {
+        operations.push({
+          updateOne: {
+            filter: { _id },
+            update: { $set: { last_seen_at: now } }
+          }
+        });
+      }
+    }
+
+    let bulkResult: any;
+    let writeError: any = null;
+    try {
+      bulkResult = await Event.bulkWrite(operations, { ordered: false });
+    } catch (error) {
+      // Unordered writes carry on past failures, so some updates may still have landed
+      writeError = error;
+    }
+
+    // An update landed if the document now carries this run's updated_at
+    const applied = changedIds.length > 0
+      ? new Set((await Event.find({ _id: { $in: changedIds }, updated_at: now }, { _id: 1 }).lean()).map(e => e._id))
+      : new Set<string>();
+    const appliedRevisions = revisions.filter(revision => applied.has(revision.event_id));
+
+    if (appliedRevisions.length > 0) {
+      await EventRevision.insertMany(appliedRevisions, { ordered: false });
+    }
+
+    if (writeError) throw writeError;
+
+    // Upserts that lost a race with a concurrent run leave an existing document untouched
+    const inserted = bulkResult.upsertedCount;
+    const changed = applied.size;
+    const unchanged = events.length - inserted - changed;
+
+    return { inserted, changed, unchanged, revisions: appliedRevisions };
+  }
+
+  private static diffTrackedFields(previous: any, current: NormalizedEvent, trackedProperties: string[]): IEventChange[] {
+    const changes: IEventChange[] = [];
+    const compare = (field: string, before: any, after: any) => {
+      if (this.stableStringify(before) !== this.stableStringify(after)) {
+        changes.push({ field, previous: before ?? null, current: after ?? null });
+      }
+    };
+
+    compare('severity', previous.severity, current.severity);
+    compare('geometry', this.plainGeometry(previous.geometry), this.plainGeometry(current.geometry));
+    compare('area_bbox', previous.area_bbox, current.area_bbox);
+    compare('ends_at', previous.ends_at, current.ends_at);
+
+    for (const key of trackedProperties) {
+      compare(`properties.${key}`, previous.properties?.[key], current.properties?.[key]);
+    }
+
+    return changes;
+  }
+
+  private static plainGeometry(geometry: any): any {
+    return geometry ? { type: geometry.type, coordinates: geometry.coordinates } : null;
+  }
+
+  private static hashContent(event: NormalizedEvent): string {
+    return crypto.createHash('sha1').update(this.stableStringify(event)).digest('hex');
+  }
+
+  private static hashRaw(raw: any): string {
+    return `sha1:${crypto.createHash('sha1').update(this.stableStringify(raw)).digest('hex')}`;
+  }
+
+  // JSON with sorted keys so property order from upstream does not count as a change
+  private static stableStringify(value: any): string {
+    if (value instanceof Date) return JSON.stringify(value.toISOString());
+    if (Array.isArray(value)) return `[${value.map(v => this.stableStringify(v)).join(',')}]`;
+    if (value && typeof value === 'object') {
+      const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+      return `{${keys.map(k => `${JSON.stringify(k)}:${this.stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+}
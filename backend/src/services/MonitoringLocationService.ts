@@ -0,0 +1,188 @@
+import { MonitoringLocation } from '../models/MonitoringLocation';
+import { Subscription } from '../models/Subscription';
+import { WeatherLocation } from '../adapters/OpenWeatherAdapter';
+
+export interface DeriveResult {
+  clusters: number;
+  created: number;
+  updated: number;
+  removed: number;
+  covered: number; // clusters already within reach of a manual or seeded location
+}
+
+// Locations polled by the OpenWeather adapter. The collection is seeded with the original
+// Malaysian city list and can grow from admin edits or from subscription clusters.
+export class MonitoringLocationService {
+  private static readonly AUTO_DERIVE = process.env.MONITORING_LOCATIONS_AUTO_DERIVE === 'true';
+  private static readonly CLUSTER_CELL_DEGREES = Number(process.env.MONITORING_CLUSTER_CELL_DEGREES) || 0.5;
+  private static readonly MIN_CLUSTER_SUBSCRIBERS = Number(process.env.MONITORING_CLUSTER_MIN_SUBSCRIBERS) || 3;
+  private static readonly COVERAGE_RADIUS_KM = 25;
+
+  private static readonly SEED_LOCATIONS = [
+    { lat: 3.1390, lng: 101.6869, name: 'kuala-lumpur', label: 'Kuala Lumpur' },
+    { lat: 1.3521, lng: 103.8198, name: 'singapore', label: 'Singapore' },
+    { lat: 5.4164, lng: 100.3327, name: 'penang', label: 'Penang' },
+    { lat: 1.4927, lng: 103.7414, name: 'johor-bahru', label: 'Johor Bahru' },
+    { lat: 3.8077, lng: 103.3260, name: 'kuantan', label: 'Kuantan' },
+    { lat: 5.9804, lng: 116.0735, name: 'kota-kinabalu', label: 'Kota Kinabalu' },
+    { lat: 1.5553, lng: 110.3592, name: 'kuching', label: 'Kuching' },
+    { lat: 4.2105, lng: 101.9758, name: 'ipoh', label: 'Ipoh' },
+    { lat: 2.1896, lng: 102.2501, name: 'melaka', label: 'Melaka' },
+    { lat: 6.1254, lng: 102.2386, name: 'kota-bharu', label: 'Kota Bharu' }
+  ];
+
+  static async getPollLocations(): Promise<WeatherLocation[]> {
+    await this.ensureSeeded();
+
+    if (this.AUTO_DERIVE) {
+      await this.deriveFromSubscriptions().catch(error =>
+        console.error('Monitoring location derivation failed:', error)
+      );
+    }
+
+    const locations = await MonitoringLocation.find({ enabled: true }).sort({ _id: 1 }).lean();
+
+    return locations.map(location => ({
+      name: location._id,
+      lng: location.location.coordinates[0],
+      lat: location.location.coordinates[1]
+    }));
+  }
+
+  // Seeds only an empty collection, so deleted seed cities stay deleted
+  static async ensureSeeded(): Promise<void> {
+    if (await MonitoringLocation.estimatedDocumentCount() > 0) return;
+
+    const now = new Date();
+    await MonitoringLocation.insertMany(this.SEED_LOCATIONS.map(seed => ({
+      _id: seed.name,
+      label: seed.label,
+      location: { type: 'Point', coordinates: [seed.lng, seed.lat] },
+      enabled: true,
+      origin: 'seed',
+      created_at: now,
+      updated_at: now
+    })), { ordered: false }).catch(error => {
+      // Another instance seeded concurrently
+      if (error?.code !== 11000) throw error;
+    });
+  }
+
+  // Groups subscriptions into grid cells and keeps one derived location per busy cell.
+  // Cells already covered by a manual or seeded location are skipped; derived locations
+  // whose cluster has gone away are removed. Disabled derived locations stay disabled.
+  static async deriveFromSubscriptions(): Promise<DeriveResult> {
+    const cell = this.CLUSTER_CELL_DEGREES;
+
+    const clusters = await Subscription.aggregate([
+      {
+        $project: {
+          lng: { $arrayElemAt: ['$location.coordinates', 0] },
+          lat: { $arrayElemAt: ['$location.coordinates', 1] }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            x: { $floor: { $divide: ['$lng', cell] } },
+            y: { $floor: { $divide: ['$lat', cell] } }
+          },
+          lng: { $avg: '$lng' },
+          lat: { $avg: '$lat' },
+          count: { $sum: 1 }
+        }
+      },
+      { $match: { count: { $gte: this.MIN_CLUSTER_SUBSCRIBERS } } }
+    ]);
+
+    const fixedLocations = await MonitoringLocation.find({ origin: { $ne: 'derived' }, enabled: true }).lean();
+    const now = new Date();
+    const keep: string[] = [];
+    let created = 0;
+    let updated = 0;
+    let covered = 0;
+
+    for (const cluster of clusters) {
+      const isCovered = fixedLocations.some(location =>
+        this.distanceKm(cluster.lat, cluster.lng, location.location.coordinates[1], location.location.coordinates[0]) <= this.COVERAGE_RADIUS_KM
+      );
+      if (isCovered) {
+        covered++;
+        continue;
+      }
+
+      const id = `auto-${cluster._id.x}-${cluster._id.y}`;
+      keep.push(id);
+
+      const result = await MonitoringLocation.updateOne(
+        { _id: id },
+        {
+          $set: {
+            location: { type: 'Point', coordinates: [this.round(cluster.lng), this.round(cluster.lat)] },
+            subscriber_count: cluster.count,
+            updated_at: now
+          },
+          $setOnInsert: {
+            label: `Subscriber cluster near ${cluster.lat.toFixed(2)}, ${cluster.lng.toFixed(2)}`,
+            enabled: true,
+            origin: 'derived',
+            created_at: now
+          }
+        },
+        { upsert: true }
+      );
+
+      if (result.upsertedCount > 0) created++;
+      else updated++;
+    }
+
+    const { deletedCount } = await MonitoringLocation.deleteMany({ origin: 'derived', _id: { $nin: keep } });
+
+    return { clusters: clusters.length, created, updated, removed: deletedCount, covered };
+  }
+
+  static async recordPollResults(polled: string[], failed: { name: string; error: string }[]): Promise<void> {
+    const now = new Date();
+    const operations: any[] = [
+      ...polled.map(name => ({
+        updateOne: {
+          filter: { _id: name },
+          update: { $set: { last_polled_at: now, last_status: 'success' }, $unset: { last_error: '' } }
+        }
+      })),
+      ...failed.map(({ name, error }) => ({
+        updateOne: {
+          filter: { _id: name },
+          update: { $set: { last_polled_at: now, last_status: 'failed', last_error: error } }
+        }
+      }))
+    ];
+
+    if (operations.length > 0) {
+      await MonitoringLocation.bulkWrite(operations, { ordered: false });
+    }
+  }
+
+  // 'Kota Kinabalu' → 'kota-kinabalu'; the slug becomes part of event ids
+  static slugify(label: string): string {
+    return label
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  private static distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const R = 6371; // Earth's radius in kilometers
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLng = (lng2 - lng1) * Math.PI / 180;
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+      Math.sin(dLng / 2) * Math.sin(dLng / 2);
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+}
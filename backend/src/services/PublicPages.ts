@@ -0,0 +1,43 @@
+// Minimal HTML pages for links opened from emails, e.g. contact confirmation.
+// Actions need a button press (a POST) because mail scanners prefetch GET links.
+export class PublicPages {
+  // Absolute URL of an API path, for links sent out by email or SMS
+  static url(path: string): string {
+    const base = (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 8080}`).replace(/\/$/, '');
+    return `${base}${path}`;
+  }
+
+  static render(title: string, message: string, form?: { action: string; button: string }): string {
+    const formHtml = form
+      ? `
+      <form method="post" action="${this.escape(form.action)}">
+        <button type="submit" style="background:#047857;color:#ffffff;border:0;padding:10px 18px;border-radius:6px;font-size:14px;cursor:pointer;">${this.escape(form.button)}</button>
+      </form>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>${this.escape(title)} - EcoGuard</title>
+  </head>
+  <body style="margin:0;padding:48px 16px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+    <main style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <h1 style="margin:0 0 12px;font-size:22px;color:#111827;">${this.escape(title)}</h1>
+      <p style="margin:0 0 20px;font-size:15px;line-height:1.5;color:#374151;">${this.escape(message)}</p>${formHtml}
+    </main>
+  </body>
+</html>`;
+  }
+
+  private static escape(value: string): string {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,105 @@
+import { QuietHours } from '../models/Subscription';
+
+export class QuietHoursValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuietHoursValidationError';
+  }
+}
+
+// Whether an alert may wake a subscriber now. Times are evaluated in the subscription's
+// timezone with Intl, so daylight saving changes are handled by the runtime's tz database.
+export class QuietHoursService {
+  // Same cut-off as requireInteraction on web push: these always break through
+  static readonly URGENT_SEVERITY = 7.0;
+
+  private static readonly TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+  static isValidTimezone(timezone: any): boolean {
+    if (typeof timezone !== 'string' || timezone.length === 0) return false;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Validates API input; null clears quiet hours
+  static parse(input: any): QuietHours | null {
+    if (input === null) return null;
+
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new QuietHoursValidationError('quiet_hours must be an object with start and end, or null');
+    }
+    if (!this.TIME_PATTERN.test(input.start) || !this.TIME_PATTERN.test(input.end)) {
+      throw new QuietHoursValidationError('quiet_hours.start and quiet_hours.end must be HH:MM (24-hour)');
+    }
+    if (input.start === input.end) {
+      throw new QuietHoursValidationError('quiet_hours.start and quiet_hours.end must differ');
+    }
+
+    const override = input.override_severity;
+    if (override !== undefined && override !== null && (typeof override !== 'number' || override < 0 || override > 10)) {
+      throw new QuietHoursValidationError('quiet_hours.override_severity must be a number between 0 and 10');
+    }
+
+    return { start: input.start, end: input.end, override_severity: override ?? null };
+  }
+
+  // Release time for an alert to this subscriber, or null when it can be sent now
+  static holdUntil(subscription: any, event: any, now: Date = new Date()): Date | null {
+    const quietHours: QuietHours | null | undefined = subscription.quiet_hours;
+    if (!quietHours?.start || !quietHours?.end) return null;
+    if (this.isUrgent(quietHours, event)) return null;
+
+    return this.quietUntil(subscription, now);
+  }
+
+  // End of the quiet hours in effect at the given time, or null outside quiet hours
+  static quietUntil(subscription: any, now: Date): Date | null {
+    const quietHours: QuietHours | null | undefined = subscription.quiet_hours;
+    if (!quietHours?.start || !quietHours?.end) return null;
+
+    const timezone = this.isValidTimezone(subscription.timezone) ? subscription.timezone : 'UTC';
+    const current = this.localMinutes(now, timezone);
+    const start = this.toMinutes(quietHours.start);
+    const end = this.toMinutes(quietHours.end);
+
+    const quiet = start < end
+      ? current >= start && current < end
+      : current >= start || current < end; // e.g. 22:00-07:00
+    if (!quiet) return null;
+
+    const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+    const releaseAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+    releaseAt.setUTCSeconds(0, 0);
+    return releaseAt;
+  }
+
+  static isUrgent(quietHours: QuietHours, event: any): boolean {
+    if (event.severity >= this.URGENT_SEVERITY) return true;
+
+    const override = quietHours.override_severity;
+    return typeof override === 'number' && event.severity >= override;
+  }
+
+  // Minutes since local midnight in the given timezone
+  static localMinutes(date: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+
+    const hour = Number(parts.find(part => part.type === 'hour')?.value);
+    const minute = Number(parts.find(part => part.type === 'minute')?.value);
+    return hour * 60 + minute;
+  }
+
+  static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,143 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import { SmsService } from './SmsService';
+import { UnsubscribeService } from './UnsubscribeService';
+import { Subscription } from '../models/Subscription';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const OPT_OUT = UnsubscribeService.SMS_OPT_OUT_NOTICE;
+const LINK = 'https://ecoguard.example.com/?event=usgs-abc123';
+
+const content = (fields: any = {}) => ({
+  title: 'Earthquake M5.2 near Ranau',
+  body: 'Strong shaking reported 12 km from your area.',
+  action: 'Move away from damaged buildings.',
+  ...fields
+});
+
+describe('SmsService', () => {
+  describe('measure', () => {
+    it('fits 160 GSM-7 characters in one segment', () => {
+      expect(SmsService.measure('a'.repeat(160))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 });
+    });
+
+    it('splits longer GSM-7 text into 153-character segments', () => {
+      expect(SmsService.measure('a'.repeat(161)).segments).toBe(2);
+      expect(SmsService.measure('a'.repeat(306)).segments).toBe(2);
+      expect(SmsService.measure('a'.repeat(307)).segments).toBe(3);
+    });
+
+    it('counts GSM-7 extension characters twice', () => {
+      expect(SmsService.measure('€'.repeat(80))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 });
+      expect(SmsService.measure('€'.repeat(81)).segments).toBe(2);
+    });
+
+    it('switches to UCS-2 for other characters', () => {
+      expect(SmsService.measure('地'.repeat(70))).toEqual({ encoding: 'UCS-2', units: 70, segments: 1 });
+      expect(SmsService.measure('地'.repeat(71)).segments).toBe(2);
+      expect(SmsService.measure('地'.repeat(135)).segments).toBe(3);
+    });
+  });
+
+  describe('condense', () => {
+    it('keeps everything when it fits', () => {
+      const text = SmsService.condense(content(), LINK, OPT_OUT);
+
+      expect(text).toBe(`EcoGuard: Earthquake M5.2 near Ranau\nStrong shaking reported 12 km from your area.\nMove away from damaged buildings.\n${LINK}\n${OPT_OUT}`);
+    });
+
+    it('drops the body before the link', () => {
+      const text = SmsService.condense(content({ body: 'x'.repeat(300) }), LINK, OPT_OUT);
+
+      expect(text).not.toContain('xxx');
+      expect(text).toContain(LINK);
+      expect(text.endsWith(OPT_OUT)).toBe(true);
+    });
+
+    it('truncates to two segments and keeps the opt-out notice', () => {
+      const text = SmsService.condense(content({ title: 'y'.repeat(400) }), LINK, OPT_OUT);
+
+      expect(SmsService.measure(text).segments).toBe(2);
+      expect(text).toContain('...');
+      expect(text.endsWith(`\n${OPT_OUT}`)).toBe(true);
+    });
+
+    it('strips accents and degree signs to stay in GSM-7', () => {
+      const text = SmsService.condense(content({ title: 'Température 40°C à Kota Bharu' }));
+
+      expect(text).toContain('Temperature 40C a Kota Bharu');
+      expect(SmsService.measure(text).encoding).toBe('GSM-7');
+    });
+  });
+
+  describe('handleInbound', () => {
+    const env = process.env;
+    let subscriptions: MemoryCollection;
+    const stop = (fields: any = {}) => ({
+      url: 'http://localhost:8080/v1/sms/inbound/console',
+      headers: {},
+      query: {},
+      body: { from: '+60123456789', text: 'STOP' },
+      ...fields
+    });
+
+    beforeEach(() => {
+      process.env = { ...env, SMS_PROVIDER: 'console' };
+      delete process.env.SMS_CONSOLE_INBOUND_SECRET;
+      subscriptions = memoryModel(Subscription, [{
+        _id: 'sub-1',
+        phone: '+60123456789',
+        email: 'user@example.com',
+        channels: ['sms', 'email'],
+        location: { type: 'Point', coordinates: [116.2, 5.98] },
+        radius_km: 10
+      }]);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+      process.env = env;
+    });
+
+    it('accepts simulated replies outside production', async () => {
+      process.env.NODE_ENV = 'development';
+
+      await expect(SmsService.handleInbound('console', stop())).resolves.toEqual({ accepted: true, stopped: 1 });
+      expect(subscriptions.get('sub-1').channels).toEqual(['email']);
+    });
+
+    it('refuses simulated replies in production without a secret', async () => {
+      process.env.NODE_ENV = 'production';
+
+      await expect(SmsService.handleInbound('console', stop())).resolves.toEqual({ accepted: false, stopped: 0 });
+      expect(subscriptions.get('sub-1').channels).toEqual(['sms', 'email']);
+    });
+
+    it('requires the console secret once one is set', async () => {
+      process.env.NODE_ENV = 'production';
+      process.env.SMS_CONSOLE_INBOUND_SECRET = 'dev-secret';
+
+      await expect(SmsService.handleInbound('console', stop({ headers: { 'x-console-secret': 'wrong' } }))).resolves.toEqual({ accepted: false, stopped: 0 });
+      await expect(SmsService.handleInbound('console', stop({ headers: { 'x-console-secret': 'dev-secret' } }))).resolves.toEqual({ accepted: true, stopped: 1 });
+    });
+
+    it('refuses gateway messages without a configured callback secret', async () => {
+      process.env.SMS_PROVIDER = 'gateway';
+      delete process.env.SMS_GATEWAY_CALLBACK_SECRET;
+      const request = stop({ query: { from: '+60123456789', text: 'STOP' }, body: {} });
+
+      await expect(SmsService.handleInbound('gateway', request)).resolves.toEqual({ accepted: false, stopped: 0 });
+
+      process.env.SMS_GATEWAY_CALLBACK_SECRET = 'gw-secret';
+      await expect(SmsService.handleInbound('gateway', request)).resolves.toEqual({ accepted: false, stopped: 0 });
+      expect(subscriptions.get('sub-1').channels).toContain('sms');
+      await expect(SmsService.handleInbound('gateway', { ...request, query: { ...request.query, secret: 'gw-secret' } }))
+        .resolves.toEqual({ accepted: true, stopped: 1 });
+      expect(subscriptions.get('sub-1').channels).toEqual(['email']);
+    });
+  });
+});
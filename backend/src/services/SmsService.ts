@@ -0,0 +1,160 @@
+import { AlertDelivery } from '../models/AlertDelivery';
+import { SmsProvider, SmsSendResult, SmsCallbackRequest } from '../providers/SmsProvider';
+import { ConsoleSmsProvider } from '../providers/ConsoleSmsProvider';
+import { TwilioSmsProvider } from '../providers/TwilioSmsProvider';
+import { GatewaySmsProvider } from '../providers/GatewaySmsProvider';
+import { AlertContent } from './AlertService';
+import { UnsubscribeService } from './UnsubscribeService';
+
+export interface SmsEncoding {
+  encoding: 'GSM-7' | 'UCS-2';
+  units: number; // septets for GSM-7 (extension characters count twice), UTF-16 code units for UCS-2
+  segments: number;
+}
+
+// SMS sending through the provider selected by SMS_PROVIDER (console, twilio or gateway)
+export class SmsService {
+  private static readonly GSM_BASIC =
+    '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+  private static readonly GSM_EXTENSION = '^{}\\[~]|€\f';
+  private static readonly MAX_SEGMENTS = Number(process.env.SMS_MAX_SEGMENTS) || 2;
+
+  private static readonly providers: SmsProvider[] = [
+    new ConsoleSmsProvider(),
+    new TwilioSmsProvider(),
+    new GatewaySmsProvider()
+  ];
+
+  static getProvider(): SmsProvider {
+    const id = process.env.SMS_PROVIDER || 'console';
+    const provider = this.providers.find(p => p.id === id);
+
+    if (!provider) {
+      throw new Error(`Unknown SMS_PROVIDER: ${id} (supported: ${this.providers.map(p => p.id).join(', ')})`);
+    }
+    return provider;
+  }
+
+  static async send(to: string, body: string): Promise<SmsSendResult> {
+    const provider = this.getProvider();
+    const publicUrl = process.env.PUBLIC_API_URL;
+
+    return provider.send(to, body, {
+      statusCallbackUrl: publicUrl ? `${publicUrl.replace(/\/$/, '')}/v1/sms/status/${provider.id}` : undefined
+    });
+  }
+
+  // Applies a provider delivery report to the matching AlertDelivery.
+  // Returns false when the callback is not for the active provider or fails verification.
+  static async handleStatusCallback(providerId: string, request: SmsCallbackRequest): Promise<{ accepted: boolean; matched: boolean }> {
+    const provider = this.getProvider();
+    if (provider.id !== providerId) return { accepted: false, matched: false };
+
+    const update = provider.parseStatusCallback(request);
+    if (!update) return { accepted: false, matched: false };
+
+    const result = await AlertDelivery.updateOne(
+      { channel: 'sms', provider_message_id: update.messageId },
+      {
+        $set: {
+          status: update.status === 'failed' ? 'failed' : 'sent',
+          provider_status: update.providerStatus,
+          updated_at: new Date(),
+          ...(update.error && { error: update.error })
+        }
+      }
+    );
+
+    return { accepted: true, matched: result.matchedCount > 0 };
+  }
+
+  // Handles a message from a subscriber; STOP and similar keywords remove the sms channel
+  // from every subscription using the sender's number
+  static async handleInbound(providerId: string, request: SmsCallbackRequest): Promise<{ accepted: boolean; stopped: number }> {
+    const provider = this.getProvider();
+    if (provider.id !== providerId) return { accepted: false, stopped: 0 };
+
+    const message = provider.parseInboundMessage(request);
+    if (!message) return { accepted: false, stopped: 0 };
+
+    const phone = this.normalizePhone(message.from);
+    if (!phone || !UnsubscribeService.isStopKeyword(message.text)) return { accepted: true, stopped: 0 };
+
+    const stopped = await UnsubscribeService.stopSms(phone);
+    console.log(`SMS STOP from ${phone}: sms removed from ${stopped} subscription(s)`);
+
+    return { accepted: true, stopped };
+  }
+
+  // '+60 12-345 6789' or '0060123456789' → '+60123456789'; null when not valid E.164
+  static normalizePhone(input: any): string | null {
+    if (typeof input !== 'string') return null;
+
+    const compact = input.replace(/[\s().-]/g, '');
+    const international = compact.startsWith('00') ? `+${compact.slice(2)}` : compact;
+
+    return /^\+[1-9]\d{7,14}$/.test(international) ? international : null;
+  }
+
+  // Fits the alert into MAX_SEGMENTS by dropping the body, then the link, before truncating.
+  // The opt-out notice, e.g. 'Reply STOP to opt out', is always kept.
+  static condense(content: AlertContent, link?: string, optOut?: string): string {
+    const title = this.toGsm(content.title);
+    const body = this.toGsm(content.body);
+    const action = this.toGsm(content.action);
+    const suffix = optOut ? `\n${this.toGsm(optOut)}` : '';
+
+    const candidates = [
+      [title, body, action, link],
+      [title, action, link],
+      [title, body, action],
+      [title, action]
+    ].map(parts => `EcoGuard: ${parts.filter(Boolean).join('\n')}`);
+
+    for (const candidate of candidates) {
+      if (this.measure(candidate + suffix).segments <= this.MAX_SEGMENTS) return candidate + suffix;
+    }
+
+    return this.truncate(candidates[candidates.length - 1], suffix);
+  }
+
+  static measure(text: string): SmsEncoding {
+    const chars = Array.from(text);
+    const isGsm = chars.every(c => this.GSM_BASIC.includes(c) || this.GSM_EXTENSION.includes(c));
+
+    if (isGsm) {
+      const units = chars.reduce((sum, c) => sum + (this.GSM_EXTENSION.includes(c) ? 2 : 1), 0);
+      return { encoding: 'GSM-7', units, segments: units <= 160 ? 1 : Math.ceil(units / 153) };
+    }
+
+    const units = text.length;
+    return { encoding: 'UCS-2', units, segments: units <= 70 ? 1 : Math.ceil(units / 67) };
+  }
+
+  // Strips accents and symbols such as '°' when that keeps the text in GSM-7,
+  // which fits more than twice as many characters per segment as UCS-2
+  private static toGsm(text: string): string {
+    const simplified = text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/°/g, '')
+      .replace(/[\u2018\u2019]/g, "'")
+      .replace(/[\u201c\u201d]/g, '"')
+      .replace(/[\u2013\u2014]/g, '-');
+
+    return this.measure(simplified).encoding === 'GSM-7' ? simplified : text;
+  }
+
+  private static truncate(text: string, suffix: string = ''): string {
+    const { encoding } = this.measure(text + suffix);
+    const limit = encoding === 'GSM-7'
+      ? (this.MAX_SEGMENTS === 1 ? 160 : 153 * this.MAX_SEGMENTS)
+      : (this.MAX_SEGMENTS === 1 ? 70 : 67 * this.MAX_SEGMENTS);
+
+    const chars = Array.from(text);
+    while (chars.length > 0 && this.measure(chars.join('') + '...' + suffix).units > limit) {
+      chars.pop();
+    }
+    return chars.join('').trimEnd() + '...' + suffix;
+  }
+}
@@ -0,0 +1,170 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { FixtureStore } from './FixtureStore';
+import { CircuitBreaker } from './CircuitBreaker';
+
+export interface SourceRequestOptions {
+  fixture: string; // fixture file name used in replay and record modes
+  fixtureFallback?: string; // shared fixture replayed when the specific one is missing
+  init?: RequestInit;
+}
+
+export class SourceRequestError extends Error {
+  constructor(
+    message: string,
+    readonly source: string,
+    readonly status?: number,
+    readonly retryable: boolean = false,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'SourceRequestError';
+  }
+}
+
+// HTTP access for source adapters; all upstream calls go through here so that
+// INGEST_FIXTURE_MODE can replay or record them without touching adapter code.
+// Live requests get a per-source timeout, jittered retries on 5xx/429 and a circuit breaker.
+export class SourceHttpClient {
+  private static readonly DEFAULT_TIMEOUT_MS = 15 * 1000;
+  private static readonly MAX_RETRIES = Number(process.env.INGEST_MAX_RETRIES ?? 3);
+  private static readonly BACKOFF_BASE_MS = 500;
+  private static readonly BACKOFF_MAX_MS = 30 * 1000;
+  private static readonly RETRY_AFTER_MAX_MS = 60 * 1000;
+  private static readonly BREAKER_THRESHOLD = Number(process.env.INGEST_BREAKER_THRESHOLD) || 5;
+  private static readonly BREAKER_COOLDOWN_MS = Number(process.env.INGEST_BREAKER_COOLDOWN_MS) || 5 * 60 * 1000;
+
+  private static readonly breakers = new Map<string, CircuitBreaker>();
+
+  static async getJson(source: string, url: string, options: SourceRequestOptions): Promise<any> {
+    const body = await this.getText(source, url, options);
+
+    try {
+      return JSON.parse(body);
+    } catch (error) {
+      throw new SourceRequestError(`Invalid JSON from ${source}`, source);
+    }
+  }
+
+  static async getText(source: string, url: string, options: SourceRequestOptions): Promise<string> {
+    const mode = FixtureStore.mode;
+
+    if (mode === 'replay') {
+      const names = [options.fixture, ...(options.fixtureFallback ? [options.fixtureFallback] : [])];
+      return FixtureStore.read(source, names);
+    }
+
+    const body = await this.requestWithRetry(source, url, options.init);
+
+    if (mode === 'record') {
+      await FixtureStore.write(source, options.fixture, body);
+    }
+
+    return body;
+  }
+
+  static getCircuitStatus(source: string) {
+    return this.getBreaker(source).getStatus();
+  }
+
+  // Timeout per source from INGEST_TIMEOUT_<SOURCE>_MS
+  static getTimeoutMs(source: string): number {
+    const envKey = `INGEST_TIMEOUT_${source.toUpperCase().replace(/-/g, '_')}_MS`;
+    return Number(process.env[envKey]) || this.DEFAULT_TIMEOUT_MS;
+  }
+
+  private static async requestWithRetry(source: string, url: string, init?: RequestInit): Promise<string> {
+    const breaker = this.getBreaker(source);
+
+    if (!breaker.tryAcquire()) {
+      const { retry_at } = breaker.getStatus();
+      throw new SourceRequestError(
+        `Circuit open for ${source}${retry_at ? ` until ${retry_at.toISOString()}` : ''}`,
+        source
+      );
+    }
+
+    let attempt = 0;
+
+    while (true) {
+      try {
+        const body = await this.requestOnce(source, url, init);
+        breaker.recordSuccess();
+        return body;
+      } catch (error: any) {
+        const retryable = !(error instanceof SourceRequestError) || error.retryable;
+
+        if (!retryable || attempt >= this.MAX_RETRIES) {
+          breaker.recordFailure(error?.message || 'Unknown error');
+          throw error;
+        }
+
+        const delay = error?.retryAfterMs ?? this.backoffDelay(attempt);
+        console.warn(`${source} request failed (${error.message}), retry ${attempt + 1}/${this.MAX_RETRIES} in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        attempt++;
+      }
+    }
+  }
+
+  private static async requestOnce(source: string, url: string, init?: RequestInit): Promise<string> {
+    const timeoutMs = this.getTimeoutMs(source);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal as any });
+      } catch (error: any) {
+        if (error?.name === 'AbortError') throw error;
+        throw new SourceRequestError(`${source} request failed: ${error?.message || 'network error'}`, source, undefined, true);
+      }
+
+      if (!response.ok) {
+        throw new SourceRequestError(
+          `${source} responded with HTTP ${response.status}`,
+          source,
+          response.status,
+          response.status === 429 || response.status >= 500,
+          this.parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      // The timeout also covers a body that stalls mid-stream
+      return await response.text();
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new SourceRequestError(`${source} request timed out after ${timeoutMs}ms`, source, undefined, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Full jitter: random delay up to the exponential ceiling
+  private static backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.BACKOFF_MAX_MS, this.BACKOFF_BASE_MS * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // Retry-After is either delay-seconds or an HTTP date
+  private static parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    const delayMs = !isNaN(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+
+    if (isNaN(delayMs)) return undefined;
+    return Math.min(this.RETRY_AFTER_MAX_MS, Math.max(0, delayMs));
+  }
+
+  private static getBreaker(source: string): CircuitBreaker {
+    let breaker = this.breakers.get(source);
+    if (!breaker) {
+      breaker = new CircuitBreaker(source, this.BREAKER_THRESHOLD, this.BREAKER_COOLDOWN_MS);
+      this.breakers.set(source, breaker);
+    }
+    return breaker;
+  }
+}
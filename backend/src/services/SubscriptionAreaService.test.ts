@@ -0,0 +1,109 @@
+import { SubscriptionAreaService, AreaValidationError } from './SubscriptionAreaService';
+
+const square = (minLng: number, minLat: number, maxLng: number, maxLat: number) =>
+  [[minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat]];
+
+const pointEvent = (lng: number, lat: number, radiusKm: number) => ({
+  geometry: { type: 'Point', coordinates: [lng, lat] },
+  area_bbox: [lng - radiusKm / 111, lat - radiusKm / 111, lng + radiusKm / 111, lat + radiusKm / 111]
+});
+
+const pointArea = (name: string, lng: number, lat: number, radiusKm: number) =>
+  ({ name, kind: 'point', geometry: { type: 'Point', coordinates: [lng, lat] }, radius_km: radiusKm });
+
+const polygonArea = (name: string, geometry: any) => ({ name, kind: 'polygon', geometry });
+
+describe('SubscriptionAreaService', () => {
+  describe('parse', () => {
+    it('accepts point and polygon areas', () => {
+      const areas = SubscriptionAreaService.parse([
+        { name: ' Home ', lat: 3.14, lng: 101.69, radius_km: 25 },
+        { name: 'Farm', geometry: { type: 'Polygon', coordinates: [square(101, 3, 102, 4)], extra: true } },
+        { name: 'Islands', geometry: { type: 'MultiPolygon', coordinates: [[square(100, 0, 101, 1)], [square(110, 0, 111, 1)]] } }
+      ]);
+
+      expect(areas).toEqual([
+        { name: 'Home', kind: 'point', geometry: { type: 'Point', coordinates: [101.69, 3.14] }, radius_km: 25 },
+        { name: 'Farm', kind: 'polygon', geometry: { type: 'Polygon', coordinates: [square(101, 3, 102, 4)] } },
+        { name: 'Islands', kind: 'polygon', geometry: { type: 'MultiPolygon', coordinates: [[square(100, 0, 101, 1)], [square(110, 0, 111, 1)]] } }
+      ]);
+    });
+
+    it.each([
+      ['not an array', { name: 'Home' }, 'areas must be a non-empty array'],
+      ['empty', [], 'areas must be a non-empty array'],
+      ['too many areas', Array.from({ length: 11 }, (_, i) => ({ name: `Area ${i}`, lat: 3, lng: 101, radius_km: 10 })), 'at most 10 areas'],
+      ['a duplicate name, whatever its case', [{ name: 'Home', lat: 3, lng: 101, radius_km: 10 }, { name: 'home', lat: 4, lng: 102, radius_km: 10 }], 'Area names must be unique'],
+      ['a missing name', [{ lat: 3, lng: 101, radius_km: 10 }], 'areas[0].name is required'],
+      ['a long name', [{ name: 'x'.repeat(61), lat: 3, lng: 101, radius_km: 10 }], 'areas[0].name is required'],
+      ['a latitude past the pole', [{ name: 'Home', lat: 91, lng: 101, radius_km: 10 }], 'areas[0] needs lat and lng'],
+      ['a longitude past the antimeridian', [{ name: 'Home', lat: 3, lng: 181, radius_km: 10 }], 'areas[0] needs lat and lng'],
+      ['a radius over 100 km', [{ name: 'Home', lat: 3, lng: 101, radius_km: 101 }], 'areas[0].radius_km must be between 1 and 100 km'],
+      ['a radius under 1 km', [{ name: 'Home', lat: 3, lng: 101, radius_km: 0.5 }], 'areas[0].radius_km must be between 1 and 100 km'],
+      ['a non-polygon geometry', [{ name: 'Road', geometry: { type: 'LineString', coordinates: [[101, 3], [102, 4]] } }], 'must be a GeoJSON Polygon or MultiPolygon'],
+      ['an open ring', [{ name: 'Farm', geometry: { type: 'Polygon', coordinates: [square(101, 3, 102, 4).slice(0, 4).concat([[101, 3.5]])] } }], 'must be closed'],
+      ['a ring of three positions', [{ name: 'Farm', geometry: { type: 'Polygon', coordinates: [[[101, 3], [102, 3], [101, 3]]] } }], 'at least 4 [lng, lat] positions'],
+      ['a vertex past the antimeridian', [{ name: 'Fiji', geometry: { type: 'Polygon', coordinates: [square(179, -18, 181, -16)] } }], 'at least 4 [lng, lat] positions'],
+      ['a MultiPolygon part without rings', [{ name: 'Islands', geometry: { type: 'MultiPolygon', coordinates: [[square(100, 0, 101, 1)], []] } }], 'a polygon without rings'],
+      ['too many vertices', [{ name: 'Coast', geometry: { type: 'Polygon', coordinates: [Array.from({ length: 1000 }, (_, i) => [100 + i / 1000, i % 2]).concat([[100, 0]])] } }], 'more than 1000 vertices']
+    ])('rejects %s', (_label, input, message) => {
+      expect(() => SubscriptionAreaService.parse(input)).toThrow(AreaValidationError);
+      expect(() => SubscriptionAreaService.parse(input)).toThrow(message);
+    });
+  });
+
+  describe('getAreas', () => {
+    it('reads a subscription without areas as a point area at its location', () => {
+      const subscription = { location: { type: 'Point', coordinates: [101.69, 3.14] }, radius_km: 25 };
+
+      expect(SubscriptionAreaService.getAreas(subscription)).toEqual([pointArea('Home', 101.69, 3.14, 25)]);
+    });
+  });
+
+  describe('summarize', () => {
+    it.each([
+      ['the first point area', [polygonArea('Farm', { type: 'Polygon', coordinates: [square(101, 3, 102, 4)] }), pointArea('Home', 101.69, 3.14, 25)], [101.69, 3.14], 25],
+      ['the centre of a polygon when there is no point', [polygonArea('Farm', { type: 'Polygon', coordinates: [square(101, 3, 102, 4)] })], [101.5, 3.5], undefined],
+      ['the first part of a MultiPolygon', [polygonArea('Islands', { type: 'MultiPolygon', coordinates: [[square(100, 0, 101, 1)], [square(110, 0, 111, 1)]] })], [100.5, 0.5], undefined]
+    ])('locates the subscription at %s', (_label, areas: any, coordinates, radiusKm) => {
+      expect(SubscriptionAreaService.summarize(areas)).toEqual({ location: { type: 'Point', coordinates }, radius_km: radiusKm });
+    });
+  });
+
+  describe('match', () => {
+    const subscription = {
+      areas: [
+        pointArea('Home', 101.69, 3.14, 20),
+        pointArea('Office', 101.6, 3.07, 5),
+        polygonArea('Farm', { type: 'Polygon', coordinates: [square(102, 2.5, 102.5, 3)] }),
+        polygonArea('Islands', { type: 'MultiPolygon', coordinates: [[square(116, 5.9, 116.1, 6)], [square(118, 5, 118.2, 5.2)]] })
+      ]
+    };
+
+    it.each([
+      ['the area nearest the event', pointEvent(101.62, 3.08, 50), { area_name: 'Office', distance_km: 2.5 }],
+      ['a point area within both radii over a nearer one out of its own', pointEvent(101.65, 3.0, 50), { area_name: 'Home', distance_km: 16.2 }],
+      ['a polygon area with the event inside', pointEvent(102.2, 2.8, 10), { area_name: 'Farm', distance_km: 0 }],
+      ['a polygon area reached by the impact radius', pointEvent(102.6, 2.75, 20), { area_name: 'Farm', distance_km: 11.1 }],
+      ['the second part of a MultiPolygon area', pointEvent(118.1, 5.3, 20), { area_name: 'Islands', distance_km: 11.1 }],
+      ['no area when the event reaches none', pointEvent(105, 0, 100), null],
+      ['no point area beyond the subscriber radius, even inside the impact radius', pointEvent(101.69, 3.4, 30), null]
+    ])('finds %s', (_label, event, expected) => {
+      expect(SubscriptionAreaService.match(event, subscription)).toEqual(expected);
+    });
+
+    it('matches a subscription without areas by its location and radius', () => {
+      const legacy = { location: { type: 'Point', coordinates: [-179.95, -17] }, radius_km: 20 };
+
+      expect(SubscriptionAreaService.match(pointEvent(179.95, -17, 50), legacy)).toEqual({ area_name: 'Home', distance_km: 10.6 });
+      expect(SubscriptionAreaService.match(pointEvent(179.95, -17, 5), legacy)).toBeNull();
+    });
+
+    it('matches a polygon area around the pole', () => {
+      const arctic = { areas: [polygonArea('Arctic', { type: 'Polygon', coordinates: [[[0, 89], [90, 89], [180, 89], [-90, 89], [0, 89]]] })] };
+
+      expect(SubscriptionAreaService.match(pointEvent(45, 89.9, 10), arctic)).toEqual({ area_name: 'Arctic', distance_km: 0 });
+      expect(SubscriptionAreaService.match(pointEvent(0, 88.7, 50), arctic)).toEqual({ area_name: 'Arctic', distance_km: 33.4 });
+    });
+  });
+});
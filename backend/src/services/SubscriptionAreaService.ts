@@ -0,0 +1,178 @@
+import { SubscriptionArea } from '../models/Subscription';
+import { GeoMatchService } from './GeoMatchService';
+
+export class AreaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AreaValidationError';
+  }
+}
+
+export interface AreaMatch {
+  distance_km: number;
+  area_name: string;
+}
+
+// Named watch areas on a subscription. Point areas behave like the original single
+// location; polygon areas match events that reach any part of them.
+export class SubscriptionAreaService {
+  static readonly MAX_AREAS = 10;
+  static readonly MAX_VERTICES = 1000;
+  static readonly DEFAULT_AREA_NAME = 'Home';
+
+  // API input: [{ name, lat, lng, radius_km }] or [{ name, geometry: Polygon | MultiPolygon }]
+  static parse(input: any): SubscriptionArea[] {
+    if (!Array.isArray(input) || input.length === 0) {
+      throw new AreaValidationError('areas must be a non-empty array');
+    }
+    if (input.length > this.MAX_AREAS) {
+      throw new AreaValidationError(`A subscription can have at most ${this.MAX_AREAS} areas`);
+    }
+
+    const areas = input.map((area: any, index: number) => this.parseArea(area, index));
+
+    const names = new Set(areas.map(area => area.name.toLowerCase()));
+    if (names.size !== areas.length) {
+      throw new AreaValidationError('Area names must be unique');
+    }
+
+    return areas;
+  }
+
+  // The single area equivalent to the original location + radius_km fields
+  static fromLocation(location: any, radiusKm: any, name: string = this.DEFAULT_AREA_NAME): SubscriptionArea {
+    return this.parseArea({ name, lat: location?.lat, lng: location?.lng, radius_km: radiusKm }, 0);
+  }
+
+  // Stored areas, or the legacy location as an unnamed point area
+  static getAreas(subscription: any): SubscriptionArea[] {
+    if (subscription.areas?.length) return subscription.areas;
+
+    return [{
+      name: this.DEFAULT_AREA_NAME,
+      kind: 'point',
+      geometry: { type: 'Point', coordinates: subscription.location.coordinates },
+      radius_km: subscription.radius_km
+    }];
+  }
+
+  // location and radius_km kept alongside areas for clustering and older clients
+  static summarize(areas: SubscriptionArea[]): { location: { type: 'Point'; coordinates: [number, number] }; radius_km?: number } {
+    const primary = areas.find(area => area.kind === 'point') || areas[0];
+
+    return {
+      location: { type: 'Point', coordinates: GeoMatchService.centroid(primary.geometry) },
+      radius_km: primary.kind === 'point' ? primary.radius_km : undefined
+    };
+  }
+
+  static format(subscription: any): any[] {
+    return this.getAreas(subscription).map(area => area.kind === 'point'
+      ? {
+        name: area.name,
+        type: 'point',
+        location: { lat: area.geometry.coordinates[1], lng: area.geometry.coordinates[0] },
+        radius_km: area.radius_km
+      }
+      : { name: area.name, type: 'polygon', geometry: area.geometry });
+  }
+
+  // Coarse condition over both area-based and legacy subscriptions
+  static buildCandidateQuery(event: any): any {
+    return {
+      $or: [
+        { 'areas.geometry': { $geoIntersects: { $geometry: GeoMatchService.buildSearchRegion(event) } } },
+        { areas: { $exists: false }, location: GeoMatchService.buildCandidateQuery(event) }
+      ]
+    };
+  }
+
+  // Closest matching area, or null when the event reaches none of them
+  static match(event: any, subscription: any): AreaMatch | null {
+    let best: AreaMatch | null = null;
+
+    for (const area of this.getAreas(subscription)) {
+      const distance = area.kind === 'point'
+        ? GeoMatchService.matchDistanceKm(event, area.geometry.coordinates[0], area.geometry.coordinates[1], area.radius_km ?? 0)
+        : GeoMatchService.matchPolygonKm(event, area.geometry);
+
+      if (distance !== null && (!best || distance < best.distance_km)) {
+        best = { distance_km: distance, area_name: area.name };
+      }
+    }
+
+    return best;
+  }
+
+  private static parseArea(area: any, index: number): SubscriptionArea {
+    const label = `areas[${index}]`;
+
+    if (typeof area !== 'object' || area === null) {
+      throw new AreaValidationError(`${label} must be an object`);
+    }
+
+    const name = typeof area.name === 'string' ? area.name.trim() : '';
+    if (!name || name.length > 60) {
+      throw new AreaValidationError(`${label}.name is required (max 60 characters)`);
+    }
+
+    if (area.geometry !== undefined) {
+      this.validatePolygon(area.geometry, label);
+      return { name, kind: 'polygon', geometry: { type: area.geometry.type, coordinates: area.geometry.coordinates } };
+    }
+
+    const lat = Number(area.lat);
+    const lng = Number(area.lng);
+    const radiusKm = Number(area.radius_km);
+
+    if (!this.isLngLat([lng, lat])) {
+      throw new AreaValidationError(`${label} needs lat and lng, or a GeoJSON geometry`);
+    }
+    if (!radiusKm || radiusKm < 1 || radiusKm > 100) {
+      throw new AreaValidationError(`${label}.radius_km must be between 1 and 100 km`);
+    }
+
+    return { name, kind: 'point', geometry: { type: 'Point', coordinates: [lng, lat] }, radius_km: radiusKm };
+  }
+
+  private static validatePolygon(geometry: any, label: string): void {
+    if (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon') {
+      throw new AreaValidationError(`${label}.geometry must be a GeoJSON Polygon or MultiPolygon`);
+    }
+
+    const polygons = geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+    if (!Array.isArray(polygons) || polygons.length === 0) {
+      throw new AreaValidationError(`${label}.geometry has no coordinates`);
+    }
+
+    let vertexCount = 0;
+    for (const rings of polygons) {
+      if (!Array.isArray(rings) || rings.length === 0) {
+        throw new AreaValidationError(`${label}.geometry has a polygon without rings`);
+      }
+      for (const ring of rings) {
+        if (!Array.isArray(ring) || ring.length < 4 || !ring.every(position => this.isLngLat(position))) {
+          throw new AreaValidationError(`${label}.geometry rings need at least 4 [lng, lat] positions`);
+        }
+        const first = ring[0];
+        const last = ring[ring.length - 1];
+        if (first[0] !== last[0] || first[1] !== last[1]) {
+          throw new AreaValidationError(`${label}.geometry rings must be closed (first and last positions equal)`);
+        }
+        vertexCount += ring.length;
+      }
+    }
+
+    if (vertexCount > this.MAX_VERTICES) {
+      throw new AreaValidationError(`${label}.geometry has more than ${this.MAX_VERTICES} vertices`);
+    }
+  }
+
+  private static isLngLat(position: any): boolean {
+    return Array.isArray(position) &&
+      typeof position[0] === 'number' && typeof position[1] === 'number' &&
+      !isNaN(position[0]) && !isNaN(position[1]) &&
+      position[0] >= -180 && position[0] <= 180 &&
+      position[1] >= -90 && position[1] <= 90;
+  }
+}
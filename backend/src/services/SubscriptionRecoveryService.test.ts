@@ -0,0 +1,156 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import { SubscriptionRecoveryService, RecoveryError } from './SubscriptionRecoveryService';
+import { SubscriptionTokenService } from './SubscriptionTokenService';
+import { EmailService } from './EmailService';
+import { SmsService } from './SmsService';
+import { Subscription } from '../models/Subscription';
+import { ContactSendLimit } from '../models/ContactSendLimit';
+import { memoryModel, MemoryCollection } from '../test/memoryModel';
+
+const PHONE = '+60123456789';
+const EMAIL = 'user@example.com';
+const phone = { contact: 'phone' as const, value: PHONE };
+
+const subscription = (fields: any) => ({
+  location: { type: 'Point', coordinates: [116.2, 5.98] },
+  radius_km: 10,
+  ...fields
+});
+
+describe('SubscriptionRecoveryService', () => {
+  let subscriptions: MemoryCollection;
+
+  // The code from the last recovery SMS, as the subscriber would read it
+  const smsCode = () => {
+    const calls = (SmsService.send as jest.Mock).mock.calls;
+    return calls[calls.length - 1][1].match(/\b(\d{6})\b/)[1];
+  };
+
+  beforeEach(() => {
+    subscriptions = memoryModel(Subscription, [
+      subscription({ _id: 'sub-old', phone: PHONE, channels: ['sms'], created_at: new Date('2025-01-01') }),
+      subscription({ _id: 'sub-1', phone: PHONE, channels: ['sms'], verification: { phone: { status: 'verified' } }, created_at: new Date('2025-06-01') }),
+      subscription({ _id: 'sub-shared', phone: PHONE, email: 'other@example.com', channels: ['sms', 'email'], created_at: new Date('2025-03-01') })
+    ]);
+    memoryModel(ContactSendLimit);
+    jest.spyOn(SmsService, 'send').mockResolvedValue({ messageId: 'sms-1', status: 'sent', response: {} } as any);
+    jest.spyOn(EmailService, 'send').mockResolvedValue({ messageId: 'm-1', response: '250 OK', accepted: [EMAIL] } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseContact', () => {
+    it('normalizes a phone number', () => {
+      expect(SubscriptionRecoveryService.parseContact({ phone: '+60 12-345 6789' })).toEqual(phone);
+    });
+
+    it('accepts an email address', () => {
+      expect(SubscriptionRecoveryService.parseContact({ email: ' user@example.com ' })).toEqual({ contact: 'email', value: EMAIL });
+    });
+
+    it('requires exactly one contact', () => {
+      expect(() => SubscriptionRecoveryService.parseContact({})).toThrow(RecoveryError);
+      expect(() => SubscriptionRecoveryService.parseContact({ email: EMAIL, phone: PHONE })).toThrow(RecoveryError);
+    });
+
+    it('rejects phone numbers that are not E.164', () => {
+      expect(() => SubscriptionRecoveryService.parseContact({ phone: '12345' })).toThrow('E.164');
+    });
+  });
+
+  describe('request and confirm', () => {
+    it('issues a new token for the subscription with the verified contact', async () => {
+      await SubscriptionRecoveryService.request(phone);
+      const { subscriptionId, token } = await SubscriptionRecoveryService.confirm(phone, smsCode());
+
+      expect(subscriptionId).toBe('sub-1');
+      expect(SubscriptionTokenService.matches(token, subscriptions.get('sub-1').management_token_hash)).toBe(true);
+      expect(subscriptions.get('sub-1').recovery).toBeUndefined();
+    });
+
+    it('supersedes other subscriptions that list the contact', async () => {
+      await SubscriptionRecoveryService.request(phone);
+      await SubscriptionRecoveryService.confirm(phone, smsCode());
+
+      expect(subscriptions.get('sub-old')).toBeUndefined();
+      expect(subscriptions.get('sub-shared')).toMatchObject({ email: 'other@example.com', channels: ['email'] });
+      expect(subscriptions.get('sub-shared').phone).toBeUndefined();
+    });
+
+    it('sends an email link that carries the code', async () => {
+      subscriptions.insert(subscription({ _id: 'sub-email', email: EMAIL, channels: ['email'], verification: { email: { status: 'verified' } } }));
+
+      await SubscriptionRecoveryService.request({ contact: 'email', value: EMAIL });
+      const [to, message] = (EmailService.send as jest.Mock).mock.calls[0];
+      const code = new URL(message.text.match(/https?:\/\/\S+/)[0]).searchParams.get('code');
+
+      expect(to).toBe(EMAIL);
+      await expect(SubscriptionRecoveryService.confirm({ contact: 'email', value: EMAIL }, code))
+        .resolves.toMatchObject({ subscriptionId: 'sub-email' });
+    });
+
+    it('sends nothing for a contact no subscription has verified', async () => {
+      subscriptions.documents.find(doc => doc._id === 'sub-1').verification.phone.status = 'pending';
+
+      await SubscriptionRecoveryService.request(phone);
+
+      expect(SmsService.send).not.toHaveBeenCalled();
+      expect(subscriptions.documents.every(doc => !doc.recovery)).toBe(true);
+    });
+
+    it('answers a rate-limited request without sending again', async () => {
+      await SubscriptionRecoveryService.request(phone);
+      await SubscriptionRecoveryService.request(phone);
+
+      expect(SmsService.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the request silent when the send fails', async () => {
+      (SmsService.send as jest.Mock).mockRejectedValue(new Error('provider down'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(SubscriptionRecoveryService.request(phone)).resolves.toBeUndefined();
+    });
+
+    it('counts incorrect codes and then refuses even the right one', async () => {
+      await SubscriptionRecoveryService.request(phone);
+      const code = smsCode();
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < 5; i++) {
+        await expect(SubscriptionRecoveryService.confirm(phone, wrong)).rejects.toThrow('Incorrect recovery code');
+      }
+
+      await expect(SubscriptionRecoveryService.confirm(phone, code)).rejects.toThrow('Too many incorrect codes');
+      expect(subscriptions.get('sub-1').management_token_hash).toBeUndefined();
+    });
+
+    it('refuses expired codes', async () => {
+      await SubscriptionRecoveryService.request(phone);
+      subscriptions.documents.find(doc => doc._id === 'sub-1').recovery.expires_at = new Date(Date.now() - 1);
+
+      await expect(SubscriptionRecoveryService.confirm(phone, smsCode())).rejects.toThrow('expired');
+    });
+
+    it('accepts each code once', async () => {
+      await SubscriptionRecoveryService.request(phone);
+      const code = smsCode();
+      await SubscriptionRecoveryService.confirm(phone, code);
+
+      await expect(SubscriptionRecoveryService.confirm(phone, code)).rejects.toThrow('No recovery is pending');
+    });
+
+    it('stops the previous token from working', async () => {
+      const previous = SubscriptionTokenService.issue();
+      subscriptions.documents.find(doc => doc._id === 'sub-1').management_token_hash = previous.hash;
+
+      await SubscriptionRecoveryService.request(phone);
+      await SubscriptionRecoveryService.confirm(phone, smsCode());
+
+      expect(SubscriptionTokenService.matches(previous.token, subscriptions.get('sub-1').management_token_hash)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { Subscription } from '../models/Subscription';
+import { SubscriptionTokenService } from './SubscriptionTokenService';
+import { ContactVerificationService, VerifiableContact, VerificationRateLimitError } from './ContactVerificationService';
+import { EmailService } from './EmailService';
+import { EmailTemplates } from './EmailTemplates';
+import { SmsService } from './SmsService';
+import { PublicPages } from './PublicPages';
+
+export class RecoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecoveryError';
+  }
+}
+
+export interface RecoveryContact {
+  contact: VerifiableContact;
+  value: string;
+}
+
+// Issues a new management token to whoever proves they own a subscription's verified
+// email or phone. This is how subscriptions created before management tokens existed,
+// and subscribers who lost their token, get (back) in.
+export class SubscriptionRecoveryService {
+  private static readonly EMAIL_TTL_MS = 60 * 60 * 1000;
+  private static readonly SMS_TTL_MS = 15 * 60 * 1000;
+  private static readonly MAX_ATTEMPTS = 5;
+
+  // Exactly one of email or phone
+  static parseContact(input: any): RecoveryContact {
+    const email = typeof input?.email === 'string' ? input.email.trim() : '';
+    const phone = typeof input?.phone === 'string' ? input.phone.trim() : '';
+
+    if (!email === !phone) throw new RecoveryError('Provide exactly one of email or phone');
+
+    if (phone) {
+      const normalized = SmsService.normalizePhone(phone);
+      if (!normalized) throw new RecoveryError('phone must be in international E.164 format');
+      return { contact: 'phone', value: normalized };
+    }
+
+    return { contact: 'email', value: email };
+  }
+
+  // Sends a link or code when a subscription has this contact verified. Callers always get
+  // the same answer, so the endpoint does not reveal which contacts are subscribed.
+  static async request({ contact, value }: RecoveryContact): Promise<void> {
+    const subscription = await this.findOwned(contact, value);
+    if (!subscription) return;
+
+    try {
+      await ContactVerificationService.reserveSend(value);
+    } catch (error) {
+      if (error instanceof VerificationRateLimitError) return;
+      throw error;
+    }
+
+    const code = contact === 'email'
+      ? crypto.randomBytes(32).toString('base64url')
+      : crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + (contact === 'email' ? this.EMAIL_TTL_MS : this.SMS_TTL_MS));
+
+    await Subscription.updateOne(
+      { _id: subscription._id },
+      { $set: { recovery: { contact, code_hash: this.hash(code), expires_at: expiresAt, attempts: 0, sent_at: now } } }
+    );
+
+    // A failed send is only logged; answering differently would reveal the subscription
+    try {
+      if (contact === 'email') {
+        const link = PublicPages.url(`/v1/subscriptions/recover/confirm?email=${encodeURIComponent(value)}&code=${code}`);
+        await EmailService.send(value, EmailTemplates.renderRecovery(link, expiresAt, subscription.language));
+      } else {
+        await SmsService.send(value, `EcoGuard: your code to manage your alert subscription is ${code}. It expires in ${Math.round(this.SMS_TTL_MS / 60000)} minutes.`);
+      }
+    } catch (error: any) {
+      console.error(`Failed to send ${contact} recovery for subscription ${subscription._id}:`, error?.message || error);
+    }
+  }
+
+  // Replaces the management token; any earlier token stops working. Other subscriptions
+  // still listing the contact are superseded, as after a verification.
+  static async confirm({ contact, value }: RecoveryContact, code: any): Promise<{ subscriptionId: string; token: string }> {
+    if (typeof code !== 'string' || !code.trim()) throw new RecoveryError('code is required');
+
+    const subscription = await this.findOwned(contact, value, true);
+    const recovery = subscription?.recovery;
+    if (!subscription || !recovery || recovery.contact !== contact) {
+      throw new RecoveryError('No recovery is pending for this contact; request a new code');
+    }
+    if (recovery.expires_at.getTime() <= Date.now()) {
+      throw new RecoveryError('Recovery code has expired; request a new one');
+    }
+    if (recovery.attempts >= this.MAX_ATTEMPTS) {
+      throw new RecoveryError('Too many incorrect codes; request a new one');
+    }
+
+    const codeHash = this.hash(code.trim());
+    if (codeHash !== recovery.code_hash) {
+      await Subscription.updateOne({ _id: subscription._id }, { $inc: { 'recovery.attempts': 1 } });
+      throw new RecoveryError('Incorrect recovery code');
+    }
+
+    const issued = SubscriptionTokenService.issue();
+    const result = await Subscription.updateOne(
+      { _id: subscription._id, 'recovery.code_hash': codeHash },
+      { $set: { management_token_hash: issued.hash, token_issued_at: new Date() }, $unset: { recovery: '' } }
+    );
+    if (result.modifiedCount === 0) throw new RecoveryError('Recovery code was already used');
+
+    await ContactVerificationService.supersede(subscription._id, contact, value);
+
+    return { subscriptionId: subscription._id, token: issued.token };
+  }
+
+  // The newest subscription that lists the contact as verified
+  private static async findOwned(contact: VerifiableContact, value: string, withCode: boolean = false): Promise<any> {
+    const query = Subscription.find({ [contact]: value }).sort({ created_at: -1 });
+    if (withCode) query.select('+recovery.code_hash');
+
+    const subscriptions = await query.lean();
+    return subscriptions.find(subscription => ContactVerificationService.isVerified(subscription, contact)) || null;
+  }
+
+  private static hash(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+}
@@ -0,0 +1,53 @@
+import { SubscriptionTokenService } from './SubscriptionTokenService';
+
+const request = (fields: any) => ({ headers: {}, query: {}, ...fields }) as any;
+
+describe('SubscriptionTokenService', () => {
+  describe('issue and matches', () => {
+    it('matches an issued token against its hash', () => {
+      const { token, hash } = SubscriptionTokenService.issue();
+
+      expect(hash).toBe(SubscriptionTokenService.hash(token));
+      expect(hash).not.toContain(token);
+      expect(SubscriptionTokenService.matches(token, hash)).toBe(true);
+    });
+
+    it('issues a different token every time', () => {
+      const first = SubscriptionTokenService.issue();
+      const second = SubscriptionTokenService.issue();
+
+      expect(first.token).not.toBe(second.token);
+      expect(SubscriptionTokenService.matches(first.token, second.hash)).toBe(false);
+    });
+
+    it('rejects a missing token or hash', () => {
+      const { token, hash } = SubscriptionTokenService.issue();
+
+      expect(SubscriptionTokenService.matches(null, hash)).toBe(false);
+      expect(SubscriptionTokenService.matches('', hash)).toBe(false);
+      expect(SubscriptionTokenService.matches(token, undefined)).toBe(false);
+    });
+
+    it('rejects a stored hash that is not a SHA-256 digest', () => {
+      const { token } = SubscriptionTokenService.issue();
+
+      expect(SubscriptionTokenService.matches(token, 'abc')).toBe(false);
+    });
+  });
+
+  describe('fromRequest', () => {
+    it('reads a bearer token', () => {
+      expect(SubscriptionTokenService.fromRequest(request({ headers: { authorization: 'Bearer abc123' } }))).toBe('abc123');
+    });
+
+    it('falls back to the token query parameter', () => {
+      expect(SubscriptionTokenService.fromRequest(request({ query: { token: 'abc123' } }))).toBe('abc123');
+    });
+
+    it('returns null without a token', () => {
+      expect(SubscriptionTokenService.fromRequest(request({ headers: { authorization: 'Bearer ' } }))).toBeNull();
+      expect(SubscriptionTokenService.fromRequest(request({ headers: { authorization: 'Basic abc' } }))).toBeNull();
+      expect(SubscriptionTokenService.fromRequest(request({ query: { token: ['a', 'b'] } }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import express from 'express';
+
+// Secret management tokens for subscriptions. Only a SHA-256 hash is stored, so a
+// token is shown once, when the subscription is created or the token is rotated.
+export class SubscriptionTokenService {
+  static issue(): { token: string; hash: string } {
+    const token = crypto.randomBytes(32).toString('base64url');
+    return { token, hash: this.hash(token) };
+  }
+
+  static hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  static matches(token: string | null, hash: string | undefined): boolean {
+    if (!token || !hash) return false;
+
+    const presented = Buffer.from(this.hash(token), 'hex');
+    const stored = Buffer.from(hash, 'hex');
+    return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+  }
+
+  // 'Authorization: Bearer <token>', or ?token= for management links
+  static fromRequest(req: express.Request): string | null {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim() || null;
+
+    return typeof req.query.token === 'string' && req.query.token ? req.query.token : null;
+  }
+}
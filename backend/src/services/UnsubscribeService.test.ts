@@ -0,0 +1,67 @@
+import { UnsubscribeService } from './UnsubscribeService';
+
+const signatureOf = (url: string) => new URL(url).searchParams.get('sig');
+
+describe('UnsubscribeService', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, UNSUBSCRIBE_SECRET: 'test-secret', PUBLIC_API_URL: 'https://api.example.com/' };
+    delete process.env.JWT_SECRET;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('buildUrl and verify', () => {
+    it('builds a signed link that verifies', () => {
+      const url = UnsubscribeService.buildUrl('sub-1', 'email');
+
+      expect(url).toMatch(/^https:\/\/api\.example\.com\/v1\/subscriptions\/sub-1\/unsubscribe\/email\?sig=/);
+      expect(UnsubscribeService.verify('sub-1', 'email', signatureOf(url))).toBe(true);
+    });
+
+    it('rejects the signature for another subscription or scope', () => {
+      const signature = signatureOf(UnsubscribeService.buildUrl('sub-1', 'email'));
+
+      expect(UnsubscribeService.verify('sub-2', 'email', signature)).toBe(false);
+      expect(UnsubscribeService.verify('sub-1', 'all', signature)).toBe(false);
+    });
+
+    it('rejects tampered or missing signatures', () => {
+      const signature = signatureOf(UnsubscribeService.buildUrl('sub-1', 'sms'));
+      const tampered = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+
+      expect(UnsubscribeService.verify('sub-1', 'sms', tampered)).toBe(false);
+      expect(UnsubscribeService.verify('sub-1', 'sms', signature.slice(1))).toBe(false);
+      expect(UnsubscribeService.verify('sub-1', 'sms', undefined)).toBe(false);
+      expect(UnsubscribeService.verify('sub-1', 'sms', [signature])).toBe(false);
+    });
+
+    it('rejects signatures made with another secret', () => {
+      const signature = signatureOf(UnsubscribeService.buildUrl('sub-1', 'email'));
+      process.env.UNSUBSCRIBE_SECRET = 'rotated-secret';
+
+      expect(UnsubscribeService.verify('sub-1', 'email', signature)).toBe(false);
+    });
+
+    it('builds no links and verifies nothing without a secret', () => {
+      const signature = signatureOf(UnsubscribeService.buildUrl('sub-1', 'email'));
+      delete process.env.UNSUBSCRIBE_SECRET;
+
+      expect(UnsubscribeService.buildUrl('sub-1', 'email')).toBeNull();
+      expect(UnsubscribeService.verify('sub-1', 'email', signature)).toBe(false);
+    });
+  });
+
+  describe('isStopKeyword', () => {
+    it.each(['STOP', 'stop', ' Unsubscribe ', 'QUIT'])('treats %p as an opt-out', text => {
+      expect(UnsubscribeService.isStopKeyword(text)).toBe(true);
+    });
+
+    it.each(['STOP please', 'START', '', undefined])('does not treat %p as an opt-out', text => {
+      expect(UnsubscribeService.isStopKeyword(text)).toBe(false);
+    });
+  });
+});
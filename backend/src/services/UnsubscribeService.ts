@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { Subscription } from '../models/Subscription';
+import { AlertChannel } from '../models/AlertDelivery';
+import { PublicPages } from './PublicPages';
+
+// 'all' stops every channel; the subscription itself is kept so its owner can re-enable alerts
+export type UnsubscribeScope = AlertChannel | 'all';
+
+// Signed unsubscribe links that work without the management token.
+// The signature covers the subscription id and scope, so a link cannot be reused for another.
+export class UnsubscribeService {
+  static readonly SCOPES: UnsubscribeScope[] = ['email', 'sms', 'webpush', 'all'];
+
+  // Appended to every SMS alert
+  static readonly SMS_OPT_OUT_NOTICE = 'Reply STOP to opt out';
+
+  // CTIA opt-out keywords; carriers expect any of them to work
+  private static readonly STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+
+  static isConfigured(): boolean {
+    return !!this.getSecret();
+  }
+
+  static isScope(value: any): value is UnsubscribeScope {
+    return this.SCOPES.includes(value);
+  }
+
+  // null when UNSUBSCRIBE_SECRET is not set, in which case messages go out without links
+  static buildUrl(subscriptionId: string, scope: UnsubscribeScope): string | null {
+    if (!this.isConfigured()) return null;
+
+    return PublicPages.url(`/v1/subscriptions/${encodeURIComponent(subscriptionId)}/unsubscribe/${scope}?sig=${this.sign(subscriptionId, scope)}`);
+  }
+
+  static verify(subscriptionId: string, scope: UnsubscribeScope, signature: any): boolean {
+    if (!this.isConfigured() || typeof signature !== 'string') return false;
+
+    const expected = Buffer.from(this.sign(subscriptionId, scope));
+    const presented = Buffer.from(signature);
+    return expected.length === presented.length && crypto.timingSafeEqual(expected, presented);
+  }
+
+  // Returns the remaining channels, or null when the subscription no longer exists
+  static async apply(subscriptionId: string, scope: UnsubscribeScope): Promise<string[] | null> {
+    const subscription = await Subscription.findByIdAndUpdate(
+      subscriptionId,
+      scope === 'all' ? { $set: { channels: [] } } : { $pull: { channels: scope } },
+      { new: true }
+    ).lean();
+
+    return subscription ? subscription.channels : null;
+  }
+
+  static isStopKeyword(text: any): boolean {
+    if (typeof text !== 'string') return false;
+    return this.STOP_KEYWORDS.includes(text.trim().toUpperCase());
+  }
+
+  // An SMS STOP applies to every subscription using the number
+  static async stopSms(phone: string): Promise<number> {
+    const result = await Subscription.updateMany({ phone, channels: 'sms' }, { $pull: { channels: 'sms' } });
+    return result.modifiedCount;
+  }
+
+  private static sign(subscriptionId: string, scope: UnsubscribeScope): string {
+    return crypto.createHmac('sha256', this.getSecret()!).update(`${subscriptionId}:${scope}`).digest('base64url');
+  }
+
+  private static getSecret(): string | undefined {
+    return process.env.UNSUBSCRIBE_SECRET || process.env.JWT_SECRET;
+  }
+}
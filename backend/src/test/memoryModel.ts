@@ -0,0 +1,319 @@
+import { isDeepStrictEqual } from 'util';
+import sift from 'sift';
+import { Model } from 'mongoose';
+
+type Doc = Record<string, any>;
+
+interface QueryOptions {
+  sort?: Record<string, 1 | -1>;
+  skip?: number;
+  limit?: number;
+}
+
+// Chainable, awaitable stand-in for a Mongoose query. Projections are ignored.
+class MemoryQuery<T> implements PromiseLike<T> {
+  private readonly options: QueryOptions = {};
+
+  constructor(private readonly run: (options: QueryOptions) => T) {}
+
+  sort(spec: Record<string, 1 | -1>): this {
+    this.options.sort = spec;
+    return this;
+  }
+
+  skip(count: number): this {
+    this.options.skip = count;
+    return this;
+  }
+
+  limit(count: number): this {
+    this.options.limit = count;
+    return this;
+  }
+
+  select(): this {
+    return this;
+  }
+
+  lean(): this {
+    return this;
+  }
+
+  exec(): Promise<T> {
+    return Promise.resolve().then(() => this.run(this.options));
+  }
+
+  then<R1 = T, R2 = never>(onFulfilled?: (value: T) => R1 | PromiseLike<R1>, onRejected?: (reason: any) => R2 | PromiseLike<R2>): Promise<R1 | R2> {
+    return this.exec().then(onFulfilled, onRejected);
+  }
+
+  catch<R = never>(onRejected?: (reason: any) => R | PromiseLike<R>): Promise<T | R> {
+    return this.exec().catch(onRejected);
+  }
+}
+
+// In-memory collection behind a Mongoose model, so tests can seed documents, call services
+// or routes, and check the documents left behind rather than the queries that were sent.
+// Filters are evaluated with sift, the matcher Mongoose itself uses. Updates support the
+// operators the services use; pipeline updates and aggregations are not supported.
+export class MemoryCollection {
+  readonly documents: Doc[] = [];
+
+  constructor(private readonly model: Model<any>) {}
+
+  // Casts through the schema, so defaults apply as they would on insert
+  insert(...docs: Doc[]): Doc[] {
+    return docs.map(doc => {
+      const stored = new this.model(doc).toObject();
+      if (this.documents.some(existing => isDeepStrictEqual(existing._id, stored._id))) {
+        throw Object.assign(new Error(`E11000 duplicate key error: ${stored._id}`), { code: 11000 });
+      }
+      this.documents.push(stored);
+      return deepClone(stored);
+    });
+  }
+
+  get(id: any): Doc | undefined {
+    const doc = this.documents.find(existing => isDeepStrictEqual(existing._id, id));
+    return doc && deepClone(doc);
+  }
+
+  matching(filter: Doc = {}, options: QueryOptions = {}): Doc[] {
+    let docs = this.documents.filter(sift(filter));
+
+    if (options.sort) {
+      const fields = Object.entries(options.sort);
+      docs = [...docs].sort((a, b) => {
+        for (const [field, direction] of fields) {
+          const x = getPath(a, field);
+          const y = getPath(b, field);
+          if (x < y) return -direction;
+          if (x > y) return direction;
+        }
+        return 0;
+      });
+    }
+
+    const start = options.skip || 0;
+    return docs.slice(start, options.limit ? start + options.limit : undefined);
+  }
+
+  update(filter: Doc, update: any, options: { upsert?: boolean; multi?: boolean } = {}): { matched: Doc[]; modified: number; upserted?: Doc } {
+    const matched = this.matching(filter);
+    const targets = options.multi ? matched : matched.slice(0, 1);
+
+    let modified = 0;
+    for (const doc of targets) {
+      const before = deepClone(doc);
+      applyUpdate(doc, update, false);
+      if (!isDeepStrictEqual(before, doc)) modified++;
+    }
+
+    if (targets.length === 0 && options.upsert) {
+      const base: Doc = {};
+      for (const [key, value] of Object.entries(filter)) {
+        if (!key.startsWith('$') && !isOperatorObject(value)) setPath(base, key, value);
+      }
+      // Defaults only fill paths the update leaves unset, as with Mongoose's setDefaultsOnInsert
+      applyUpdate(base, update, true);
+      const [inserted] = this.insert(base);
+      const stored = this.documents.find(doc => isDeepStrictEqual(doc._id, inserted._id))!;
+      return { matched: [], modified: 0, upserted: stored };
+    }
+
+    return { matched: targets, modified };
+  }
+
+  remove(filter: Doc, multi: boolean): Doc[] {
+    const removed = multi ? this.matching(filter) : this.matching(filter).slice(0, 1);
+    for (const doc of removed) this.documents.splice(this.documents.indexOf(doc), 1);
+    return removed;
+  }
+}
+
+// Replaces the model's data access with an in-memory collection seeded with `documents`.
+// Undo with jest.restoreAllMocks().
+export function memoryModel(model: Model<any>, documents: Doc[] = []): MemoryCollection {
+  const collection = new MemoryCollection(model);
+  collection.insert(...documents);
+
+  const target = model as any;
+  const clone = (doc: Doc | undefined) => (doc ? deepClone(doc) : null);
+  const withId = (id: any) => ({ _id: id });
+
+  const findOne = (filter: Doc = {}) => new MemoryQuery(options => clone(collection.matching(filter, options)[0]));
+  const findOneAndUpdate = (filter: Doc, update: any, options: any = {}) => new MemoryQuery(() => {
+    const [current] = collection.matching(filter, { sort: options.sort });
+    const before = clone(current);
+    const result = collection.update(current ? { _id: current._id } : filter, update, { upsert: options.upsert });
+    const after = result.matched[0] ?? result.upserted;
+    return options.new || options.returnDocument === 'after' ? clone(after) : before;
+  });
+  const updateResult = (result: { matched: Doc[]; modified: number; upserted?: Doc }) => ({
+    acknowledged: true,
+    matchedCount: result.matched.length,
+    modifiedCount: result.modified,
+    upsertedCount: result.upserted ? 1 : 0,
+    upsertedId: result.upserted?._id ?? null
+  });
+
+  jest.spyOn(target, 'find').mockImplementation((filter: any = {}) =>
+    new MemoryQuery(options => collection.matching(filter, options).map(doc => deepClone(doc))));
+  jest.spyOn(target, 'findOne').mockImplementation(findOne as any);
+  jest.spyOn(target, 'findById').mockImplementation((id: any) => findOne(withId(id)));
+  jest.spyOn(target, 'countDocuments').mockImplementation((filter: any = {}) => new MemoryQuery(() => collection.matching(filter).length));
+  jest.spyOn(target, 'exists').mockImplementation((filter: any) =>
+    new MemoryQuery(() => (collection.matching(filter).length > 0 ? withId(collection.matching(filter)[0]._id) : null)));
+
+  jest.spyOn(target, 'create').mockImplementation(async (docs: any) =>
+    (Array.isArray(docs) ? collection.insert(...docs) : collection.insert(docs)[0]));
+  jest.spyOn(target, 'insertMany').mockImplementation(async (docs: any, options: any = {}) => {
+    if (options.ordered !== false) return collection.insert(...docs);
+
+    const inserted: Doc[] = [];
+    let duplicate: any = null;
+    for (const doc of docs) {
+      try {
+        inserted.push(...collection.insert(doc));
+      } catch (error) {
+        duplicate = error;
+      }
+    }
+    if (duplicate) throw duplicate;
+    return inserted;
+  });
+  jest.spyOn(target.prototype, 'save').mockImplementation(async function (this: any) {
+    collection.insert(this.toObject());
+    return this;
+  });
+
+  jest.spyOn(target, 'updateOne').mockImplementation((filter: any, update: any, options: any = {}) =>
+    new MemoryQuery(() => updateResult(collection.update(filter, update, { upsert: options.upsert }))));
+  jest.spyOn(target, 'updateMany').mockImplementation((filter: any, update: any, options: any = {}) =>
+    new MemoryQuery(() => updateResult(collection.update(filter, update, { upsert: options.upsert, multi: true }))));
+  jest.spyOn(target, 'findOneAndUpdate').mockImplementation(findOneAndUpdate as any);
+  jest.spyOn(target, 'findByIdAndUpdate').mockImplementation((id: any, update: any, options: any) =>
+    findOneAndUpdate(withId(id), update, options));
+
+  jest.spyOn(target, 'deleteOne').mockImplementation((filter: any) =>
+    new MemoryQuery(() => ({ acknowledged: true, deletedCount: collection.remove(filter, false).length })));
+  jest.spyOn(target, 'deleteMany').mockImplementation((filter: any = {}) =>
+    new MemoryQuery(() => ({ acknowledged: true, deletedCount: collection.remove(filter, true).length })));
+  jest.spyOn(target, 'findByIdAndDelete').mockImplementation((id: any) =>
+    new MemoryQuery(() => clone(collection.remove(withId(id), false)[0])));
+
+  jest.spyOn(target, 'bulkWrite').mockImplementation(async (operations: any) => {
+    let upsertedCount = 0;
+    let modifiedCount = 0;
+    let insertedCount = 0;
+    for (const operation of operations as any[]) {
+      if (operation.insertOne) {
+        collection.insert(operation.insertOne.document);
+        insertedCount++;
+      } else if (operation.updateOne) {
+        const { filter, update, upsert } = operation.updateOne;
+        const result = collection.update(filter, update, { upsert });
+        modifiedCount += result.modified;
+        if (result.upserted) upsertedCount++;
+      } else {
+        throw new Error(`memoryModel does not support bulk operation ${Object.keys(operation)[0]}`);
+      }
+    }
+    return { insertedCount, upsertedCount, modifiedCount };
+  });
+
+  return collection;
+}
+
+function applyUpdate(doc: Doc, update: any, inserting: boolean): void {
+  if (Array.isArray(update)) throw new Error('memoryModel does not support pipeline updates');
+
+  for (const [key, value] of Object.entries(update)) {
+    if (!key.startsWith('$')) {
+      setPath(doc, key, deepClone(value));
+      continue;
+    }
+
+    for (const [path, operand] of Object.entries(value as Doc)) {
+      switch (key) {
+        case '$set':
+          setPath(doc, path, deepClone(operand));
+          break;
+        case '$setOnInsert':
+          if (inserting) setPath(doc, path, deepClone(operand));
+          break;
+        case '$unset':
+          unsetPath(doc, path);
+          break;
+        case '$inc':
+          setPath(doc, path, (getPath(doc, path) ?? 0) + operand);
+          break;
+        case '$push': {
+          const items = operand?.$each ?? [operand];
+          let array = [...(getPath(doc, path) ?? []), ...deepClone(items)];
+          if (typeof operand?.$slice === 'number') {
+            array = operand.$slice < 0 ? array.slice(operand.$slice) : array.slice(0, operand.$slice);
+          }
+          setPath(doc, path, array);
+          break;
+        }
+        case '$addToSet': {
+          const array = getPath(doc, path) ?? [];
+          if (!array.some((item: any) => isDeepStrictEqual(item, operand))) setPath(doc, path, [...array, operand]);
+          break;
+        }
+        case '$pull': {
+          const array = getPath(doc, path);
+          if (!Array.isArray(array)) break;
+          const matches = operand && typeof operand === 'object' && !(operand instanceof Date)
+            ? sift(operand)
+            : (item: any) => isDeepStrictEqual(item, operand);
+          setPath(doc, path, array.filter(item => !matches(item)));
+          break;
+        }
+        default:
+          throw new Error(`memoryModel does not support ${key}`);
+      }
+    }
+  }
+}
+
+function isOperatorObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) &&
+    Object.keys(value).some(key => key.startsWith('$'));
+}
+
+function getPath(doc: Doc, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+function setPath(doc: Doc, path: string, value: any): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let target = doc;
+  for (const key of keys) {
+    if (target[key] == null || typeof target[key] !== 'object') target[key] = {};
+    target = target[key];
+  }
+  target[last] = value;
+}
+
+function unsetPath(doc: Doc, path: string): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((value: any, key) => (value == null ? undefined : value[key]), doc);
+  if (parent && typeof parent === 'object') delete parent[last];
+}
+
+// Unlike structuredClone, builds dates with the current global Date, so they still match
+// date filters while jest's fake timers have replaced it
+function deepClone<T>(value: T): T {
+  if (value instanceof Date || Object.prototype.toString.call(value) === '[object Date]') {
+    return new Date((value as any).getTime()) as any;
+  }
+  if (Array.isArray(value)) return value.map(item => deepClone(item)) as any;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, deepClone(item)])) as any;
+  }
+  return value;
+}
@@ -4,23 +4,77 @@ import { io, Socket } from 'socket.io-client';
 interface NotificationContextType {
   isConnected: boolean;
   notifications: any[];
+  subscriptionId: string | null;
+  managementToken: string | null;
   requestPermission: () => Promise<boolean>;
-  subscribe: (location: { lat: number; lng: number }, radius: number) => Promise<void>;
+  subscribe: (location: { lat: number; lng: number }, radius: number) => Promise<boolean>;
 }
 
 const NotificationContext = createContext<NotificationContextType | null>(null);
 
+const SUBSCRIPTION_ID_KEY = 'ecoguard_subscription_id';
+const MANAGEMENT_TOKEN_KEY = 'ecoguard_management_token';
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+// VAPID keys are URL-safe base64; pushManager.subscribe() wants raw bytes
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+// Reuses the browser's existing push subscription or creates one with the server's VAPID key
+const getPushSubscription = async (): Promise<PushSubscriptionJSON | null> => {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+    console.log('This browser does not support web push');
+    return null;
+  }
+
+  // No registration in dev mode, where the PWA service worker is not built
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    console.log('No service worker registered; web push unavailable');
+    return null;
+  }
+
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing.toJSON();
+
+  const response = await fetch(`${API_URL}/v1/subscriptions/vapid-public-key`);
+  if (!response.ok) {
+    console.log('Web push is not configured on the server');
+    return null;
+  }
+
+  const { public_key } = await response.json();
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(public_key)
+  });
+
+  return subscription.toJSON();
+};
+
 export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [notifications, setNotifications] = useState<any[]>([]);
+  const [subscriptionId, setSubscriptionId] = useState<string | null>(() => localStorage.getItem(SUBSCRIPTION_ID_KEY));
+  const [managementToken, setManagementToken] = useState<string | null>(() => localStorage.getItem(MANAGEMENT_TOKEN_KEY));
 
   useEffect(() => {
-    const newSocket = io(import.meta.env.VITE_API_URL || 'http://localhost:3000');
+    const newSocket = io(API_URL);
     
     newSocket.on('connect', () => {
       setIsConnected(true);
       console.log('Connected to EcoGuard server');
+
+      // Rejoin the alert room of a subscription created in an earlier visit
+      const storedId = localStorage.getItem(SUBSCRIPTION_ID_KEY);
+      if (storedId) {
+        newSocket.emit('subscribe', { channels: [`alerts:${storedId}`] });
+      }
     });
 
     newSocket.on('disconnect', () => {
@@ -57,15 +111,23 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     return permission === 'granted';
   };
 
-  const subscribe = async (location: { lat: number; lng: number }, radius: number) => {
+  const subscribe = async (location: { lat: number; lng: number }, radius: number): Promise<boolean> => {
     try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3000'}/v1/subscriptions`, {
+      const push = await getPushSubscription();
+      if (!push) return false;
+
+      const response = await fetch(`${API_URL}/v1/subscriptions`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          // Lets the server update our own subscription instead of creating another
+          ...(managementToken && { Authorization: `Bearer ${managementToken}` })
+        },
         body: JSON.stringify({
           location,
           radius_km: radius,
           channels: ['webpush'],
+          push,
           language: 'en'
         })
       });
@@ -73,14 +135,28 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
       if (response.ok) {
         const data = await response.json();
         console.log('Subscribed successfully:', data);
-        
+
+        localStorage.setItem(SUBSCRIPTION_ID_KEY, data.subscription.id);
+        setSubscriptionId(data.subscription.id);
+
+        // Only returned when a new token was issued
+        if (data.management_token) {
+          localStorage.setItem(MANAGEMENT_TOKEN_KEY, data.management_token);
+          setManagementToken(data.management_token);
+        }
+
         // Join WebSocket room for this subscription
         if (socket) {
           socket.emit('subscribe', { channels: [`alerts:${data.subscription.id}`] });
         }
+        return true;
       }
+
+      console.error('Subscription rejected:', await response.text());
+      return false;
     } catch (error) {
       console.error('Subscription failed:', error);
+      return false;
     }
   };
 
@@ -88,6 +164,8 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     <NotificationContext.Provider value={{
       isConnected,
       notifications,
+      subscriptionId,
+      managementToken,
       requestPermission,
       subscribe
     }}>
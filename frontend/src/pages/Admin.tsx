@@ -70,7 +70,7 @@ export const Admin: React.FC = () => {
       
       if (response.ok) {
         const result = await response.json();
-        alert(`${source.toUpperCase()} ingestion completed: ${result.inserted} new, ${result.updated} updated`);
+        alert(`${source.toUpperCase()} ingestion completed: ${result.inserted} new, ${result.changed} changed`);
         fetchMetrics(); // Refresh metrics
       } else {
         alert(`Ingestion failed: ${response.statusText}`);
@@ -1,9 +1,47 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNotifications } from '../hooks/useNotifications';
 import { Bell, Clock, MapPin } from 'lucide-react';
 
+interface DeliveryRecord {
+  id: string;
+  event_id: string;
+  event_type: string;
+  severity: number;
+  title: string;
+  channel: 'webpush' | 'email' | 'sms';
+  status: 'queued' | 'sent' | 'failed' | 'expired';
+  created_at: string;
+}
+
 export const Alerts: React.FC = () => {
-  const { notifications, isConnected } = useNotifications();
+  const { notifications, isConnected, subscriptionId, managementToken } = useNotifications();
+  const [history, setHistory] = useState<DeliveryRecord[]>([]);
+
+  useEffect(() => {
+    if (!subscriptionId || !managementToken) return;
+
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3000'}/v1/subscriptions/${subscriptionId}/alerts?limit=50`, {
+          headers: { Authorization: `Bearer ${managementToken}` }
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setHistory(data.alerts);
+        }
+      } catch (error) {
+        console.error('Failed to fetch alert history:', error);
+      }
+    };
+
+    fetchHistory();
+  }, [subscriptionId, managementToken, notifications.length]);
+
+  const getStatusColor = (status: DeliveryRecord['status']) => {
+    if (status === 'sent') return 'bg-green-100 text-green-800';
+    if (status === 'queued') return 'bg-gray-100 text-gray-800';
+    return 'bg-red-100 text-red-800';
+  };
 
   const getSeverityColor = (severity: number) => {
     if (severity >= 8) return 'bg-red-100 border-red-500 text-red-800';
@@ -81,6 +119,30 @@ export const Alerts: React.FC = () => {
           ))}
         </div>
       )}
+
+      {history.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Delivered Alerts</h2>
+          <div className="bg-white rounded-lg shadow-sm divide-y">
+            {history.map(delivery => (
+              <div key={delivery.id} className="flex items-center justify-between p-4">
+                <div>
+                  <div className="font-medium text-gray-900">{delivery.title}</div>
+                  <div className="text-sm text-gray-500">
+                    {delivery.event_type.toUpperCase()} · severity {delivery.severity.toFixed(1)} · {new Date(delivery.created_at).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 text-sm">
+                  <span className="text-gray-600">{delivery.channel}</span>
+                  <span className={`px-2 py-1 rounded font-medium ${getStatusColor(delivery.status)}`}>
+                    {delivery.status}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -146,8 +146,10 @@ export const Home: React.FC = () => {
   const handleSubscribe = async () => {
     const granted = await requestPermission();
     if (granted) {
-      await subscribe({ lat: userLocation[0], lng: userLocation[1] }, radius);
-      alert('Subscribed to alerts for this location!');
+      const subscribed = await subscribe({ lat: userLocation[0], lng: userLocation[1] }, radius);
+      alert(subscribed
+        ? 'Subscribed to alerts for this location!'
+        : 'Could not set up push notifications in this browser. Please try again later.');
     } else {
       alert('Please enable notifications to receive alerts');
     }